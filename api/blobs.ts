@@ -0,0 +1,46 @@
+import { Express, Request, Response } from "express";
+import path from "path";
+import { getBlobStore, verifyLocalSignature } from "../src/services/blobStore";
+
+// Tipos de conteúdo pela extensão das chaves geradas em storeImage
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+};
+
+export function setupBlobRoutes(app: Express) {
+  // Servir objetos do driver local por URL assinada (o driver S3 assina URLs do próprio bucket)
+  // A assinatura substitui a sessão: quem gerou a URL já verificou o acesso à medição
+  app.get("/api/blobs/*", async (req: Request, res: Response) => {
+    try {
+      const store = getBlobStore();
+      if (store.name !== "local") {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
+      }
+
+      const key = req.params[0];
+      const expires = parseInt(req.query.expires as string);
+      const signature = String(req.query.signature || "");
+
+      if (!/^[0-9a-f]+$/.test(signature) || !verifyLocalSignature(key, expires, signature)) {
+        return res.status(403).json({ message: "URL inválida ou expirada" });
+      }
+
+      const data = await store.get(key);
+      if (!data) {
+        return res.status(404).json({ message: "Arquivo não encontrado" });
+      }
+
+      const maxAge = Math.max(0, expires - Math.floor(Date.now() / 1000));
+      res.set("Content-Type", CONTENT_TYPES[path.extname(key)] || "application/octet-stream");
+      res.set("Cache-Control", `private, max-age=${maxAge}`);
+      res.send(data);
+    } catch (error) {
+      console.error("Erro ao servir arquivo:", error);
+      res.status(500).json({ message: "Erro ao servir arquivo" });
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import { storage } from "../storage";
+import { verifyToken } from "../security";
+import {
+  analyzeGuidanceFrame,
+  issueCaptureReadySignal,
+  READY_STREAK_FRAMES,
+} from "../src/services/captureGuidanceService";
+import { getQualityThresholds } from "../src/services/qualitySettingsService";
+import { QualityThresholds } from "../src/types/measurements";
+
+// Caminho do canal de orientação de captura
+export const CAPTURE_GUIDANCE_PATH = "/api/capture-guidance";
+
+// Quadros de orientação são de baixa resolução; acima disso a conexão é encerrada
+const MAX_FRAME_BYTES = 512 * 1024;
+
+// Duração máxima de uma sessão de orientação
+const SESSION_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Recusar o upgrade com uma resposta HTTP simples
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Navegadores não enviam cabeçalhos no WebSocket: o token JWT vem na query string
+async function authenticateUpgrade(req: IncomingMessage) {
+  const url = new URL(req.url || "", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (!token) return null;
+
+  try {
+    const { userId } = verifyToken(token);
+    return (await storage.getUser(userId)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Extrair o quadro da mensagem: binário (JPEG/PNG) ou JSON { image: dataURL }
+function frameFromMessage(data: RawData, isBinary: boolean): Buffer | null {
+  const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+  if (isBinary) return buffer;
+
+  try {
+    const message = JSON.parse(buffer.toString("utf8"));
+    if (typeof message.image !== "string") return null;
+    return Buffer.from(message.image.replace(/^data:image\/\w+;base64,/, ""), "base64");
+  } catch {
+    return null;
+  }
+}
+
+// Sessão de orientação: responde cada quadro com as verificações de posicionamento e,
+// após quadros consecutivos aprovados, envia o sinal de pronto e encerra
+function handleSession(ws: WebSocket, userId: number, thresholds: QualityThresholds) {
+  let received = 0;
+  let streak = 0;
+  let latest: { frame: Buffer; number: number } | null = null;
+  let processing = false;
+  let finished = false;
+
+  const send = (message: object) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+  };
+
+  const timeout = setTimeout(() => ws.close(1000, "Sessão expirada"), SESSION_TIMEOUT_MS);
+  ws.on("close", () => {
+    finished = true;
+    clearTimeout(timeout);
+  });
+
+  // Processar sempre o quadro mais recente; quadros que chegam durante a análise
+  // substituem os anteriores, para que a resposta não acumule atraso
+  const drain = async () => {
+    processing = true;
+
+    while (latest && !finished) {
+      const { frame, number } = latest;
+      latest = null;
+
+      try {
+        const result = await analyzeGuidanceFrame(frame, thresholds);
+        streak = result.ok ? streak + 1 : 0;
+        send({ type: "feedback", frame: number, streak, ...result });
+
+        if (streak >= READY_STREAK_FRAMES) {
+          const signal = issueCaptureReadySignal(userId);
+          send({ type: "ready", readyToken: signal.token, expiresAt: signal.expiresAt });
+          finished = true;
+          ws.close(1000, "Pronto para capturar");
+        }
+      } catch (error) {
+        streak = 0;
+        send({
+          type: "error",
+          frame: number,
+          message: error instanceof Error ? error.message : "Erro ao analisar quadro",
+        });
+      }
+    }
+
+    processing = false;
+  };
+
+  ws.on("message", (data: RawData, isBinary: boolean) => {
+    if (finished) return;
+
+    const frame = frameFromMessage(data, isBinary);
+    received++;
+    if (!frame) {
+      send({ type: "error", frame: received, message: "Quadro inválido" });
+      return;
+    }
+
+    latest = { frame, number: received };
+    if (!processing) drain();
+  });
+
+  send({ type: "started", readyAfter: READY_STREAK_FRAMES });
+}
+
+// Canal WebSocket em que a página de captura envia quadros e recebe orientação em tempo real,
+// com o detector local em vez de uma chamada ao modelo por foto
+export function setupCaptureGuidanceSocket(server: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_FRAME_BYTES });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const url = new URL(req.url || "", "http://localhost");
+    // Outros upgrades (ex.: recarga do Vite) seguem para os seus próprios handlers
+    if (url.pathname !== CAPTURE_GUIDANCE_PATH) return;
+
+    try {
+      const user = await authenticateUpgrade(req);
+      if (!user) {
+        return rejectUpgrade(socket, "401 Unauthorized");
+      }
+
+      const thresholds = await getQualityThresholds(user.franchiseId);
+      wss.handleUpgrade(req, socket, head, (ws: WebSocket) => handleSession(ws, user.id, thresholds));
+    } catch (error) {
+      console.error("Erro ao abrir sessão de orientação de captura:", error);
+      rejectUpgrade(socket, "500 Internal Server Error");
+    }
+  });
+}
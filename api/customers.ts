@@ -1,7 +1,23 @@
 import { Express, Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { measurementRepository } from "../src/services/measurementRepository";
 import { z } from "zod";
 import { User } from "@shared/schema";
+import { buildMeasurementStats } from "./measurements";
+import { createLabJob, getLabJob } from "../src/services/labJobService";
+import { MeasurementNotApprovedError } from "../src/services/measurementReviewService";
+import {
+  FittingSheetContent,
+  FittingSheetError,
+  loadFittingSheetContent,
+  renderFittingSheet,
+} from "../src/services/fittingSheetService";
+import { exportLabJobOma, OmaRoundTripError } from "../src/services/omaExportService";
+import { getFrameSpec } from "../src/services/frameCatalogService";
+import { getLabJobTrace, saveFrameTrace } from "../src/services/frameTraceService";
+import { renderFrameTraceSvg } from "../src/utils/traceSvg";
+import { frameTraceUploadSchema, readFrameTrace } from "./inventory";
+import { LabJob } from "../src/types/labJobs";
 
 // Estendendo a interface Request para incluir o usuário autenticado
 declare global {
@@ -41,6 +57,37 @@ const createCustomerSchema = z.object({
   gender: z.string().optional(),
 });
 
+// Esquema de validação da ficha de montagem
+const fittingSheetSchema = z.object({
+  measurementId: z.number().int().positive("Medição inválida"),
+  prescriptionId: z.number().int().positive("Receita inválida").optional(),
+  productId: z.number().int().positive("Armação inválida").optional(),
+});
+
+// Enviar o PDF da ficha de montagem de um serviço
+async function sendFittingSheet(res: Response, job: LabJob, customer: User, content: FittingSheetContent) {
+  const franchise = await storage.getFranchise(job.franchiseId);
+  
+  const pdf = await renderFittingSheet(
+    job,
+    {
+      franchise: {
+        name: franchise?.name ?? `Franquia ${job.franchiseId}`,
+        city: franchise?.city,
+        state: franchise?.state,
+        email: franchise?.email,
+      },
+      customer: { fullName: customer.fullName, email: customer.email },
+    },
+    content
+  );
+  
+  res.set("Content-Type", "application/pdf");
+  res.set("Content-Disposition", `inline; filename="ficha-montagem-${job.jobNumber}.pdf"`);
+  res.set("Cache-Control", "private, no-store");
+  res.send(pdf);
+}
+
 export function setupCustomersRoutes(app: Express) {
   // Obter todos os clientes de uma franquia
   app.get("/api/franchisee/:franchiseId/customers", isAuthenticated, async (req: Request, res: Response) => {
@@ -57,7 +104,7 @@ export function setupCustomersRoutes(app: Express) {
       // Adicionar contagem de medições e consultas para cada cliente
       const customersWithStats = await Promise.all(
         customers.map(async (customer) => {
-          const measurements = await storage.getMeasurementsByUserId(customer.id);
+          const measurements = await measurementRepository.listByUser(customer.id);
           const appointments = await storage.getAppointmentsByUserId(customer.id);
           
           return {
@@ -103,7 +150,7 @@ export function setupCustomersRoutes(app: Express) {
       }
       
       // Obter estatísticas do cliente
-      const measurements = await storage.getMeasurementsByUserId(customerId);
+      const measurements = await measurementRepository.listByUser(customerId);
       const appointments = await storage.getAppointmentsByUserId(customerId);
       
       // Obter a data da última consulta
@@ -126,6 +173,50 @@ export function setupCustomersRoutes(app: Express) {
     }
   });
 
+  // Obter estatísticas e tendências das medições de um cliente
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/measurements/stats", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário tem permissão para acessar os clientes desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const customer = await storage.getUser(customerId);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+      
+      // Verificar se o cliente pertence à franquia
+      const customerAppointments = await storage.getAppointmentsByUserId(customerId);
+      const belongsToFranchise = customerAppointments.some(
+        appointment => appointment.franchiseId === franchiseId
+      );
+      
+      if (!belongsToFranchise && req.user && req.user.role !== "admin") {
+        return res.status(403).json({ message: "Este cliente não pertence à sua franquia" });
+      }
+      
+      const measurements = await measurementRepository.listByUser(customerId);
+      const result = await buildMeasurementStats(measurements, req.query);
+      
+      if (!result) {
+        return res.status(400).json({ message: "Limiares inválidos" });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Erro ao calcular estatísticas do cliente:", error);
+      res.status(500).json({ message: "Erro ao calcular estatísticas do cliente" });
+    }
+  });
+
   // Adicionar novo cliente
   app.post("/api/franchisee/:franchiseId/customers", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
     try {
@@ -246,7 +337,7 @@ export function setupCustomersRoutes(app: Express) {
       await storage.updateClientProfile(clientProfile.id, updatedProfileData);
       
       // Obter estatísticas do cliente
-      const measurements = await storage.getMeasurementsByUserId(customerId);
+      const measurements = await measurementRepository.listByUser(customerId);
       const appointments = await storage.getAppointmentsByUserId(customerId);
       
       // Obter a data da última consulta
@@ -312,4 +403,254 @@ export function setupCustomersRoutes(app: Express) {
       res.status(500).json({ message: "Erro ao desativar cliente" });
     }
   });
+
+  // Gerar a ficha de montagem (PDF) de um novo serviço para o laboratório
+  app.post("/api/franchisee/:franchiseId/customers/:customerId/fitting-sheet", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário é franqueado desta franquia
+      if (req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const validationResult = fittingSheetSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos", 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const customer = await storage.getUser(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+      
+      // Verificar se o cliente pertence à franquia
+      const customerAppointments = await storage.getAppointmentsByUserId(customerId);
+      const belongsToFranchise = customerAppointments.some(
+        appointment => appointment.franchiseId === franchiseId
+      );
+      
+      if (!belongsToFranchise) {
+        return res.status(403).json({ message: "Este cliente não pertence à sua franquia" });
+      }
+      
+      const { measurementId, prescriptionId, productId } = validationResult.data;
+      
+      // Validar os dados antes de numerar o serviço
+      const content = await loadFittingSheetContent({
+        franchiseId,
+        customerId,
+        measurementId,
+        prescriptionId,
+        productId,
+      });
+      
+      const job = await createLabJob({
+        franchiseId,
+        customerId,
+        measurementId,
+        prescriptionId: content.prescription.id,
+        productId: productId ?? null,
+        createdBy: req.user.id,
+      });
+      
+      await sendFittingSheet(res, job, customer, content);
+    } catch (error) {
+      if (error instanceof MeasurementNotApprovedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      if (error instanceof FittingSheetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erro ao gerar ficha de montagem:", error);
+      res.status(500).json({ message: "Erro ao gerar ficha de montagem" });
+    }
+  });
+
+  // Reimprimir a ficha de montagem de um serviço já registrado
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/fitting-sheet/:jobNumber", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário tem permissão para acessar os clientes desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const customer = await storage.getUser(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+      
+      const job = await getLabJob(req.params.jobNumber, customerId, franchiseId);
+      if (!job) {
+        return res.status(404).json({ message: "Serviço não encontrado" });
+      }
+      
+      const content = await loadFittingSheetContent(job);
+      await sendFittingSheet(res, job, customer, content);
+    } catch (error) {
+      if (error instanceof MeasurementNotApprovedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      if (error instanceof FittingSheetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erro ao reimprimir ficha de montagem:", error);
+      res.status(500).json({ message: "Erro ao reimprimir ficha de montagem" });
+    }
+  });
+
+  // Baixar o pedido de um serviço no formato OMA/DCS, para envio ao laboratório
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/lab-jobs/:jobNumber/oma", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário tem permissão para acessar os clientes desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const customer = await storage.getUser(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Cliente não encontrado" });
+      }
+      
+      const job = await getLabJob(req.params.jobNumber, customerId, franchiseId);
+      if (!job) {
+        return res.status(404).json({ message: "Serviço não encontrado" });
+      }
+      
+      // A medição é conferida de novo: a revisão pode ter mudado desde a criação do serviço
+      const content = await loadFittingSheetContent(job);
+      const oma = exportLabJobOma(job, customer.fullName, content);
+      
+      res.set("Content-Type", "text/plain; charset=utf-8");
+      res.set("Content-Disposition", `attachment; filename="${job.jobNumber}.oma"`);
+      res.set("Cache-Control", "private, no-store");
+      res.send(oma);
+    } catch (error) {
+      if (error instanceof MeasurementNotApprovedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      if (error instanceof FittingSheetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof OmaRoundTripError) {
+        // Os dados do serviço não cabem no formato do laboratório; corrigir o cadastro antes de exportar
+        console.error("Erro ao exportar pedido OMA:", error);
+        return res.status(422).json({ message: error.message, errors: error.errors });
+      }
+      console.error("Erro ao exportar pedido OMA:", error);
+      res.status(500).json({ message: "Erro ao exportar pedido OMA" });
+    }
+  });
+
+  // Importar o arquivo da traçadora (OMA) da armação de um serviço
+  app.post("/api/franchisee/:franchiseId/customers/:customerId/lab-jobs/:jobNumber/trace", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário é franqueado desta franquia
+      if (req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const job = await getLabJob(req.params.jobNumber, customerId, franchiseId);
+      if (!job) {
+        return res.status(404).json({ message: "Serviço não encontrado" });
+      }
+      
+      const validationResult = frameTraceUploadSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos", 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const frameSpec = job.productId ? await getFrameSpec(job.productId) : null;
+      const traced = readFrameTrace(res, validationResult.data, frameSpec?.dbl ?? null);
+      if (!traced) return;
+      
+      // O traçado do pedido vale só para o serviço: a ficha técnica da armação não muda
+      const { trace } = await saveFrameTrace({
+        franchiseId,
+        productId: null,
+        labJobId: job.id,
+        ...traced,
+        createdBy: req.user.id,
+      });
+      
+      res.status(201).json(trace);
+    } catch (error) {
+      console.error("Erro ao importar traçado do serviço:", error);
+      res.status(500).json({ message: "Erro ao importar traçado do serviço" });
+    }
+  });
+
+  // Desenho do contorno traçado com as pupilas do cliente, para conferir alturas e descentração
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/lab-jobs/:jobNumber/trace.svg", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      
+      // Verificar se o usuário tem permissão para acessar os clientes desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const job = await getLabJob(req.params.jobNumber, customerId, franchiseId);
+      if (!job) {
+        return res.status(404).json({ message: "Serviço não encontrado" });
+      }
+      
+      const trace = await getLabJobTrace(job);
+      if (!trace) {
+        return res.status(404).json({ message: "Serviço sem traçado da armação" });
+      }
+      
+      const { measurement } = await loadFittingSheetContent(job);
+      
+      // O desenho posiciona a altura pupilar a partir do aro inferior; alturas até o nariz
+      // ficariam no lugar errado, então as pupilas só aparecem com a medição feita na armação
+      const pupils = measurement.apReference === "frame"
+        ? {
+            dpnRight: measurement.dpnRight,
+            dpnLeft: measurement.dpnLeft,
+            apRight: measurement.apRight,
+            apLeft: measurement.apLeft,
+          }
+        : null;
+      
+      res.set("Content-Type", "image/svg+xml");
+      res.set("Cache-Control", "private, no-store");
+      res.send(renderFrameTraceSvg(trace, pupils));
+    } catch (error) {
+      if (error instanceof MeasurementNotApprovedError) {
+        return res.status(409).json({ message: error.message, status: error.status });
+      }
+      if (error instanceof FittingSheetError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Erro ao desenhar traçado do serviço:", error);
+      res.status(500).json({ message: "Erro ao desenhar traçado do serviço" });
+    }
+  });
 }
\ No newline at end of file
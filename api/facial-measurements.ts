@@ -1,8 +1,18 @@
 import { Express, Request, Response, NextFunction } from "express";
-import { storage } from "../storage";
-import { z } from "zod";
-import { analyzeFacialMeasurements, analyzeFacialPosition } from "../lib/openai";
-import { insertMeasurementSchema } from "@shared/schema";
+import { analyzeFacialPosition, FacialMeasurementError } from "../lib/openai";
+import { measureWithEngines, EngineUnavailableError } from "../src/services/engines";
+import { CalibrationError } from "../src/utils/calibration";
+import { HeadPoseError } from "../src/utils/headPose";
+import { FrameDetectionError } from "../src/utils/frameDetection";
+import { createMeasurementForReview, resolveReviewFranchise } from "../src/services/measurementReviewService";
+import { createMeasurementWithImage } from "../src/services/imageLifecycleService";
+import { ingestImage, InvalidImageError } from "../src/utils/imageProcessing";
+import { imageUpload } from "../middleware/image-upload";
+import {
+  CAPTURE_GUIDANCE_REQUIRED,
+  consumeCaptureReadyToken,
+  releaseCaptureReadyToken
+} from "../src/services/captureGuidanceService";
 
 // Middleware para verificar autenticação
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
@@ -15,7 +25,7 @@ const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
 
 export function setupFacialMeasurementsRoutes(app: Express) {
   // Analisar posicionamento facial 
-  app.post("/api/facial-measurements/analyze-position", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/facial-measurements/analyze-position", isAuthenticated, imageUpload("image"), async (req: Request, res: Response) => {
     try {
       const { image } = req.body;
       
@@ -23,14 +33,25 @@ export function setupFacialMeasurementsRoutes(app: Express) {
         return res.status(400).json({ message: "Imagem não fornecida" });
       }
       
-      // Remove o prefixo data:image/jpeg;base64, se existir
-      const base64Image = image.replace(/^data:image\/\w+;base64,/, "");
+      // Aplicar a orientação e remover localização antes de enviar a foto para análise
+      const ingested = await ingestImage(image);
       
-      const positionAnalysis = await analyzeFacialPosition(base64Image);
+      const positionAnalysis = await analyzeFacialPosition(ingested.buffer.toString("base64"), {
+        contentType: ingested.contentType
+      });
       
       res.json(positionAnalysis);
     } catch (error) {
       console.error("Erro ao analisar posição facial:", error);
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof FacialMeasurementError) {
+        return res.status(503).json({
+          message: "Não foi possível analisar a imagem. Por favor, tente novamente.",
+          reason: error.reason
+        });
+      }
       res.status(500).json({ 
         message: "Erro ao analisar posição facial", 
         error: error instanceof Error ? error.message : "Erro desconhecido" 
@@ -39,54 +60,118 @@ export function setupFacialMeasurementsRoutes(app: Express) {
   });
 
   // Realizar medição facial e salvar resultados
-  app.post("/api/facial-measurements/measure", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/facial-measurements/measure", isAuthenticated, imageUpload("image"), async (req: Request, res: Response) => {
+    // Sinal consumido por esta requisição; só fica usado se a medição for salva
+    let consumedToken: string | null = null;
     try {
-      const { image } = req.body;
+      const { image, readyToken } = req.body;
       
       if (!image) {
         return res.status(400).json({ message: "Imagem não fornecida" });
       }
       
-      // Remove o prefixo data:image/jpeg;base64, se existir
-      const base64Image = image.replace(/^data:image\/\w+;base64,/, "");
+      // Sinal de "pronto para capturar" emitido pela sessão de orientação em tempo real, de uso único
+      const guided = typeof readyToken === "string" && (await consumeCaptureReadyToken(readyToken, req.user!.id));
+      if (readyToken !== undefined && !guided) {
+        return res.status(400).json({ message: "Sinal de captura inválido, expirado ou já utilizado. Refaça o posicionamento." });
+      }
+      if (guided) consumedToken = readyToken;
+      if (!guided && CAPTURE_GUIDANCE_REQUIRED) {
+        return res.status(428).json({ message: "Conclua o posicionamento guiado antes de medir" });
+      }
       
-      // Análise da posição facial primeiro
-      const positionAnalysis = await analyzeFacialPosition(base64Image);
+      // Aplicar a orientação e remover localização e demais metadados pessoais
+      const ingested = await ingestImage(image);
       
-      if (!positionAnalysis.isCorrect) {
-        return res.status(400).json({ 
-          message: "Imagem não adequada para medição", 
-          feedback: positionAnalysis.feedback,
-          suggestions: positionAnalysis.suggestions
+      // Sem a orientação guiada, a posição facial é analisada pelo modelo primeiro
+      if (!guided) {
+        const positionAnalysis = await analyzeFacialPosition(ingested.buffer.toString("base64"), {
+          contentType: ingested.contentType
         });
+        
+        if (!positionAnalysis.isCorrect) {
+          return res.status(400).json({ 
+            message: "Imagem não adequada para medição", 
+            feedback: positionAnalysis.feedback,
+            suggestions: positionAnalysis.suggestions
+          });
+        }
       }
       
-      // Obter medições faciais
-      const measurements = await analyzeFacialMeasurements(base64Image);
+      // A franquia que revisa a medição é a do usuário ou a da consulta mais recente do cliente
+      const reviewFranchiseId = await resolveReviewFranchise(req.user!);
+      
+      // Obter medições faciais com os motores configurados para a franquia
+      const measurements = await measureWithEngines(ingested.dataUrl, {
+        franchiseId: reviewFranchiseId,
+        imageMetadata: ingested.metadata
+      });
       
       // Criar registro de medição no banco de dados
       const measurementData = {
         userId: req.user!.id,
+        franchiseId: reviewFranchiseId ?? undefined,
         dp: measurements.dp,
         dpnLeft: measurements.dpnLeft,
         dpnRight: measurements.dpnRight,
         apLeft: measurements.apLeft,
         apRight: measurements.apRight,
-        imageUrl: `data:image/jpeg;base64,${base64Image}`,
+        apReference: measurements.apReference,
+        frame: measurements.frame,
+        near: measurements.near,
         type: "digital" as const,
+        landmarks: measurements.landmarks,
+        calibration: measurements.calibration,
+        quality: measurements.quality,
         confidence: measurements.confidence,
+        warnings: measurements.warnings,
+        engineName: measurements.engine.name,
+        engineVersion: measurements.engine.version,
+        captureDevice: ingested.metadata.device,
         notes: "Medição digital via IA"
       };
       
-      const validatedData = insertMeasurementSchema.parse(measurementData);
-      const savedMeasurement = await storage.createMeasurement(validatedData);
+      // Guardar a foto no armazenamento privado; o banco recebe apenas a referência
+      // Se a medição não for criada, a foto é descartada em vez de ficar órfã
+      // Medições digitais ficam pendentes até a revisão do óptico da franquia
+      const { measurement: savedMeasurement, review } = await createMeasurementWithImage(ingested, imageUrl =>
+        createMeasurementForReview({ ...measurementData, imageUrl }, {
+          landmarks: measurements.landmarks,
+          frame: measurements.frame
+        })
+      );
       
       res.json({
-        message: "Medição realizada com sucesso",
-        measurements: savedMeasurement
+        message: "Medição realizada com sucesso e enviada para revisão do óptico",
+        measurements: savedMeasurement,
+        review: { status: review.status, franchiseId: review.franchiseId }
       });
     } catch (error) {
       console.error("Erro ao realizar medição facial:", error);
+      if (consumedToken) {
+        await releaseCaptureReadyToken(consumedToken).catch(releaseError =>
+          console.error("Erro ao liberar sinal de captura:", releaseError)
+        );
+      }
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error instanceof HeadPoseError ||
+        error instanceof CalibrationError ||
+        error instanceof FrameDetectionError
+      ) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof EngineUnavailableError) {
+        return res.status(503).json({ message: error.message, attempts: error.attempts });
+      }
+      if (error instanceof FacialMeasurementError) {
+        return res.status(503).json({
+          message: "Não foi possível analisar o posicionamento facial. Por favor, tente novamente.",
+          reason: error.reason
+        });
+      }
       res.status(500).json({ 
         message: "Erro ao realizar medição facial", 
         error: error instanceof Error ? error.message : "Erro desconhecido" 
@@ -1,7 +1,22 @@
-import { Express, Request, Response, NextFunction } from "express";
+import express, { Express, Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
+import { measurementRepository } from "../src/services/measurementRepository";
+import { listApprovedMeasurements } from "../src/services/measurementReviewService";
 import { z } from "zod";
 import { Product, InsertProduct } from "@shared/schema";
+import {
+  getFrameSpec,
+  getFrameSpecs,
+  rankFramesByFit,
+  upsertFrameSpec,
+  FRAME_FIT_LIMITS,
+} from "../src/services/frameCatalogService";
+import { frameDimensionsSchema } from "./lens-calculator";
+import { getProductTrace, saveFrameTrace } from "../src/services/frameTraceService";
+import { OmaParseError } from "../src/utils/oma";
+import { parseFrameTrace, traceDimensions } from "../src/utils/frameTrace";
+import { renderFrameTraceSvg } from "../src/utils/traceSvg";
+import { TracedFrameDimensions } from "../src/types/frames";
 
 // Estendendo a interface Request para incluir o usuário autenticado
 declare global {
@@ -31,6 +46,16 @@ const isFranchisee = (req: Request, res: Response, next: NextFunction) => {
   res.status(403).json({ message: "Acesso negado" });
 };
 
+// Esquema de validação da ficha técnica de armações
+const frameSpecSchema = z.intersection(
+  frameDimensionsSchema,
+  z.object({
+    templeLength: z.number().int().min(120, "Comprimento da haste inválido").max(160, "Comprimento da haste inválido"),
+    material: z.string().min(2, "Material é obrigatório"),
+    rimType: z.enum(["full", "semi", "rimless"]),
+  })
+);
+
 // Esquema de validação para produtos
 const productSchema = z.object({
   name: z.string().min(3, "Nome deve ter pelo menos 3 caracteres"),
@@ -40,8 +65,66 @@ const productSchema = z.object({
   stock: z.number().int().nonnegative("Estoque deve ser um número inteiro não negativo"),
   minimumStock: z.number().int().nonnegative("Estoque mínimo deve ser um número inteiro não negativo"),
   imageUrl: z.string().nullable().optional(),
+  frame: frameSpecSchema.optional(),
+});
+
+// Tamanho máximo do arquivo da traçadora, em caracteres
+const MAX_FRAME_TRACE_LENGTH = 200_000;
+
+// Rotas que recebem o arquivo da traçadora; só elas aceitam corpos JSON acima do limite padrão
+export const FRAME_TRACE_UPLOAD_PATHS = [
+  "/api/franchisee/:franchiseId/inventory/:productId/trace",
+  "/api/franchisee/:franchiseId/customers/:customerId/lab-jobs/:jobNumber/trace",
+];
+
+// Parser JSON das rotas de traçado, montado antes do express.json() global (limite de 100 KB)
+// Quebras de linha e acentos escapados no JSON ocupam mais que o texto do arquivo
+export const frameTraceJsonParser = express.json({ limit: "1mb" });
+
+// Esquema de validação do arquivo da traçadora, enviado como texto
+export const frameTraceUploadSchema = z.object({
+  content: z
+    .string()
+    .min(1, "Arquivo da traçadora vazio")
+    .max(MAX_FRAME_TRACE_LENGTH, "Arquivo da traçadora muito grande"),
+  dbl: z.number().min(10, "Ponte (DBL) inválida").max(30, "Ponte (DBL) inválida").optional(),
 });
 
+// Ler o arquivo da traçadora e calcular as medidas da armação
+// Responde 422 e retorna null se o arquivo ou as medidas resultantes são inválidos
+export function readFrameTrace(
+  res: Response,
+  data: z.infer<typeof frameTraceUploadSchema>,
+  fallbackDbl: number | null
+): { right: number[]; left: number[]; dimensions: TracedFrameDimensions } | null {
+  let parsed;
+  try {
+    parsed = parseFrameTrace(data.content);
+  } catch (error) {
+    if (error instanceof OmaParseError) {
+      res.status(422).json({ message: "Arquivo da traçadora inválido", errors: error.errors });
+      return null;
+    }
+    throw error;
+  }
+  
+  // A ponte não aparece no contorno das lentes: vem do arquivo ou é informada
+  const dbl = parsed.dbl ?? data.dbl ?? fallbackDbl;
+  if (dbl === null) {
+    res.status(422).json({ message: "O arquivo não informa a ponte (DBL); informe-a junto com o traçado" });
+    return null;
+  }
+  
+  const dimensions = traceDimensions(parsed, dbl);
+  const check = frameDimensionsSchema.safeParse(dimensions);
+  if (!check.success) {
+    res.status(422).json({ message: "Medidas do traçado fora do esperado", errors: check.error.errors });
+    return null;
+  }
+  
+  return { right: parsed.right, left: parsed.left, dimensions };
+}
+
 export function setupInventoryRoutes(app: Express) {
   // Obter todos os produtos de uma franquia
   app.get("/api/franchisee/:franchiseId/inventory", isAuthenticated, async (req: Request, res: Response) => {
@@ -54,7 +137,12 @@ export function setupInventoryRoutes(app: Express) {
       }
       
       const products = await storage.getProductsByFranchiseId(franchiseId);
-      res.json(products);
+      const frames = await getFrameSpecs(products.map((product: Product) => product.id));
+      
+      res.json(products.map((product: Product) => ({
+        ...product,
+        frame: frames.get(product.id) ?? null,
+      })));
     } catch (error) {
       console.error("Erro ao buscar produtos:", error);
       res.status(500).json({ message: "Erro ao buscar produtos" });
@@ -83,7 +171,8 @@ export function setupInventoryRoutes(app: Express) {
         return res.status(403).json({ message: "Este produto não pertence à sua franquia" });
       }
       
-      res.json(product);
+      const frame = await getFrameSpec(productId);
+      res.json({ ...product, frame });
     } catch (error) {
       console.error("Erro ao buscar produto:", error);
       res.status(500).json({ message: "Erro ao buscar produto" });
@@ -109,13 +198,15 @@ export function setupInventoryRoutes(app: Express) {
         });
       }
       
+      const { frame: frameData, ...productFields } = validationResult.data;
       const productData = {
-        ...validationResult.data,
+        ...productFields,
         franchiseId,
       };
       
       const newProduct = await storage.createProduct(productData);
-      res.status(201).json(newProduct);
+      const frame = frameData ? await upsertFrameSpec(newProduct.id, frameData) : null;
+      res.status(201).json({ ...newProduct, frame });
     } catch (error) {
       console.error("Erro ao criar produto:", error);
       res.status(500).json({ message: "Erro ao criar produto" });
@@ -153,8 +244,12 @@ export function setupInventoryRoutes(app: Express) {
         });
       }
       
-      const updatedProduct = await storage.updateProduct(productId, validationResult.data);
-      res.json(updatedProduct);
+      const { frame: frameData, ...productFields } = validationResult.data;
+      const updatedProduct = await storage.updateProduct(productId, productFields);
+      const frame = frameData
+        ? await upsertFrameSpec(productId, frameData)
+        : await getFrameSpec(productId);
+      res.json({ ...updatedProduct, frame });
     } catch (error) {
       console.error("Erro ao atualizar produto:", error);
       res.status(500).json({ message: "Erro ao atualizar produto" });
@@ -190,4 +285,159 @@ export function setupInventoryRoutes(app: Express) {
       res.status(500).json({ message: "Erro ao excluir produto" });
     }
   });
+
+  // Armações em estoque compatíveis com a DP do cliente, ordenadas pela menor descentração
+  // Clientes consultam para si; franqueados informam ?customerId=
+  app.get("/api/franchisee/:franchiseId/frames/fit", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      
+      // Verificar se o usuário tem permissão para acessar o inventário desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      let customerId = req.user!.id;
+      if (req.user!.role !== "client") {
+        customerId = parseInt(req.query.customerId as string);
+        if (isNaN(customerId)) {
+          return res.status(400).json({ message: "customerId é obrigatório" });
+        }
+        
+        // Verificar se o cliente pertence à franquia
+        const customerAppointments = await storage.getAppointmentsByUserId(customerId);
+        const belongsToFranchise = customerAppointments.some(
+          appointment => appointment.franchiseId === franchiseId
+        );
+        
+        if (!belongsToFranchise && req.user!.role !== "admin") {
+          return res.status(403).json({ message: "Este cliente não pertence à sua franquia" });
+        }
+      }
+      
+      // Usar a medição aprovada mais recente do cliente, com os valores vigentes da revisão
+      const measurements = (await measurementRepository.listByUser(customerId)).sort(
+        (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+      
+      if (measurements.length === 0) {
+        return res.status(404).json({ message: "Cliente não possui medições" });
+      }
+      
+      const [latest] = await listApprovedMeasurements(measurements);
+      if (!latest) {
+        return res.status(409).json({ message: "Cliente sem medição aprovada; aguarde a revisão do óptico" });
+      }
+      
+      // Apenas armações com ficha técnica e em estoque
+      const products = (await storage.getProductsByFranchiseId(franchiseId))
+        .filter((product: Product) => product.stock > 0);
+      const frames = await getFrameSpecs(products.map((product: Product) => product.id));
+      const productsById = new Map(products.map((product: Product) => [product.id, product]));
+      
+      const ranked = rankFramesByFit([...frames.values()], latest.dpnRight, latest.dpnLeft);
+      
+      res.json({
+        measurement: {
+          id: latest.id,
+          dp: latest.dp,
+          dpnLeft: latest.dpnLeft,
+          dpnRight: latest.dpnRight,
+          createdAt: latest.createdAt,
+        },
+        limits: FRAME_FIT_LIMITS,
+        frames: ranked.map(fit => ({
+          ...fit,
+          product: productsById.get(fit.productId),
+          frame: frames.get(fit.productId),
+        })),
+      });
+    } catch (error) {
+      console.error("Erro ao buscar armações compatíveis:", error);
+      res.status(500).json({ message: "Erro ao buscar armações compatíveis" });
+    }
+  });
+
+  // Importar o arquivo da traçadora (OMA) de uma armação do inventário
+  app.post("/api/franchisee/:franchiseId/inventory/:productId/trace", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const productId = parseInt(req.params.productId);
+      
+      // Verificar se o usuário é franqueado desta franquia
+      if (req.user && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      // Verificar se o produto pertence à franquia
+      if (product.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Este produto não pertence à sua franquia" });
+      }
+      
+      const validationResult = frameTraceUploadSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: "Dados inválidos", 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      // Sem DBL no arquivo nem na requisição, vale a ponte já cadastrada
+      const current = await getFrameSpec(productId);
+      const traced = readFrameTrace(res, validationResult.data, current?.dbl ?? null);
+      if (!traced) return;
+      
+      const result = await saveFrameTrace({
+        franchiseId,
+        productId,
+        labJobId: null,
+        ...traced,
+        createdBy: req.user.id,
+      });
+      
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Erro ao importar traçado:", error);
+      res.status(500).json({ message: "Erro ao importar traçado" });
+    }
+  });
+
+  // Desenho do contorno traçado de uma armação do inventário
+  app.get("/api/franchisee/:franchiseId/inventory/:productId/trace.svg", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const productId = parseInt(req.params.productId);
+      
+      // Verificar se o usuário tem permissão para acessar o inventário desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      
+      const product = await storage.getProductById(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Produto não encontrado" });
+      }
+      
+      // Verificar se o produto pertence à franquia
+      if (product.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Este produto não pertence à sua franquia" });
+      }
+      
+      const trace = await getProductTrace(productId);
+      if (!trace) {
+        return res.status(404).json({ message: "Armação sem traçado importado" });
+      }
+      
+      res.set("Content-Type", "image/svg+xml");
+      res.send(renderFrameTraceSvg(trace));
+    } catch (error) {
+      console.error("Erro ao desenhar traçado:", error);
+      res.status(500).json({ message: "Erro ao desenhar traçado" });
+    }
+  });
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { eyeSchema } from "./prescriptions";
+import { calculateLenses } from "../src/services/lensCalculatorService";
+
+// Middleware para verificar se o usuário está autenticado
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Não autorizado" });
+};
+
+// Dimensões boxing da armação, em mm
+export const frameDimensionsSchema = z.object({
+  a: z.number().min(30, "Dimensão A inválida").max(80, "Dimensão A inválida"),
+  b: z.number().min(15, "Dimensão B inválida").max(70, "Dimensão B inválida"),
+  dbl: z.number().min(10, "Ponte (DBL) inválida").max(30, "Ponte (DBL) inválida"),
+  ed: z.number().min(30, "Diâmetro efetivo inválido").max(90, "Diâmetro efetivo inválido"),
+}).refine(frame => frame.ed >= frame.a, {
+  message: "Diâmetro efetivo deve ser maior ou igual à dimensão A",
+  path: ["ed"],
+});
+
+// Esquema de validação do cálculo de lentes
+const lensCalculationSchema = z.object({
+  prescription: z.object({
+    rightEye: eyeSchema,
+    leftEye: eyeSchema,
+  }),
+  dpnRight: z.number().min(25).max(40),
+  dpnLeft: z.number().min(25).max(40),
+  frame: frameDimensionsSchema,
+  fittingHeights: z.object({
+    right: z.number().min(10).max(40),
+    left: z.number().min(10).max(40),
+  }).optional(),
+});
+
+export function setupLensCalculatorRoutes(app: Express) {
+  // Calcular descentração, blank mínimo e espessuras por índice
+  app.post("/api/lens-calculator", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const validationResult = lensCalculationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const { frame, fittingHeights } = validationResult.data;
+
+      // Altura de montagem acima da caixa não cabe na armação
+      if (fittingHeights && (fittingHeights.right > frame.b || fittingHeights.left > frame.b)) {
+        return res.status(400).json({ message: "Altura de montagem maior que a dimensão B da armação" });
+      }
+
+      res.json(calculateLenses(validationResult.data));
+    } catch (error) {
+      console.error("Erro ao calcular lentes:", error);
+      res.status(500).json({ message: "Erro ao calcular lentes" });
+    }
+  });
+}
@@ -0,0 +1,203 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { measurementRepository } from "../src/services/measurementRepository";
+import { z } from "zod";
+import {
+  decideReview,
+  getEffectiveValues,
+  getReview,
+  getReviewQueue,
+} from "../src/services/measurementReviewService";
+import { renderAnnotatedMeasurement } from "../src/utils/annotation";
+import { MeasurementReview } from "../src/types/reviews";
+
+// Middleware para verificar se o usuário está autenticado
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Não autorizado" });
+};
+
+// Middleware para verificar se o usuário é um franqueado
+const isFranchisee = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated() && req.user && req.user.role === "franchisee") {
+    return next();
+  }
+  res.status(403).json({ message: "Acesso negado" });
+};
+
+const reviewStatusSchema = z.enum(["pending_review", "approved", "adjusted", "rejected"]);
+
+const reasonSchema = z.string().min(5, "Informe o motivo com pelo menos 5 caracteres");
+
+// Esquema de validação da decisão do óptico
+const reviewDecisionSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("approved") }),
+  z.object({
+    status: z.literal("adjusted"),
+    values: z.object({
+      dp: z.number().min(50).max(80),
+      dpnLeft: z.number().min(25).max(40),
+      dpnRight: z.number().min(25).max(40),
+      apLeft: z.number().min(10).max(35),
+      apRight: z.number().min(10).max(35),
+    }).partial().refine(values => Object.keys(values).length > 0, "Informe ao menos um valor corrigido"),
+    reason: reasonSchema,
+  }),
+  z.object({ status: z.literal("rejected"), reason: reasonSchema }),
+]);
+
+// Montar a resposta da revisão sem a imagem em base64, que é servida pela rota anotada
+async function withMeasurement(review: MeasurementReview) {
+  const measurement = await measurementRepository.getById(review.measurementId);
+  const { imageUrl, ...measurementData } = measurement ?? { imageUrl: undefined };
+
+  return {
+    ...review,
+    effectiveValues: getEffectiveValues(review),
+    measurement: measurement ? measurementData : null,
+    annotatedImageUrl: review.landmarks && imageUrl
+      ? `/api/franchisee/${review.franchiseId}/measurement-reviews/${review.measurementId}/annotated`
+      : null,
+  };
+}
+
+// Buscar a revisão verificando se pertence à franquia
+async function findFranchiseReview(res: Response, franchiseId: number, measurementId: number) {
+  const review = await getReview(measurementId);
+
+  if (!review) {
+    res.status(404).json({ message: "Revisão não encontrada" });
+    return null;
+  }
+
+  if (review.franchiseId !== franchiseId) {
+    res.status(403).json({ message: "Esta medição não pertence à sua franquia" });
+    return null;
+  }
+
+  return review;
+}
+
+export function setupMeasurementReviewsRoutes(app: Express) {
+  // Fila de revisão da franquia (?status=pending_review por padrão)
+  app.get("/api/franchisee/:franchiseId/measurement-reviews", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+
+      // Verificar se o usuário tem permissão para acessar as revisões desta franquia
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const status = reviewStatusSchema.default("pending_review").safeParse(req.query.status);
+      if (!status.success) {
+        return res.status(400).json({ message: "Estado de revisão inválido" });
+      }
+
+      const reviews = await getReviewQueue(franchiseId, status.data);
+      res.json(await Promise.all(reviews.map(withMeasurement)));
+    } catch (error) {
+      console.error("Erro ao buscar fila de revisão:", error);
+      res.status(500).json({ message: "Erro ao buscar fila de revisão" });
+    }
+  });
+
+  // Obter a revisão de uma medição
+  app.get("/api/franchisee/:franchiseId/measurement-reviews/:measurementId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const measurementId = parseInt(req.params.measurementId);
+
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const review = await findFranchiseReview(res, franchiseId, measurementId);
+      if (!review) return;
+
+      res.json(await withMeasurement(review));
+    } catch (error) {
+      console.error("Erro ao buscar revisão:", error);
+      res.status(500).json({ message: "Erro ao buscar revisão" });
+    }
+  });
+
+  // Imagem anotada para conferência dos pontos usados na medição
+  app.get("/api/franchisee/:franchiseId/measurement-reviews/:measurementId/annotated", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const measurementId = parseInt(req.params.measurementId);
+
+      if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+      if (req.user && req.user.role === "client") {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const review = await findFranchiseReview(res, franchiseId, measurementId);
+      if (!review) return;
+
+      const measurement = await measurementRepository.getById(measurementId);
+      if (!measurement?.imageUrl || !review.landmarks) {
+        return res.status(404).json({ message: "Imagem anotada indisponível para esta medição" });
+      }
+
+      // Anotar com os valores vigentes, para conferir o ajuste sobre a imagem
+      const png = await renderAnnotatedMeasurement({
+        imageUrl: measurement.imageUrl,
+        landmarks: review.landmarks,
+        ...getEffectiveValues(review),
+        frame: review.frame,
+      });
+
+      res.set("Content-Type", "image/png");
+      res.set("Cache-Control", "private, no-store");
+      res.send(png);
+    } catch (error) {
+      console.error("Erro ao gerar imagem anotada:", error);
+      res.status(500).json({ message: "Erro ao gerar imagem anotada" });
+    }
+  });
+
+  // Aprovar, corrigir ou rejeitar uma medição pendente
+  app.post("/api/franchisee/:franchiseId/measurement-reviews/:measurementId/decision", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const measurementId = parseInt(req.params.measurementId);
+
+      // Verificar se o usuário é franqueado desta franquia
+      if (req.user && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const validationResult = reviewDecisionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const review = await findFranchiseReview(res, franchiseId, measurementId);
+      if (!review) return;
+
+      const decided = await decideReview(measurementId, req.user!.id, validationResult.data);
+      if (!decided) {
+        return res.status(409).json({ message: "Esta medição já foi revisada" });
+      }
+
+      res.json(await withMeasurement(decided));
+    } catch (error) {
+      console.error("Erro ao registrar revisão:", error);
+      res.status(500).json({ message: "Erro ao registrar revisão" });
+    }
+  });
+}
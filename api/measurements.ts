@@ -1,6 +1,26 @@
 import { Express, Request, Response } from "express";
+import { z } from "zod";
+import { measureWithEngines, EngineUnavailableError } from "../src/services/engines";
 import { storage } from "../storage";
-import { analyzeImage } from "./openai";
+import { measurementRepository } from "../src/services/measurementRepository";
+import {
+  createMeasurementForReview,
+  getReview,
+  listApprovedMeasurements,
+  resolveReviewFranchise,
+} from "../src/services/measurementReviewService";
+import { getImageSignedUrl } from "../src/services/blobStore";
+import { createMeasurementWithImage, deleteMeasurementWithImage } from "../src/services/imageLifecycleService";
+import { StoredMeasurement } from "../src/types/measurements";
+import { CalibrationError } from "../src/utils/calibration";
+import { HeadPoseError } from "../src/utils/headPose";
+import { FrameDetectionError } from "../src/utils/frameDetection";
+import { ingestImage, InvalidImageError } from "../src/utils/imageProcessing";
+import { imageUpload } from "../middleware/image-upload";
+import {
+  calculateMeasurementStats,
+  DEFAULT_SIGNIFICANT_CHANGE_THRESHOLDS,
+} from "../src/utils/measurementStats";
 
 // Middleware to check if user is authenticated
 const isAuthenticated = (req: Request, res: Response, next: Function) => {
@@ -10,12 +30,77 @@ const isAuthenticated = (req: Request, res: Response, next: Function) => {
   res.status(401).json({ message: "Não autorizado" });
 };
 
+// Limiares de mudança significativa, opcionais na query string (?dp=&dpn=&ap=, em mm)
+const statsThresholdsSchema = z.object({
+  dp: z.coerce.number().positive().optional(),
+  dpn: z.coerce.number().positive().optional(),
+  ap: z.coerce.number().positive().optional(),
+});
+
+// Medições gravadas diretamente são sempre manuais: dados de motor, calibração e qualidade
+// só vêm das rotas de análise, e a franquia é definida pelo servidor
+const manualMeasurementSchema = z.object({
+  dp: z.number().min(50).max(80),
+  dpnLeft: z.number().min(25).max(40),
+  dpnRight: z.number().min(25).max(40),
+  apLeft: z.number().min(10).max(35),
+  apRight: z.number().min(10).max(35),
+  apReference: z.enum(["nose", "frame"]).optional(),
+  near: z.object({
+    dp: z.number().min(45).max(80),
+    dpnLeft: z.number().min(20).max(40),
+    dpnRight: z.number().min(20).max(40),
+    workingDistance: z.number().min(250).max(700),
+  }).optional(),
+  type: z.literal("manual").default("manual"),
+  notes: z.string().optional(),
+  // Only inline photos: a reference to an existing blob could point to someone else's image
+  imageUrl: z.string().startsWith("data:").optional(),
+}).strict();
+
+// Calcular estatísticas do histórico com os limiares da requisição
+// Usa os valores vigentes da revisão; digitais rejeitadas ou pendentes ficam de fora
+// Retorna null quando os limiares informados são inválidos
+export async function buildMeasurementStats(measurements: StoredMeasurement[], query: unknown) {
+  const parsed = statsThresholdsSchema.safeParse(query);
+  if (!parsed.success) return null;
+
+  const thresholds = { ...DEFAULT_SIGNIFICANT_CHANGE_THRESHOLDS };
+  for (const [key, value] of Object.entries(parsed.data)) {
+    if (value !== undefined) thresholds[key as keyof typeof thresholds] = value;
+  }
+
+  const approved = await listApprovedMeasurements(measurements);
+
+  return {
+    count: approved.length,
+    excluded: measurements.length - approved.length,
+    thresholds,
+    stats: calculateMeasurementStats(approved, thresholds),
+  };
+}
+
+// Verificar acesso à medição: o próprio cliente, administradores ou a franquia que o atende
+async function canAccessMeasurement(
+  user: { id: number; role: string; franchiseId?: number | null },
+  measurement: StoredMeasurement
+) {
+  if (measurement.userId === user.id || user.role === "admin") return true;
+  if (user.role !== "franchisee" || !user.franchiseId) return false;
+
+  const review = await getReview(measurement.id);
+  if (review && review.franchiseId === user.franchiseId) return true;
+
+  const appointments = await storage.getAppointmentsByUserId(measurement.userId);
+  return appointments.some(appointment => appointment.franchiseId === user.franchiseId);
+}
+
 export function setupMeasurementsRoutes(app: Express) {
   // Get all measurements for the authenticated user
   app.get("/api/measurements", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user.id;
-      const measurements = await storage.getMeasurementsByUserId(userId);
+      const measurements = await measurementRepository.listByUser(userId);
       res.json(measurements);
     } catch (error) {
       console.error("Error fetching measurements:", error);
@@ -23,11 +108,29 @@ export function setupMeasurementsRoutes(app: Express) {
     }
   });
 
+  // Get statistics and trends of the authenticated user's measurement history
+  // Registered before /:id so "stats" is not taken as an ID
+  app.get("/api/measurements/stats", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const measurements = await measurementRepository.listByUser(req.user.id);
+      const result = await buildMeasurementStats(measurements, req.query);
+
+      if (!result) {
+        return res.status(400).json({ message: "Limiares inválidos" });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error computing measurement stats:", error);
+      res.status(500).json({ message: "Erro ao calcular estatísticas das medições" });
+    }
+  });
+
   // Get a specific measurement by ID
   app.get("/api/measurements/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const measurementId = parseInt(req.params.id);
-      const measurement = await storage.getMeasurementById(measurementId);
+      const measurement = await measurementRepository.getById(measurementId);
 
       if (!measurement) {
         return res.status(404).json({ message: "Medição não encontrada" });
@@ -45,26 +148,74 @@ export function setupMeasurementsRoutes(app: Express) {
     }
   });
 
+  // Get a short-lived signed URL for the measurement photo
+  app.get("/api/measurements/:id/image", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const measurementId = parseInt(req.params.id);
+      const measurement = await measurementRepository.getById(measurementId);
+
+      if (!measurement || !measurement.imageUrl) {
+        return res.status(404).json({ message: "Imagem não encontrada" });
+      }
+
+      if (!(await canAccessMeasurement(req.user, measurement))) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const signed = await getImageSignedUrl(measurement.imageUrl);
+      if (!signed) {
+        return res.status(409).json({ message: "Imagem ainda não migrada para o armazenamento privado" });
+      }
+
+      res.set("Cache-Control", "private, no-store");
+      res.json(signed);
+    } catch (error) {
+      console.error("Error signing measurement image:", error);
+      res.status(500).json({ message: "Erro ao gerar URL da imagem" });
+    }
+  });
+
   // Create a new measurement
   app.post("/api/measurements", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = req.user.id;
-      const measurementData = {
-        ...req.body,
-        userId,
-        createdAt: new Date(),
-      };
+      const validatedData = manualMeasurementSchema.parse(req.body);
+
+      // The franchise is the user's own or the one from the latest appointment, never the request's
+      const franchiseId = (await resolveReviewFranchise(req.user)) ?? undefined;
 
-      const measurement = await storage.createMeasurement(measurementData);
+      // Store inline photos in the private blob store instead of the database,
+      // upright and without location or other personal EXIF data
+      const ingested = validatedData.imageUrl ? await ingestImage(validatedData.imageUrl) : null;
+
+      // Values typed in by clients wait for the optician's review like digital ones;
+      // franchise staff measure in the store, so theirs count as entered
+      const measurement = await createMeasurementWithImage(ingested, async imageUrl => {
+        const data = {
+          ...validatedData,
+          userId: req.user.id,
+          franchiseId,
+          imageUrl,
+          captureDevice: ingested?.metadata.device,
+        };
+        return req.user.role === "client"
+          ? (await createMeasurementForReview(data)).measurement
+          : await measurementRepository.create(data);
+      });
       res.status(201).json(measurement);
     } catch (error) {
       console.error("Error creating measurement:", error);
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
       res.status(500).json({ message: "Erro ao criar medição" });
     }
   });
 
-  // Analyze image with OpenAI and return measurements
-  app.post("/api/measurements/analyze", isAuthenticated, async (req: Request, res: Response) => {
+  // Analyze image with the franchise's measurement engines and return measurements
+  app.post("/api/measurements/analyze", isAuthenticated, imageUpload("image"), async (req: Request, res: Response) => {
     try {
       const { image } = req.body;
 
@@ -72,12 +223,28 @@ export function setupMeasurementsRoutes(app: Express) {
         return res.status(400).json({ message: "Imagem não fornecida" });
       }
 
-      // Analyze the image using OpenAI
-      const results = await analyzeImage(image);
+      const ingested = await ingestImage(image);
+      const results = await measureWithEngines(ingested.dataUrl, {
+        franchiseId: req.user.franchiseId,
+        imageMetadata: ingested.metadata,
+      });
 
       res.json(results);
     } catch (error) {
       console.error("Error analyzing image:", error);
+      if (error instanceof InvalidImageError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (
+        error instanceof HeadPoseError ||
+        error instanceof CalibrationError ||
+        error instanceof FrameDetectionError
+      ) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof EngineUnavailableError) {
+        return res.status(503).json({ message: error.message, attempts: error.attempts });
+      }
       res.status(500).json({ 
         message: error.message || "Erro ao analisar imagem" 
       });
@@ -88,7 +255,7 @@ export function setupMeasurementsRoutes(app: Express) {
   app.delete("/api/measurements/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const measurementId = parseInt(req.params.id);
-      const measurement = await storage.getMeasurementById(measurementId);
+      const measurement = await measurementRepository.getById(measurementId);
 
       if (!measurement) {
         return res.status(404).json({ message: "Medição não encontrada" });
@@ -99,7 +266,8 @@ export function setupMeasurementsRoutes(app: Express) {
         return res.status(403).json({ message: "Acesso negado" });
       }
 
-      await storage.deleteMeasurement(measurementId);
+      // Remove the image first so a failure leaves the row in place for a retry
+      await deleteMeasurementWithImage(measurement);
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting measurement:", error);
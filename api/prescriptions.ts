@@ -0,0 +1,279 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import {
+  createPrescription,
+  deletePrescription,
+  getPrescription,
+  getPrescriptionsByCustomer,
+  updatePrescription,
+} from "../src/services/prescriptionService";
+import {
+  DIOPTER_STEP,
+  isMultipleOf,
+  isPrescriptionExpired,
+  roundedSphericalEquivalent,
+  sphericalEquivalent,
+  transposePrescription,
+} from "../src/utils/prescription";
+import { CylinderForm, EyeRefraction, Prescription } from "../src/types/prescriptions";
+
+// Middleware para verificar se o usuário está autenticado
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Não autorizado" });
+};
+
+// Middleware para verificar se o usuário é um franqueado
+const isFranchisee = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated() && req.user && req.user.role === "franchisee") {
+    return next();
+  }
+  res.status(403).json({ message: "Acesso negado" });
+};
+
+// Valor em dioptrias dentro de um intervalo e em passos de 0,25D
+const diopters = (min: number, max: number, label: string) =>
+  z.number()
+    .min(min, `${label} deve estar entre ${min} e ${max}`)
+    .max(max, `${label} deve estar entre ${min} e ${max}`)
+    .refine(value => isMultipleOf(value, DIOPTER_STEP), `${label} deve ser múltiplo de 0,25`);
+
+// Esquema de validação da refração de um olho
+export const eyeSchema = z.object({
+  sphere: diopters(-30, 30, "Esfera"),
+  cylinder: diopters(-10, 10, "Cilindro").default(0),
+  axis: z.number().int("Eixo deve ser inteiro").min(1, "Eixo deve estar entre 1 e 180").max(180, "Eixo deve estar entre 1 e 180").nullable().default(null),
+  add: diopters(0.75, 4, "Adição").nullable().default(null),
+  prism: z.number()
+    .positive("Prisma deve ser positivo")
+    .max(10, "Prisma deve ser no máximo 10")
+    .refine(value => isMultipleOf(value, DIOPTER_STEP), "Prisma deve ser múltiplo de 0,25")
+    .nullable()
+    .default(null),
+  prismBase: z.enum(["up", "down", "in", "out"]).nullable().default(null),
+})
+  .refine(eye => eye.cylinder === 0 || eye.axis !== null, {
+    message: "Eixo é obrigatório quando há cilindro",
+    path: ["axis"],
+  })
+  .refine(eye => eye.cylinder !== 0 || eye.axis === null, {
+    message: "Eixo deve ser vazio quando não há cilindro",
+    path: ["axis"],
+  })
+  .refine(eye => (eye.prism === null) === (eye.prismBase === null), {
+    message: "Prisma e base do prisma devem ser informados juntos",
+    path: ["prismBase"],
+  });
+
+// Esquema de validação para criação de receita
+const prescriptionSchema = z.object({
+  rightEye: eyeSchema,
+  leftEye: eyeSchema,
+  prescriber: z.string().min(3, "Nome do prescritor deve ter pelo menos 3 caracteres"),
+  prescriberRegistry: z.string().max(40).optional(),
+  issueDate: z.coerce.date({ invalid_type_error: "Data de emissão inválida" }),
+  expiryDate: z.coerce.date({ invalid_type_error: "Data de validade inválida" }),
+  notes: z.string().optional(),
+});
+
+const createPrescriptionSchema = prescriptionSchema.refine(
+  data => data.expiryDate > data.issueDate,
+  { message: "Data de validade deve ser posterior à data de emissão", path: ["expiryDate"] }
+);
+
+const cylinderFormSchema = z.enum(["minus", "plus"]).optional();
+
+// Verificar se o usuário pode acessar as receitas do cliente nesta franquia
+async function checkCustomerAccess(req: Request, res: Response, franchiseId: number, customerId: number) {
+  if (req.user && req.user.role === "franchisee" && req.user.franchiseId !== franchiseId) {
+    res.status(403).json({ message: "Acesso negado" });
+    return false;
+  }
+
+  // Clientes só acessam as próprias receitas
+  if (req.user && req.user.role === "client" && req.user.id !== customerId) {
+    res.status(403).json({ message: "Acesso negado" });
+    return false;
+  }
+
+  const customer = await storage.getUser(customerId);
+  if (!customer) {
+    res.status(404).json({ message: "Cliente não encontrado" });
+    return false;
+  }
+
+  // Verificar se o cliente pertence à franquia
+  const customerAppointments = await storage.getAppointmentsByUserId(customerId);
+  const belongsToFranchise = customerAppointments.some(
+    appointment => appointment.franchiseId === franchiseId
+  );
+
+  if (!belongsToFranchise && req.user && req.user.role !== "admin") {
+    res.status(403).json({ message: "Este cliente não pertence à sua franquia" });
+    return false;
+  }
+
+  return true;
+}
+
+// Adicionar valores derivados e, se solicitado, transpor para a convenção de cilindro desejada
+function formatPrescription(prescription: Prescription, cylinderForm?: CylinderForm) {
+  const output = cylinderForm ? transposePrescription(prescription, cylinderForm) : prescription;
+  const derived = (eye: EyeRefraction) => ({
+    ...eye,
+    sphericalEquivalent: sphericalEquivalent(eye),
+    roundedSphericalEquivalent: roundedSphericalEquivalent(eye),
+  });
+
+  return {
+    ...output,
+    rightEye: derived(output.rightEye),
+    leftEye: derived(output.leftEye),
+    expired: isPrescriptionExpired(prescription),
+  };
+}
+
+export function setupPrescriptionsRoutes(app: Express) {
+  // Listar receitas de um cliente (?cylinderForm=minus|plus transpõe a saída)
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/prescriptions", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+
+      const cylinderForm = cylinderFormSchema.safeParse(req.query.cylinderForm);
+      if (!cylinderForm.success) {
+        return res.status(400).json({ message: "Convenção de cilindro inválida" });
+      }
+
+      if (!(await checkCustomerAccess(req, res, franchiseId, customerId))) return;
+
+      const prescriptions = await getPrescriptionsByCustomer(customerId, franchiseId);
+      res.json(prescriptions.map(prescription => formatPrescription(prescription, cylinderForm.data)));
+    } catch (error) {
+      console.error("Erro ao buscar receitas:", error);
+      res.status(500).json({ message: "Erro ao buscar receitas" });
+    }
+  });
+
+  // Obter uma receita específica
+  app.get("/api/franchisee/:franchiseId/customers/:customerId/prescriptions/:prescriptionId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      const prescriptionId = parseInt(req.params.prescriptionId);
+
+      const cylinderForm = cylinderFormSchema.safeParse(req.query.cylinderForm);
+      if (!cylinderForm.success) {
+        return res.status(400).json({ message: "Convenção de cilindro inválida" });
+      }
+
+      if (!(await checkCustomerAccess(req, res, franchiseId, customerId))) return;
+
+      const prescription = await getPrescription(prescriptionId, customerId, franchiseId);
+      if (!prescription) {
+        return res.status(404).json({ message: "Receita não encontrada" });
+      }
+
+      res.json(formatPrescription(prescription, cylinderForm.data));
+    } catch (error) {
+      console.error("Erro ao buscar receita:", error);
+      res.status(500).json({ message: "Erro ao buscar receita" });
+    }
+  });
+
+  // Adicionar nova receita
+  app.post("/api/franchisee/:franchiseId/customers/:customerId/prescriptions", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+
+      if (!(await checkCustomerAccess(req, res, franchiseId, customerId))) return;
+
+      // Validar os dados da receita
+      const validationResult = createPrescriptionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const prescription = await createPrescription({
+        ...validationResult.data,
+        customerId,
+        franchiseId,
+      });
+
+      res.status(201).json(formatPrescription(prescription));
+    } catch (error) {
+      console.error("Erro ao criar receita:", error);
+      res.status(500).json({ message: "Erro ao criar receita" });
+    }
+  });
+
+  // Atualizar receita
+  app.put("/api/franchisee/:franchiseId/customers/:customerId/prescriptions/:prescriptionId", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      const prescriptionId = parseInt(req.params.prescriptionId);
+
+      if (!(await checkCustomerAccess(req, res, franchiseId, customerId))) return;
+
+      const existing = await getPrescription(prescriptionId, customerId, franchiseId);
+      if (!existing) {
+        return res.status(404).json({ message: "Receita não encontrada" });
+      }
+
+      // Validar dados de atualização
+      const validationResult = prescriptionSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      // Validar datas combinando com os valores atuais
+      const issueDate = validationResult.data.issueDate ?? new Date(existing.issueDate);
+      const expiryDate = validationResult.data.expiryDate ?? new Date(existing.expiryDate);
+      if (expiryDate <= issueDate) {
+        return res.status(400).json({ message: "Data de validade deve ser posterior à data de emissão" });
+      }
+
+      const prescription = await updatePrescription(prescriptionId, customerId, franchiseId, validationResult.data);
+      if (!prescription) {
+        return res.status(404).json({ message: "Receita não encontrada" });
+      }
+
+      res.json(formatPrescription(prescription));
+    } catch (error) {
+      console.error("Erro ao atualizar receita:", error);
+      res.status(500).json({ message: "Erro ao atualizar receita" });
+    }
+  });
+
+  // Excluir receita
+  app.delete("/api/franchisee/:franchiseId/customers/:customerId/prescriptions/:prescriptionId", isAuthenticated, isFranchisee, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+      const customerId = parseInt(req.params.customerId);
+      const prescriptionId = parseInt(req.params.prescriptionId);
+
+      if (!(await checkCustomerAccess(req, res, franchiseId, customerId))) return;
+
+      const deleted = await deletePrescription(prescriptionId, customerId, franchiseId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Receita não encontrada" });
+      }
+
+      res.json({ message: "Receita excluída com sucesso" });
+    } catch (error) {
+      console.error("Erro ao excluir receita:", error);
+      res.status(500).json({ message: "Erro ao excluir receita" });
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  getQualitySetting,
+  mergeQualityThresholds,
+  setQualityThresholds,
+} from "../src/services/qualitySettingsService";
+import { DEFAULT_QUALITY_THRESHOLDS } from "../src/utils/imageQuality";
+
+// Middleware para verificar se o usuário está autenticado
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Não autorizado" });
+};
+
+// Esquema de validação dos limites de qualidade; limites omitidos seguem o padrão
+const thresholdsSchema = z.object({
+  minResolution: z.number().int().min(320 * 240, "Resolução mínima muito baixa"),
+  minSharpness: z.number().min(0),
+  minExposure: z.number().min(0).max(1),
+  maxExposure: z.number().min(0).max(1),
+  maxClipping: z.number().min(0).max(1),
+  maxGlare: z.number().min(0).max(1),
+  minEyeOpenness: z.number().min(0).max(0.5),
+}).partial().strict();
+
+export function setupQualitySettingsRoutes(app: Express) {
+  // Obter os limites de qualidade de imagem da franquia
+  app.get("/api/franchisee/:franchiseId/quality-thresholds", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+
+      if (req.user && req.user.role !== "admin" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const setting = await getQualitySetting(franchiseId);
+      res.json({
+        franchiseId,
+        thresholds: mergeQualityThresholds(setting?.thresholds),
+        overrides: setting?.thresholds ?? {},
+        defaults: DEFAULT_QUALITY_THRESHOLDS,
+        updatedAt: setting?.updatedAt ?? null,
+      });
+    } catch (error) {
+      console.error("Erro ao buscar limites de qualidade:", error);
+      res.status(500).json({ message: "Erro ao buscar limites de qualidade" });
+    }
+  });
+
+  // Definir os limites de qualidade de imagem da franquia
+  app.put("/api/franchisee/:franchiseId/quality-thresholds", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+
+      // Apenas o franqueado desta franquia ou administradores
+      if (req.user && req.user.role !== "admin" && (req.user.role !== "franchisee" || req.user.franchiseId !== franchiseId)) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const validationResult = thresholdsSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      // A faixa de exposição precisa continuar válida depois de combinada com os padrões
+      const thresholds = mergeQualityThresholds(validationResult.data);
+      if (thresholds.minExposure >= thresholds.maxExposure) {
+        return res.status(400).json({ message: "A exposição mínima deve ser menor que a máxima" });
+      }
+
+      const setting = await setQualityThresholds(franchiseId, validationResult.data, req.user!.id);
+      res.json({
+        franchiseId,
+        thresholds,
+        overrides: setting.thresholds,
+        defaults: DEFAULT_QUALITY_THRESHOLDS,
+        updatedAt: setting.updatedAt,
+      });
+    } catch (error) {
+      console.error("Erro ao definir limites de qualidade:", error);
+      res.status(500).json({ message: "Erro ao definir limites de qualidade" });
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  DEFAULT_IMAGE_RETENTION_DAYS,
+  getRetentionSetting,
+  listRetentionRuns,
+  purgeExpiredImages,
+  setRetentionSetting,
+} from "../src/services/imageLifecycleService";
+
+// Middleware para verificar se o usuário está autenticado
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ message: "Não autorizado" });
+};
+
+// Middleware para verificar se o usuário é administrador
+const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated() && req.user && req.user.role === "admin") {
+    return next();
+  }
+  res.status(403).json({ message: "Acesso negado" });
+};
+
+// Esquema de validação do prazo de retenção
+const retentionSchema = z.object({
+  imageRetentionDays: z.number().int().min(1, "Prazo mínimo de 1 dia").max(3650, "Prazo máximo de 10 anos"),
+});
+
+export function setupRetentionRoutes(app: Express) {
+  // Obter o prazo de retenção das imagens da franquia
+  app.get("/api/franchisee/:franchiseId/retention", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+
+      if (req.user && req.user.role !== "admin" && req.user.franchiseId !== franchiseId) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const setting = await getRetentionSetting(franchiseId);
+      res.json({
+        franchiseId,
+        imageRetentionDays: setting?.imageRetentionDays ?? DEFAULT_IMAGE_RETENTION_DAYS,
+        isDefault: !setting,
+        updatedAt: setting?.updatedAt ?? null,
+      });
+    } catch (error) {
+      console.error("Erro ao buscar prazo de retenção:", error);
+      res.status(500).json({ message: "Erro ao buscar prazo de retenção" });
+    }
+  });
+
+  // Definir o prazo de retenção das imagens da franquia
+  app.put("/api/franchisee/:franchiseId/retention", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const franchiseId = parseInt(req.params.franchiseId);
+
+      // Apenas o franqueado desta franquia ou administradores
+      if (req.user && req.user.role !== "admin" && (req.user.role !== "franchisee" || req.user.franchiseId !== franchiseId)) {
+        return res.status(403).json({ message: "Acesso negado" });
+      }
+
+      const validationResult = retentionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Dados inválidos",
+          errors: validationResult.error.errors
+        });
+      }
+
+      const setting = await setRetentionSetting(
+        franchiseId,
+        validationResult.data.imageRetentionDays,
+        req.user!.id
+      );
+      res.json({ ...setting, isDefault: false });
+    } catch (error) {
+      console.error("Erro ao definir prazo de retenção:", error);
+      res.status(500).json({ message: "Erro ao definir prazo de retenção" });
+    }
+  });
+
+  // Relatórios das últimas limpezas
+  app.get("/api/admin/retention/runs", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      res.json(await listRetentionRuns(limit));
+    } catch (error) {
+      console.error("Erro ao buscar relatórios de limpeza:", error);
+      res.status(500).json({ message: "Erro ao buscar relatórios de limpeza" });
+    }
+  });
+
+  // Executar a limpeza manualmente (?dryRun=true apenas lista o que seria removido)
+  app.post("/api/admin/retention/purge", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const report = await purgeExpiredImages({
+        trigger: "manual",
+        dryRun: req.query.dryRun === "true",
+      });
+
+      if (!report) {
+        return res.status(409).json({ message: "Já existe uma limpeza em execução" });
+      }
+
+      res.json(report);
+    } catch (error) {
+      console.error("Erro ao executar limpeza de imagens:", error);
+      res.status(500).json({ message: "Erro ao executar limpeza de imagens" });
+    }
+  });
+}
@@ -4,6 +4,9 @@ import { setupAuth } from "./auth";
 import { sessionConfig } from "./session";
 import { errorHandler } from "./middleware/error-handler";
 import { logger } from "./middleware/logger";
+import { IMAGE_UPLOAD_PATHS, imageJsonParser } from "./middleware/image-upload";
+import { FRAME_TRACE_UPLOAD_PATHS, frameTraceJsonParser } from "./api/inventory";
+import { startImageRetentionScheduler } from "./src/services/imageLifecycleService";
 
 const app = express();
 
@@ -12,6 +15,10 @@ app.use(cors({
   origin: process.env.CLIENT_URL || "http://localhost:3000",
   credentials: true
 }));
+// Rotas de imagem aceitam o JSON com base64 do formato antigo, maior que o limite padrão
+app.use(IMAGE_UPLOAD_PATHS, imageJsonParser);
+// Importação de traçado: o arquivo da traçadora pode passar do limite padrão
+app.use(FRAME_TRACE_UPLOAD_PATHS, frameTraceJsonParser);
 app.use(express.json());
 app.use(logger);
 
@@ -31,4 +38,7 @@ app.use(errorHandler);
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Servidor rodando na porta ${PORT}`);
+  
+  // Limpeza periódica das imagens de medição vencidas
+  startImageRetentionScheduler();
 });
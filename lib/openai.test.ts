@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+
+// O SDK não é usado nestes testes: todas as chamadas passam por um cliente falso
+vi.mock("openai", () => ({ default: class {} }));
+
+import {
+  analyzeFacialMeasurements,
+  analyzeFacialPosition,
+  FacialMeasurementError,
+  VisionClient,
+} from "./openai";
+
+const validMeasurements = {
+  dp: 63,
+  dpnLeft: 31.5,
+  dpnRight: 31.5,
+  apLeft: 22,
+  apRight: 22,
+  confidence: 0.9,
+};
+
+// Cliente falso que responde com o conteúdo indicado, ou executa a função indicada, em cada chamada
+function fakeClient(...responses: (string | null | (() => Promise<never>))[]) {
+  const create = vi.fn(async () => {
+    const next = responses.length > 1 ? responses.shift()! : responses[0];
+    if (typeof next === "function") return next();
+    return { choices: [{ message: { content: next } }] };
+  });
+  const client: VisionClient = { chat: { completions: { create } } };
+  return { client, create };
+}
+
+async function expectFailure(promise: Promise<unknown>, reason: string, attempts: number) {
+  const error = await promise.catch((error: FacialMeasurementError) => error);
+  expect(error).toBeInstanceOf(FacialMeasurementError);
+  expect((error as FacialMeasurementError).reason).toBe(reason);
+  expect((error as FacialMeasurementError).attempts).toBe(attempts);
+}
+
+describe("analyzeFacialMeasurements", () => {
+  it("retorna as medições quando a resposta segue o contrato", async () => {
+    const { client } = fakeClient(JSON.stringify(validMeasurements));
+
+    await expect(analyzeFacialMeasurements("abc", { client, maxAttempts: 1 })).resolves.toEqual(validMeasurements);
+  });
+
+  it("falha com timeout quando o cliente não responde a tempo", async () => {
+    const { client } = fakeClient(() => new Promise<never>(() => undefined));
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, timeoutMs: 10, maxAttempts: 1 }), "timeout", 1);
+  });
+
+  it("falha com api_error quando o cliente lança um erro", async () => {
+    const { client } = fakeClient(() => Promise.reject(new Error("500 Internal Server Error")));
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, maxAttempts: 1 }), "api_error", 1);
+  });
+
+  it("falha com empty_response quando o modelo não retorna conteúdo", async () => {
+    const { client } = fakeClient(null);
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, maxAttempts: 1 }), "empty_response", 1);
+  });
+
+  it("falha com invalid_json quando a resposta não é JSON", async () => {
+    const { client } = fakeClient("DP de 63 mm");
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, maxAttempts: 1 }), "invalid_json", 1);
+  });
+
+  it("falha com invalid_output quando um valor está fora da faixa fisiológica", async () => {
+    const { client } = fakeClient(JSON.stringify({ ...validMeasurements, dp: 120 }));
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, maxAttempts: 1 }), "invalid_output", 1);
+  });
+
+  it("tenta de novo e informa o motivo da última tentativa", async () => {
+    const { client, create } = fakeClient("não é JSON", null);
+
+    await expectFailure(analyzeFacialMeasurements("abc", { client, maxAttempts: 2 }), "empty_response", 2);
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+
+  it("recupera na segunda tentativa", async () => {
+    const { client } = fakeClient(null, JSON.stringify(validMeasurements));
+
+    await expect(analyzeFacialMeasurements("abc", { client, maxAttempts: 2 })).resolves.toEqual(validMeasurements);
+  });
+
+  it("envia a imagem com o tipo informado", async () => {
+    const { client, create } = fakeClient(JSON.stringify(validMeasurements));
+
+    await analyzeFacialMeasurements("abc", { client, contentType: "image/png", maxAttempts: 1 });
+
+    const params = JSON.stringify(create.mock.calls[0]);
+    expect(params).toContain("data:image/png;base64,abc");
+  });
+});
+
+describe("analyzeFacialPosition", () => {
+  it("retorna a análise quando a resposta segue o contrato", async () => {
+    const { client } = fakeClient(JSON.stringify({ isCorrect: true, feedback: "Bom enquadramento" }));
+
+    await expect(analyzeFacialPosition("abc", { client, maxAttempts: 1 })).resolves.toEqual({
+      isCorrect: true,
+      feedback: "Bom enquadramento",
+      suggestions: [],
+    });
+  });
+
+  it("falha com invalid_json em vez de retornar uma análise padrão", async () => {
+    const { client } = fakeClient("{ isCorrect: true");
+
+    await expectFailure(analyzeFacialPosition("abc", { client, maxAttempts: 1 }), "invalid_json", 1);
+  });
+
+  it("falha com invalid_output quando faltam campos", async () => {
+    const { client } = fakeClient(JSON.stringify({ feedback: "Rosto inclinado" }));
+
+    await expectFailure(analyzeFacialPosition("abc", { client, maxAttempts: 1 }), "invalid_output", 1);
+  });
+});
@@ -1,132 +1,271 @@
 import OpenAI from "openai";
+import { z } from "zod";
 
 // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+export const VISION_MODEL = "gpt-4o";
+
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
+/**
+ * Cliente mínimo do modelo de visão, para permitir injetar um cliente falso em testes
+ */
+export interface VisionClient {
+  chat: {
+    completions: {
+      create(
+        params: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming,
+        options?: { signal?: AbortSignal; maxRetries?: number }
+      ): Promise<{ choices: { message: { content: string | null } }[] }>;
+    };
+  };
+}
+
+/**
+ * Motivos tipados de falha da análise de medições
+ */
+export type FacialMeasurementFailureReason =
+  | "timeout"
+  | "api_error"
+  | "empty_response"
+  | "invalid_json"
+  | "invalid_output";
+
+export class FacialMeasurementError extends Error {
+  constructor(
+    public reason: FacialMeasurementFailureReason,
+    message: string,
+    public attempts: number
+  ) {
+    super(message);
+    this.name = "FacialMeasurementError";
+    Object.setPrototypeOf(this, FacialMeasurementError.prototype);
+  }
+}
+
+/**
+ * Contrato da resposta do modelo: valores fora das faixas fisiológicas
+ * são tratados como falha, nunca substituídos por médias
+ */
+const facialMeasurementsSchema = z.object({
+  dp: z.coerce.number().min(40).max(85),
+  dpnLeft: z.coerce.number().min(20).max(45),
+  dpnRight: z.coerce.number().min(20).max(45),
+  apLeft: z.coerce.number().min(10).max(40),
+  apRight: z.coerce.number().min(10).max(40),
+  confidence: z.coerce.number().min(0).max(1),
+});
+
+export type FacialMeasurements = z.infer<typeof facialMeasurementsSchema>;
+
+/**
+ * Contrato da análise de posicionamento facial
+ */
+const facialPositionSchema = z.object({
+  isCorrect: z.boolean(),
+  feedback: z.string(),
+  suggestions: z.array(z.string()).default([]),
+});
+
+export type FacialPosition = z.infer<typeof facialPositionSchema>;
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.OPENAI_TIMEOUT_MS || "30000");
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.OPENAI_MAX_ATTEMPTS || "2");
+
+/**
+ * Opções comuns das chamadas ao modelo de visão
+ */
+export interface VisionRequestOptions {
+  client?: VisionClient;
+  contentType?: string; // Tipo da imagem enviada (image/jpeg, image/png, image/webp)
+  timeoutMs?: number;
+  maxAttempts?: number;
+}
+
 /**
  * Analisa uma imagem facial para obter medições ópticas
  * @param base64Image Imagem em base64 da face do cliente
+ * @param options Cliente de visão, tipo da imagem, tempo limite por tentativa e número máximo de tentativas
  * @returns Medições ópticas como DP (Distância Pupilar), etc.
+ * @throws FacialMeasurementError quando nenhuma tentativa produz uma resposta válida
  */
-export async function analyzeFacialMeasurements(base64Image: string): Promise<{
-  dp: number;
-  dpnLeft: number;
-  dpnRight: number;
-  apLeft: number;
-  apRight: number;
-  confidence: number;
-}> {
-  try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content:
-            "Você é um especialista em medições ópticas. Analise a imagem facial e forneça as seguintes medidas com precisão: \n" +
-            "1. DP (Distância Pupilar total em mm)\n" +
-            "2. DPL (Distância Pupilar até o nariz à esquerda em mm)\n" +
-            "3. DPR (Distância Pupilar até o nariz à direita em mm)\n" +
-            "4. APL (Altura Pupilar à esquerda em mm)\n" +
-            "5. APR (Altura Pupilar à direita em mm)\n" +
-            "Também forneça um valor de confiança de 0 a 1 para a precisão da medida. Responda com JSON neste formato: { \"dp\": número, \"dpnLeft\": número, \"dpnRight\": número, \"apLeft\": número, \"apRight\": número, \"confidence\": número }"
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Por favor, forneça medições ópticas precisas com base nesta imagem facial:"
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
-              }
-            }
-          ],
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 500,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content);
-
-    return {
-      dp: parseFloat(result.dp) || 62.0, // Valor médio padrão se não for possível determinar
-      dpnLeft: parseFloat(result.dpnLeft) || 31.0,
-      dpnRight: parseFloat(result.dpnRight) || 31.0,
-      apLeft: parseFloat(result.apLeft) || 30.0,
-      apRight: parseFloat(result.apRight) || 30.0,
-      confidence: parseFloat(result.confidence) || 0.7,
-    };
-  } catch (error) {
-    console.error("Erro ao analisar medições faciais:", error);
-    // Retorna valores médios em caso de erro
-    return {
-      dp: 62.0,
-      dpnLeft: 31.0,
-      dpnRight: 31.0,
-      apLeft: 30.0,
-      apRight: 30.0,
-      confidence: 0.5,
-    };
-  }
+export async function analyzeFacialMeasurements(
+  base64Image: string,
+  options: VisionRequestOptions = {}
+): Promise<FacialMeasurements> {
+  return requestWithRetries(
+    {
+      system:
+        "Você é um especialista em medições ópticas. Analise a imagem facial e forneça as seguintes medidas com precisão: \n" +
+        "1. DP (Distância Pupilar total em mm)\n" +
+        "2. DPL (Distância Pupilar até o nariz à esquerda em mm)\n" +
+        "3. DPR (Distância Pupilar até o nariz à direita em mm)\n" +
+        "4. APL (Altura Pupilar à esquerda em mm)\n" +
+        "5. APR (Altura Pupilar à direita em mm)\n" +
+        "Também forneça um valor de confiança de 0 a 1 para a precisão da medida. Responda com JSON neste formato: { \"dp\": número, \"dpnLeft\": número, \"dpnRight\": número, \"apLeft\": número, \"apRight\": número, \"confidence\": número }",
+      prompt: "Por favor, forneça medições ópticas precisas com base nesta imagem facial:",
+      schema: facialMeasurementsSchema,
+      label: "medições faciais",
+    },
+    base64Image,
+    options
+  );
 }
 
 /**
  * Analisa uma imagem facial para verificar posicionamento e enquadramento
  * @param base64Image Imagem em base64 da face do cliente
+ * @param options Cliente de visão, tipo da imagem, tempo limite por tentativa e número máximo de tentativas
  * @returns Feedback sobre o posicionamento facial
+ * @throws FacialMeasurementError quando nenhuma tentativa produz uma resposta válida
+ */
+export async function analyzeFacialPosition(
+  base64Image: string,
+  options: VisionRequestOptions = {}
+): Promise<FacialPosition> {
+  return requestWithRetries(
+    {
+      system:
+        "Você é um especialista em análise de enquadramento facial para medições ópticas. " +
+        "Avalie se o rosto está bem posicionado para medições ópticas precisas: " +
+        "1. O rosto deve estar olhando diretamente para a câmera (sem inclinação) " +
+        "2. Boa iluminação, sem sombras fortes sobre os olhos " +
+        "3. Ambos os olhos devem estar bem visíveis e abertos " +
+        "4. Enquadramento deve incluir o rosto completo " +
+        "5. Sem obstruções (como cabelo) cobrindo os olhos " +
+        "Responda com JSON no formato: { \"isCorrect\": boolean, \"feedback\": string, \"suggestions\": [array de strings com sugestões de melhoria] }",
+      prompt: "Analise se esta imagem facial está bem posicionada para medições ópticas precisas:",
+      schema: facialPositionSchema,
+      label: "posicionamento facial",
+    },
+    base64Image,
+    options
+  );
+}
+
+/**
+ * Pedido ao modelo de visão: instruções, contrato da resposta e nome usado nos logs
+ */
+interface VisionPrompt<T> {
+  system: string;
+  prompt: string;
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  label: string;
+}
+
+/**
+ * Repete a chamada ao modelo até obter uma resposta válida ou esgotar as tentativas
+ */
+async function requestWithRetries<T>(
+  request: VisionPrompt<T>,
+  base64Image: string,
+  options: VisionRequestOptions
+): Promise<T> {
+  const client = options.client || openai;
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const maxAttempts = Math.max(1, options.maxAttempts || DEFAULT_MAX_ATTEMPTS);
+  const imageUrl = `data:${options.contentType || "image/jpeg"};base64,${base64Image}`;
+
+  let lastError: FacialMeasurementError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      return await requestVision(client, request, imageUrl, timeoutMs, attempt);
+    } catch (error) {
+      lastError = error instanceof FacialMeasurementError
+        ? error
+        : new FacialMeasurementError("api_error", error instanceof Error ? error.message : "Erro desconhecido", attempt);
+      console.error(`Erro ao analisar ${request.label} (tentativa ${attempt}/${maxAttempts}):`, lastError.reason, lastError.message);
+    }
+  }
+
+  throw lastError!;
+}
+
+/**
+ * Executa uma única chamada ao modelo e valida o resultado
  */
-export async function analyzeFacialPosition(base64Image: string): Promise<{
-  isCorrect: boolean;
-  feedback: string;
-  suggestions: string[];
-}> {
+async function requestVision<T>(
+  client: VisionClient,
+  request: VisionPrompt<T>,
+  imageUrl: string,
+  timeoutMs: number,
+  attempt: number
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+
+  // O tempo limite vale também para clientes que ignoram o sinal de cancelamento
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new FacialMeasurementError("timeout", `Tempo limite de ${timeoutMs}ms excedido`, attempt));
+    }, timeoutMs);
+  });
+
+  let content: string | null | undefined;
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
+    const response = await Promise.race([
+      client.chat.completions.create(
         {
-          role: "system",
-          content:
-            "Você é um especialista em análise de enquadramento facial para medições ópticas. " +
-            "Avalie se o rosto está bem posicionado para medições ópticas precisas: " +
-            "1. O rosto deve estar olhando diretamente para a câmera (sem inclinação) " +
-            "2. Boa iluminação, sem sombras fortes sobre os olhos " +
-            "3. Ambos os olhos devem estar bem visíveis e abertos " +
-            "4. Enquadramento deve incluir o rosto completo " +
-            "5. Sem obstruções (como cabelo) cobrindo os olhos " +
-            "Responda com JSON no formato: { \"isCorrect\": boolean, \"feedback\": string, \"suggestions\": [array de strings com sugestões de melhoria] }"
-        },
-        {
-          role: "user",
-          content: [
+          model: VISION_MODEL,
+          messages: [
             {
-              type: "text",
-              text: "Analise se esta imagem facial está bem posicionada para medições ópticas precisas:"
+              role: "system",
+              content: request.system
             },
             {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
-              }
-            }
+              role: "user",
+              content: [
+                {
+                  type: "text",
+                  text: request.prompt
+                },
+                {
+                  type: "image_url",
+                  image_url: {
+                    url: imageUrl
+                  }
+                }
+              ],
+            },
           ],
+          response_format: { type: "json_object" },
+          max_tokens: 500,
         },
-      ],
-      response_format: { type: "json_object" },
-    });
+        // As novas tentativas são controladas aqui, não pelo SDK
+        { signal: controller.signal, maxRetries: 0 }
+      ),
+      timeout,
+    ]);
 
-    return JSON.parse(response.choices[0].message.content);
+    content = response.choices[0]?.message.content;
   } catch (error) {
-    console.error("Erro ao analisar posicionamento facial:", error);
-    return {
-      isCorrect: false,
-      feedback: "Não foi possível analisar a imagem. Por favor, tente novamente.",
-      suggestions: ["Verifique sua conexão com a internet", "Tente outra foto com melhor iluminação"],
-    };
+    if (error instanceof FacialMeasurementError) throw error;
+    throw new FacialMeasurementError("api_error", error instanceof Error ? error.message : "Erro desconhecido", attempt);
+  } finally {
+    clearTimeout(timer);
   }
+
+  if (!content) {
+    throw new FacialMeasurementError("empty_response", "O modelo não retornou conteúdo", attempt);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new FacialMeasurementError("invalid_json", "A resposta do modelo não é um JSON válido", attempt);
+  }
+
+  const result = request.schema.safeParse(parsed);
+  if (!result.success) {
+    throw new FacialMeasurementError(
+      "invalid_output",
+      `Resposta do modelo fora do contrato: ${result.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join("; ")}`,
+      attempt
+    );
+  }
+
+  return result.data;
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+import express, { Request, Response, NextFunction } from "express";
+import busboy from "busboy";
+import { Readable } from "stream";
+import { AppError } from "./error-handler";
+import { detectImageFormat } from "../src/utils/exif";
+
+// Tamanho máximo de cada imagem enviada via multipart, em bytes
+export const MAX_IMAGE_UPLOAD_BYTES = parseInt(process.env.IMAGE_UPLOAD_MAX_MB || "15") * 1024 * 1024;
+
+// Limite do corpo JSON com imagens em base64 (formato antigo), que ocupa ~4/3 do binário
+const IMAGE_JSON_LIMIT = `${parseInt(process.env.IMAGE_JSON_MAX_MB || "25")}mb`;
+
+// Bytes necessários para identificar o formato pela assinatura do arquivo
+const SNIFF_BYTES = 12;
+
+// Rotas que recebem imagens; só elas aceitam corpos JSON acima do limite padrão
+export const IMAGE_UPLOAD_PATHS = [
+  "/api/measurements/analyze",
+  "/api/measurements/check-quality",
+  "/api/measurements/detect-landmarks",
+  "/api/measurements/analyze-advanced",
+  "/api/measurements/analyze-burst",
+  "/api/facial-measurements",
+];
+
+// Parser JSON das rotas de imagem, montado antes do express.json() global
+export const imageJsonParser = express.json({ limit: IMAGE_JSON_LIMIT });
+
+// Converter os campos de texto do formulário: números, booleanos e objetos chegam em JSON
+function parseFieldValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+// Receber imagens em multipart/form-data, em streaming e com limite de tamanho
+// O arquivo do campo indicado vai para req.body[field] como Buffer (ou lista de
+// Buffers quando maxFiles > 1), no mesmo lugar da string base64 do formato JSON,
+// que continua aceito: requisições que não são multipart passam direto
+export function imageUpload(field: string, options: { maxFiles?: number } = {}) {
+  const maxFiles = options.maxFiles ?? 1;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.is("multipart/form-data")) {
+      return next();
+    }
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES, files: maxFiles, fields: 20, fieldSize: 1024 * 1024 }
+      });
+    } catch {
+      return next(new AppError(400, "Requisição multipart inválida"));
+    }
+
+    const body: Record<string, unknown> = {};
+    const files: Buffer[] = [];
+    let failed = false;
+
+    // Responder ao primeiro erro e descartar o restante do upload sem guardá-lo
+    const fail = (error: AppError) => {
+      if (failed) return;
+      failed = true;
+      req.unpipe(parser);
+      req.resume();
+      next(error);
+    };
+
+    parser.on("file", (name: string, stream: Readable) => {
+      if (failed || name !== field) {
+        stream.resume();
+        if (name !== field) fail(new AppError(400, `Campo de arquivo inesperado: ${name}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      let sniffed = false;
+
+      stream.on("data", (chunk: Buffer) => {
+        if (failed) return;
+        chunks.push(chunk);
+        size += chunk.length;
+
+        // O tipo declarado pelo cliente é ignorado: vale a assinatura do conteúdo
+        if (!sniffed && size >= SNIFF_BYTES) {
+          sniffed = true;
+          if (!detectImageFormat(Buffer.concat(chunks))) {
+            stream.resume();
+            fail(new AppError(415, "Formato de imagem não suportado. Envie uma foto JPEG, PNG, HEIC ou WebP."));
+          }
+        }
+      });
+
+      stream.on("limit", () => {
+        fail(new AppError(413, `Imagem maior que o limite de ${MAX_IMAGE_UPLOAD_BYTES / 1024 / 1024} MB`));
+      });
+
+      stream.on("end", () => {
+        if (failed) return;
+        if (!sniffed) {
+          return fail(new AppError(415, "Formato de imagem não suportado. Envie uma foto JPEG, PNG, HEIC ou WebP."));
+        }
+        files.push(Buffer.concat(chunks, size));
+      });
+    });
+
+    parser.on("field", (name: string, value: string) => {
+      body[name] = parseFieldValue(value);
+    });
+
+    parser.on("filesLimit", () => {
+      fail(new AppError(413, `Envie no máximo ${maxFiles} ${maxFiles === 1 ? "imagem" : "imagens"}`));
+    });
+
+    parser.on("error", () => {
+      fail(new AppError(400, "Requisição multipart inválida"));
+    });
+
+    parser.on("close", () => {
+      if (failed) return;
+      if (files.length > 0) {
+        body[field] = maxFiles === 1 ? files[0] : files;
+      }
+      req.body = body;
+      next();
+    });
+
+    req.pipe(parser);
+  };
+}
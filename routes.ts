@@ -9,6 +9,13 @@ import { setupFranchiseesRoutes } from "./api/franchisees";
 import { setupCustomersRoutes } from "./api/customers";
 import { setupInventoryRoutes } from "./api/inventory";
 import { setupFacialMeasurementsRoutes } from "./api/facial-measurements";
+import { setupPrescriptionsRoutes } from "./api/prescriptions";
+import { setupLensCalculatorRoutes } from "./api/lens-calculator";
+import { setupMeasurementReviewsRoutes } from "./api/measurement-reviews";
+import { setupBlobRoutes } from "./api/blobs";
+import { setupRetentionRoutes } from "./api/retention";
+import { setupQualitySettingsRoutes } from "./api/quality-settings";
+import { setupCaptureGuidanceSocket } from "./api/capture-guidance";
 
 // Middleware to check if user is authenticated
 const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
@@ -47,6 +54,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   setupCustomersRoutes(app);
   setupInventoryRoutes(app);
   setupFacialMeasurementsRoutes(app);
+  setupPrescriptionsRoutes(app);
+  setupLensCalculatorRoutes(app);
+  setupMeasurementReviewsRoutes(app);
+  setupBlobRoutes(app);
+  setupRetentionRoutes(app);
+  setupQualitySettingsRoutes(app);
   
   // Users API
   app.get("/api/users", isAuthenticated, hasRole(["admin"]), async (req, res) => {
@@ -91,5 +104,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
 
+  // Orientação de captura em tempo real (WebSocket)
+  setupCaptureGuidanceSocket(httpServer);
+
   return httpServer;
 }
@@ -1,10 +1,18 @@
 import { Pool } from 'pg';
+import type { PoolClient } from '@neondatabase/serverless';
 import dotenv from 'dotenv';
+import { pool } from '../db';
 
 dotenv.config();
 
-// Configuração do pool de conexões
-const pool = new Pool({
+// As tabelas do app ficam no banco principal, junto de measurements, para valerem
+// as chaves estrangeiras e as transações entre uma medição e a sua revisão
+
+// Pool ou cliente de uma transação aberta com pool.connect()
+export type Queryable = Pick<PoolClient, 'query'>;
+
+// Banco legado (DB_*), lido apenas pela migração das medições antigas
+const legacyPool = new Pool({
   user: process.env.DB_USER,
   host: process.env.DB_HOST,
   database: process.env.DB_NAME,
@@ -13,16 +21,6 @@ const pool = new Pool({
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false
 });
 
-// Testar conexão
-pool.connect((err, client, release) => {
-  if (err) {
-    console.error('Erro ao conectar ao banco de dados:', err);
-    return;
-  }
-  console.log('Conectado ao banco de dados PostgreSQL');
-  release();
-});
-
 // Criar tabelas se não existirem
 async function createTables() {
   const client = await pool.connect();
@@ -30,33 +28,166 @@ async function createTables() {
   try {
     await client.query('BEGIN');
 
-    // Tabela de medições
+    // A tabela legada de medições (ids UUID) não é mais criada nem alterada aqui:
+    // as medições ficam no repositório único (services/measurementRepository)
+    // e as linhas antigas são copiadas do banco legado pelo comando scripts/migrateLegacyMeasurements
+
+    // Tabela de receitas (OD = olho direito, OS = olho esquerdo)
     await client.query(`
-      CREATE TABLE IF NOT EXISTS measurements (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        user_id UUID NOT NULL REFERENCES users(id),
-        dp DECIMAL(5,2) NOT NULL,
-        dpn_left DECIMAL(5,2) NOT NULL,
-        dpn_right DECIMAL(5,2) NOT NULL,
-        ap_left DECIMAL(5,2) NOT NULL,
-        ap_right DECIMAL(5,2) NOT NULL,
-        type VARCHAR(10) NOT NULL CHECK (type IN ('manual', 'digital')),
+      CREATE TABLE IF NOT EXISTS prescriptions (
+        id SERIAL PRIMARY KEY,
+        customer_id INTEGER NOT NULL,
+        franchise_id INTEGER NOT NULL,
+        od_sphere DECIMAL(5,2) NOT NULL,
+        od_cylinder DECIMAL(5,2) NOT NULL DEFAULT 0,
+        od_axis SMALLINT CHECK (od_axis BETWEEN 1 AND 180),
+        od_add DECIMAL(4,2),
+        od_prism DECIMAL(4,2),
+        od_prism_base VARCHAR(4) CHECK (od_prism_base IN ('up', 'down', 'in', 'out')),
+        os_sphere DECIMAL(5,2) NOT NULL,
+        os_cylinder DECIMAL(5,2) NOT NULL DEFAULT 0,
+        os_axis SMALLINT CHECK (os_axis BETWEEN 1 AND 180),
+        os_add DECIMAL(4,2),
+        os_prism DECIMAL(4,2),
+        os_prism_base VARCHAR(4) CHECK (os_prism_base IN ('up', 'down', 'in', 'out')),
+        prescriber VARCHAR(120) NOT NULL,
+        prescriber_registry VARCHAR(40),
+        issue_date DATE NOT NULL,
+        expiry_date DATE NOT NULL,
         notes TEXT,
-        image_url TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        CHECK (expiry_date > issue_date)
+      );
+    `);
+
+    // Revisão das medições digitais pelo óptico da franquia
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS measurement_reviews (
+        measurement_id INTEGER PRIMARY KEY REFERENCES measurements(id) ON DELETE CASCADE,
+        franchise_id INTEGER,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending_review'
+          CHECK (status IN ('pending_review', 'approved', 'adjusted', 'rejected')),
+        original_values JSONB NOT NULL,
+        adjusted_values JSONB,
+        reason TEXT,
         landmarks JSONB,
-        quality VARCHAR(10) CHECK (quality IN ('high', 'medium', 'low')),
-        confidence DECIMAL(4,3),
-        warnings TEXT[],
+        frame_fitting JSONB,
+        reviewer_id INTEGER,
+        reviewed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        CHECK (status = 'pending_review' OR (reviewer_id IS NOT NULL AND reviewed_at IS NOT NULL)),
+        CHECK (status NOT IN ('adjusted', 'rejected') OR reason IS NOT NULL)
+      );
+    `);
+
+    // Prazo de retenção das imagens de medição por franquia
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS franchise_retention_settings (
+        franchise_id INTEGER PRIMARY KEY,
+        image_retention_days INTEGER NOT NULL CHECK (image_retention_days > 0),
+        updated_by INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Limites de qualidade de imagem definidos pela franquia (sobrepõem os padrões)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS franchise_quality_settings (
+        franchise_id INTEGER PRIMARY KEY,
+        thresholds JSONB NOT NULL DEFAULT '{}',
+        updated_by INTEGER,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-      )
+      );
+    `);
+
+    // Relatório de cada execução da limpeza de imagens
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS retention_runs (
+        id SERIAL PRIMARY KEY,
+        trigger VARCHAR(10) NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+        dry_run BOOLEAN NOT NULL DEFAULT false,
+        started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        finished_at TIMESTAMP WITH TIME ZONE,
+        removed_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        removed JSONB NOT NULL DEFAULT '[]',
+        failures JSONB NOT NULL DEFAULT '[]',
+        error TEXT
+      );
+    `);
+
+    // Ficha técnica das armações (boxing), ligada aos produtos do inventário
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS frame_specs (
+        product_id INTEGER PRIMARY KEY,
+        a DECIMAL(4,1) NOT NULL,
+        b DECIMAL(4,1) NOT NULL,
+        dbl DECIMAL(4,1) NOT NULL,
+        ed DECIMAL(4,1) NOT NULL,
+        temple_length SMALLINT NOT NULL,
+        material VARCHAR(40) NOT NULL,
+        rim_type VARCHAR(10) NOT NULL CHECK (rim_type IN ('full', 'semi', 'rimless')),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Serviços enviados ao laboratório; o número do serviço vai impresso na ficha de montagem
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS lab_jobs (
+        id SERIAL PRIMARY KEY,
+        job_number VARCHAR(20) NOT NULL UNIQUE,
+        franchise_id INTEGER NOT NULL,
+        customer_id INTEGER NOT NULL,
+        measurement_id INTEGER NOT NULL,
+        prescription_id INTEGER NOT NULL,
+        product_id INTEGER,
+        created_by INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    // Contorno das lentes importado da traçadora, por armação do inventário ou por serviço
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS frame_traces (
+        id SERIAL PRIMARY KEY,
+        franchise_id INTEGER NOT NULL,
+        product_id INTEGER,
+        lab_job_id INTEGER REFERENCES lab_jobs(id) ON DELETE CASCADE,
+        right_radii JSONB NOT NULL,
+        left_radii JSONB NOT NULL,
+        a DECIMAL(4,1) NOT NULL,
+        b DECIMAL(4,1) NOT NULL,
+        dbl DECIMAL(4,1) NOT NULL,
+        ed DECIMAL(4,1) NOT NULL,
+        circumference DECIMAL(5,1) NOT NULL,
+        created_by INTEGER,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        CHECK (product_id IS NOT NULL OR lab_job_id IS NOT NULL)
+      );
+    `);
+
+    // Sinais de "pronto para capturar" já usados, guardados até expirarem
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS capture_ready_tokens (
+        signature VARCHAR(64) PRIMARY KEY,
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+      );
     `);
 
     // Índices
     await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_measurements_user_id ON measurements(user_id);
-      CREATE INDEX IF NOT EXISTS idx_measurements_created_at ON measurements(created_at);
-      CREATE INDEX IF NOT EXISTS idx_measurements_type ON measurements(type);
+      CREATE INDEX IF NOT EXISTS idx_prescriptions_customer_id ON prescriptions(customer_id, franchise_id);
+      CREATE INDEX IF NOT EXISTS idx_measurement_reviews_queue ON measurement_reviews(franchise_id, status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_retention_runs_started_at ON retention_runs(started_at);
+      CREATE INDEX IF NOT EXISTS idx_lab_jobs_customer_id ON lab_jobs(customer_id, franchise_id);
+      CREATE INDEX IF NOT EXISTS idx_frame_traces_product_id ON frame_traces(product_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_frame_traces_lab_job_id ON frame_traces(lab_job_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_capture_ready_tokens_expires_at ON capture_ready_tokens(expires_at);
     `);
 
     // Trigger para atualizar updated_at
@@ -69,9 +200,33 @@ async function createTables() {
       END;
       $$ language 'plpgsql';
 
-      DROP TRIGGER IF EXISTS update_measurements_updated_at ON measurements;
-      CREATE TRIGGER update_measurements_updated_at
-        BEFORE UPDATE ON measurements
+      DROP TRIGGER IF EXISTS update_prescriptions_updated_at ON prescriptions;
+      CREATE TRIGGER update_prescriptions_updated_at
+        BEFORE UPDATE ON prescriptions
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS update_measurement_reviews_updated_at ON measurement_reviews;
+      CREATE TRIGGER update_measurement_reviews_updated_at
+        BEFORE UPDATE ON measurement_reviews
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS update_franchise_retention_settings_updated_at ON franchise_retention_settings;
+      CREATE TRIGGER update_franchise_retention_settings_updated_at
+        BEFORE UPDATE ON franchise_retention_settings
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS update_franchise_quality_settings_updated_at ON franchise_quality_settings;
+      CREATE TRIGGER update_franchise_quality_settings_updated_at
+        BEFORE UPDATE ON franchise_quality_settings
+        FOR EACH ROW
+        EXECUTE FUNCTION update_updated_at_column();
+
+      DROP TRIGGER IF EXISTS update_frame_specs_updated_at ON frame_specs;
+      CREATE TRIGGER update_frame_specs_updated_at
+        BEFORE UPDATE ON frame_specs
         FOR EACH ROW
         EXECUTE FUNCTION update_updated_at_column();
     `);
@@ -90,4 +245,4 @@ async function createTables() {
 // Executar criação das tabelas
 createTables().catch(console.error);
 
-export { pool }; 
\ No newline at end of file
+export { pool, legacyPool }; 
\ No newline at end of file
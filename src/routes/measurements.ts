@@ -1,10 +1,27 @@
 import { Router } from 'express';
 import { z } from 'zod';
-import { pool } from '../db';
+import { measurementRepository } from '../services/measurementRepository';
 import { authenticateToken } from '../middleware/auth';
-import { uploadToS3 } from '../utils/s3';
-import { detectFacialLandmarks, analyzeMeasurements } from '../services/measurementService';
-import { validateImageQuality } from '../utils/imageProcessing';
+import { imageUpload } from '../../middleware/image-upload';
+import { getImageSignedUrl } from '../services/blobStore';
+import { createMeasurementWithImage, deleteMeasurementWithImage } from '../services/imageLifecycleService';
+import { getQualityThresholds } from '../services/qualitySettingsService';
+import { createMeasurementForReview, resolveReviewFranchise } from '../services/measurementReviewService';
+import {
+  detectFacialLandmarks,
+  analyzeMeasurements,
+  analyzeBurst,
+  BurstError,
+  MIN_BURST_FRAMES,
+  MAX_BURST_FRAMES
+} from '../services/measurementService';
+import { validateImageQuality, ingestImage, InvalidImageError } from '../utils/imageProcessing';
+import { CalibrationError } from '../utils/calibration';
+import { HeadPoseError } from '../utils/headPose';
+import { FrameDetectionError } from '../utils/frameDetection';
+import { calculateNearPd } from '../utils/measurementCalculations';
+import { localEngine } from '../services/engines/localEngine';
+import { renderAnnotatedMeasurement } from '../utils/annotation';
 
 const router = Router();
 
@@ -13,24 +30,98 @@ const measurementSchema = z.object({
   dp: z.number().min(50).max(80),
   dpnLeft: z.number().min(25).max(40),
   dpnRight: z.number().min(25).max(40),
-  apLeft: z.number().min(20).max(35),
-  apRight: z.number().min(20).max(35),
+  // Alturas até o aro inferior (boxing) são menores que as medidas até o nariz
+  apLeft: z.number().min(10).max(35),
+  apRight: z.number().min(10).max(35),
+  apReference: z.enum(['nose', 'frame']).optional(),
+  frame: z.object({
+    apLeft: z.number(),
+    apRight: z.number(),
+    b: z.number().positive(),
+    bLeft: z.number().positive(),
+    bRight: z.number().positive(),
+    boxes: z.object({
+      left: z.object({ top: z.number(), bottom: z.number(), left: z.number(), right: z.number() }),
+      right: z.object({ top: z.number(), bottom: z.number(), left: z.number(), right: z.number() })
+    })
+  }).optional(),
   type: z.enum(['manual', 'digital']),
   notes: z.string().optional(),
   imageUrl: z.string().optional(),
+  franchiseId: z.number().int().positive().optional(),
   landmarks: z.object({
     leftEye: z.object({ x: z.number(), y: z.number() }),
     rightEye: z.object({ x: z.number(), y: z.number() }),
     nose: z.object({ x: z.number(), y: z.number() }),
+    pupils: z.object({
+      left: z.object({ x: z.number(), y: z.number(), confidence: z.number() }),
+      right: z.object({ x: z.number(), y: z.number(), confidence: z.number() })
+    }).optional(),
+    pose: z.object({ yaw: z.number(), pitch: z.number(), roll: z.number() }).optional(),
     confidence: z.number()
   }).optional(),
+  calibration: z.object({
+    source: z.enum(['card', 'iris']),
+    mmPerPixel: z.number().positive(),
+    confidence: z.number(),
+    estimatedError: z.number().nonnegative(),
+    cameraDistance: z.number().positive().optional(),
+    reference: z.object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number()
+    }).optional()
+  }).optional(),
+  near: z.object({
+    dp: z.number().min(45).max(80),
+    dpnLeft: z.number().min(20).max(40),
+    dpnRight: z.number().min(20).max(40),
+    workingDistance: z.number().min(250).max(700)
+  }).optional(),
+  // Distância de leitura usada quando a DP de perto não é informada
+  workingDistance: z.number().min(250).max(700).optional(),
+  burst: z.object({
+    framesUsed: z.number().int().positive(),
+    framesTotal: z.number().int().positive(),
+    spread: z.object({
+      dp: z.number().nonnegative(),
+      dpnLeft: z.number().nonnegative(),
+      dpnRight: z.number().nonnegative(),
+      apLeft: z.number().nonnegative(),
+      apRight: z.number().nonnegative()
+    })
+  }).optional(),
+  engine: z.object({
+    name: z.string(),
+    version: z.string()
+  }).optional(),
   quality: z.enum(['high', 'medium', 'low']).optional(),
   confidence: z.number().optional(),
   warnings: z.array(z.string()).optional()
 });
 
+// Medições gravadas diretamente são sempre manuais; as digitais só vêm dos motores de medição
+// Campos de motor, calibração e qualidade são recusados, e a franquia é definida pelo servidor
+const manualMeasurementSchema = measurementSchema
+  .omit({
+    franchiseId: true,
+    landmarks: true,
+    calibration: true,
+    burst: true,
+    engine: true,
+    quality: true,
+    confidence: true,
+    warnings: true
+  })
+  .extend({
+    type: z.literal('manual').default('manual'),
+    imageUrl: z.string().startsWith('data:').optional()
+  })
+  .strict();
+
 // Verificar qualidade da imagem
-router.post('/check-quality', authenticateToken, async (req, res) => {
+router.post('/check-quality', authenticateToken, imageUpload('image'), async (req, res) => {
   try {
     const { image } = req.body;
     
@@ -41,11 +132,22 @@ router.post('/check-quality', authenticateToken, async (req, res) => {
       });
     }
 
-    const qualityCheck = await validateImageQuality(image);
+    // As métricas usam as regiões do rosto e dos olhos da detecção facial;
+    // sem rosto, os olhos e o ângulo ficam reprovados
+    const { dataUrl } = await ingestImage(image);
+    const detection = await detectFacialLandmarks(dataUrl).catch(() => null);
+    const thresholds = await getQualityThresholds(req.user.franchiseId);
+    const qualityCheck = await validateImageQuality(dataUrl, detection?.landmarks, thresholds);
     
     return res.json(qualityCheck);
   } catch (error) {
     console.error('Erro ao verificar qualidade:', error);
+    if (error instanceof InvalidImageError) {
+      return res.status(400).json({ 
+        isGood: false, 
+        message: error.message 
+      });
+    }
     return res.status(500).json({ 
       isGood: false, 
       message: "Erro ao processar imagem" 
@@ -54,7 +156,7 @@ router.post('/check-quality', authenticateToken, async (req, res) => {
 });
 
 // Detectar landmarks faciais
-router.post('/detect-landmarks', authenticateToken, async (req, res) => {
+router.post('/detect-landmarks', authenticateToken, imageUpload('image'), async (req, res) => {
   try {
     const { image } = req.body;
     
@@ -64,11 +166,18 @@ router.post('/detect-landmarks', authenticateToken, async (req, res) => {
       });
     }
 
-    const landmarks = await detectFacialLandmarks(image);
+    // Landmarks nas coordenadas da foto já orientada, as mesmas usadas na análise
+    const { dataUrl } = await ingestImage(image);
+    const landmarks = await detectFacialLandmarks(dataUrl);
     
     return res.json(landmarks);
   } catch (error) {
     console.error('Erro ao detectar landmarks:', error);
+    if (error instanceof InvalidImageError) {
+      return res.status(400).json({ 
+        error: error.message 
+      });
+    }
     return res.status(500).json({ 
       error: "Erro ao detectar pontos faciais" 
     });
@@ -76,9 +185,9 @@ router.post('/detect-landmarks', authenticateToken, async (req, res) => {
 });
 
 // Analisar medições avançadas
-router.post('/analyze-advanced', authenticateToken, async (req, res) => {
+router.post('/analyze-advanced', authenticateToken, imageUpload('image'), async (req, res) => {
   try {
-    const { image, landmarks } = req.body;
+    const { image, landmarks, mode, workingDistance } = req.body;
     
     if (!image || !landmarks) {
       return res.status(400).json({ 
@@ -86,17 +195,84 @@ router.post('/analyze-advanced', authenticateToken, async (req, res) => {
       });
     }
 
-    const measurements = await analyzeMeasurements(image, landmarks);
+    if (mode && mode !== 'face' && mode !== 'frame') {
+      return res.status(400).json({ 
+        error: "Modo de captura inválido" 
+      });
+    }
+
+    const ingested = await ingestImage(image);
+    const measurements = await analyzeMeasurements(ingested.dataUrl, landmarks, {
+      mode,
+      workingDistance,
+      imageMetadata: ingested.metadata,
+      qualityThresholds: await getQualityThresholds(req.user.franchiseId)
+    });
     
     // Validar medições
     const validatedMeasurements = measurementSchema.parse({
       ...measurements,
+      engine: { name: localEngine.name, version: localEngine.version },
       type: 'digital'
     });
 
-    return res.json(validatedMeasurements);
+    // A medição é gravada com os valores calculados aqui, nunca com os enviados pelo cliente,
+    // e fica pendente até a revisão do óptico da franquia
+    const franchiseId = (await resolveReviewFranchise(req.user)) ?? undefined;
+    const { measurement, review } = await createMeasurementWithImage(ingested, imageUrl =>
+      createMeasurementForReview({
+        userId: req.user.id,
+        franchiseId,
+        dp: measurements.dp,
+        dpnLeft: measurements.dpnLeft,
+        dpnRight: measurements.dpnRight,
+        apLeft: measurements.apLeft,
+        apRight: measurements.apRight,
+        apReference: measurements.apReference,
+        frame: measurements.frame,
+        near: measurements.near,
+        calibration: measurements.calibration,
+        quality: measurements.quality,
+        confidence: measurements.confidence,
+        warnings: measurements.warnings,
+        type: 'digital',
+        imageUrl,
+        engineName: localEngine.name,
+        engineVersion: localEngine.version,
+        captureDevice: ingested.metadata.device
+      }, { frame: measurements.frame })
+    );
+
+    return res.json({
+      ...validatedMeasurements,
+      measurementId: measurement.id,
+      review: { status: review.status, franchiseId: review.franchiseId }
+    });
   } catch (error) {
     console.error('Erro na análise avançada:', error);
+    if (error instanceof InvalidImageError) {
+      return res.status(400).json({ 
+        error: error.message
+      });
+    }
+    if (error instanceof HeadPoseError) {
+      return res.status(422).json({ 
+        error: error.message,
+        pose: error.pose,
+        details: error.violations
+      });
+    }
+    if (error instanceof FrameDetectionError) {
+      return res.status(422).json({ 
+        error: error.message
+      });
+    }
+    if (error instanceof CalibrationError) {
+      return res.status(422).json({ 
+        error: error.message,
+        calibration: 'uncalibrated'
+      });
+    }
     if (error instanceof z.ZodError) {
       return res.status(400).json({ 
         error: "Medições fora dos limites aceitáveis",
@@ -109,53 +285,159 @@ router.post('/analyze-advanced', authenticateToken, async (req, res) => {
   }
 });
 
-// Salvar medição
-router.post('/', authenticateToken, async (req, res) => {
-  const client = await pool.connect();
-  
+// Analisar sequência de quadros (burst) e agregar as medições
+router.post('/analyze-burst', authenticateToken, imageUpload('images', { maxFiles: MAX_BURST_FRAMES }), async (req, res) => {
   try {
-    await client.query('BEGIN');
+    const { images, mode, workingDistance } = req.body;
 
-    const validatedData = measurementSchema.parse(req.body);
-    
-    // Se houver imagem, fazer upload para S3
-    let imageUrl = validatedData.imageUrl;
-    if (imageUrl && imageUrl.startsWith('data:')) {
-      const base64Data = imageUrl.split(',')[1];
-      imageUrl = await uploadToS3(base64Data, 'measurements');
-    }
-
-    // Inserir medição no banco
-    const result = await client.query(
-      `INSERT INTO measurements (
-        user_id, dp, dpn_left, dpn_right, ap_left, ap_right,
-        type, notes, image_url, landmarks, quality, confidence, warnings
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
-      RETURNING *`,
-      [
-        req.user.id,
-        validatedData.dp,
-        validatedData.dpnLeft,
-        validatedData.dpnRight,
-        validatedData.apLeft,
-        validatedData.apRight,
-        validatedData.type,
-        validatedData.notes,
+    if (!Array.isArray(images) || images.length < MIN_BURST_FRAMES || images.length > MAX_BURST_FRAMES) {
+      return res.status(400).json({ 
+        error: `Envie entre ${MIN_BURST_FRAMES} e ${MAX_BURST_FRAMES} quadros` 
+      });
+    }
+
+    if (mode && mode !== 'face' && mode !== 'frame') {
+      return res.status(400).json({ 
+        error: "Modo de captura inválido" 
+      });
+    }
+
+    // Quadros normalizados em sequência, como na análise, para limitar o uso de memória
+    const frames = [];
+    for (const image of images) {
+      frames.push(await ingestImage(image));
+    }
+
+    const burst = await analyzeBurst(frames.map(frame => frame.dataUrl), {
+      mode,
+      workingDistance,
+      imageMetadata: frames[0].metadata,
+      qualityThresholds: await getQualityThresholds(req.user.franchiseId)
+    });
+
+    const validatedMeasurements = measurementSchema.parse({
+      dp: burst.dp,
+      dpnLeft: burst.dpnLeft,
+      dpnRight: burst.dpnRight,
+      apLeft: burst.apLeft,
+      apRight: burst.apRight,
+      apReference: burst.apReference,
+      near: burst.near,
+      calibration: burst.calibration,
+      burst: {
+        framesUsed: burst.framesUsed,
+        framesTotal: burst.framesTotal,
+        spread: burst.spread
+      },
+      warnings: burst.warnings,
+      engine: { name: localEngine.name, version: localEngine.version },
+      type: 'digital'
+    });
+
+    // A medição agregada é gravada com a dispersão entre os quadros e fica pendente de revisão;
+    // a foto guardada é o primeiro quadro aproveitado na agregação
+    const discardedIndexes = new Set(burst.discarded.map(frame => frame.index));
+    const storedFrame = frames.find((_, index) => !discardedIndexes.has(index)) ?? frames[0];
+    const franchiseId = (await resolveReviewFranchise(req.user)) ?? undefined;
+    const { measurement, review } = await createMeasurementWithImage(storedFrame, imageUrl =>
+      createMeasurementForReview({
+        userId: req.user.id,
+        franchiseId,
+        dp: burst.dp,
+        dpnLeft: burst.dpnLeft,
+        dpnRight: burst.dpnRight,
+        apLeft: burst.apLeft,
+        apRight: burst.apRight,
+        apReference: burst.apReference,
+        near: burst.near,
+        calibration: burst.calibration,
+        warnings: burst.warnings,
+        framesUsed: burst.framesUsed,
+        dispersion: burst.spread,
+        type: 'digital',
         imageUrl,
-        validatedData.landmarks,
-        validatedData.quality,
-        validatedData.confidence,
-        validatedData.warnings
-      ]
+        engineName: localEngine.name,
+        engineVersion: localEngine.version,
+        captureDevice: storedFrame.metadata.device
+      })
     );
 
-    await client.query('COMMIT');
+    return res.json({
+      ...validatedMeasurements,
+      discarded: burst.discarded,
+      measurementId: measurement.id,
+      review: { status: review.status, franchiseId: review.franchiseId }
+    });
+  } catch (error) {
+    console.error('Erro na análise da sequência:', error);
+    if (error instanceof InvalidImageError) {
+      return res.status(400).json({ 
+        error: error.message
+      });
+    }
+    if (error instanceof BurstError) {
+      return res.status(422).json({ 
+        error: error.message,
+        discarded: error.discarded
+      });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        error: "Medições fora dos limites aceitáveis",
+        details: error.errors
+      });
+    }
+    return res.status(500).json({ 
+      error: "Erro ao analisar sequência de quadros" 
+    });
+  }
+});
+
+// Salvar medição
+router.post('/', authenticateToken, async (req, res) => {
+  try {
+    const validatedData = manualMeasurementSchema.parse(req.body);
+    
+    // Se houver imagem, guardar no armazenamento privado já orientada e sem metadados pessoais
+    const ingested = validatedData.imageUrl ? await ingestImage(validatedData.imageUrl) : null;
+
+    // DP de perto informada pelo óptico prevalece sobre a calculada
+    const near = validatedData.near || calculateNearPd(validatedData, {
+      workingDistance: validatedData.workingDistance
+    });
+
+    const data = {
+      userId: req.user.id,
+      franchiseId: (await resolveReviewFranchise(req.user)) ?? undefined,
+      dp: validatedData.dp,
+      dpnLeft: validatedData.dpnLeft,
+      dpnRight: validatedData.dpnRight,
+      apLeft: validatedData.apLeft,
+      apRight: validatedData.apRight,
+      apReference: validatedData.apReference,
+      frame: validatedData.frame,
+      near,
+      type: validatedData.type,
+      notes: validatedData.notes,
+      captureDevice: ingested?.metadata.device
+    };
+
+    // Valores digitados pelo cliente aguardam a revisão do óptico, como as medições digitais
+    const measurement = await createMeasurementWithImage(ingested, imageUrl =>
+      req.user.role === 'client'
+        ? createMeasurementForReview({ ...data, imageUrl }).then(result => result.measurement)
+        : measurementRepository.create({ ...data, imageUrl })
+    );
     
-    return res.json(result.rows[0]);
+    return res.json(measurement);
   } catch (error) {
-    await client.query('ROLLBACK');
     console.error('Erro ao salvar medição:', error);
     
+    if (error instanceof InvalidImageError) {
+      return res.status(400).json({ 
+        error: error.message
+      });
+    }
     if (error instanceof z.ZodError) {
       return res.status(400).json({ 
         error: "Dados inválidos",
@@ -166,22 +448,14 @@ router.post('/', authenticateToken, async (req, res) => {
     return res.status(500).json({ 
       error: "Erro ao salvar medição" 
     });
-  } finally {
-    client.release();
   }
 });
 
 // Listar medições do usuário
 router.get('/', authenticateToken, async (req, res) => {
   try {
-    const result = await pool.query(
-      `SELECT * FROM measurements 
-       WHERE user_id = $1 
-       ORDER BY created_at DESC`,
-      [req.user.id]
-    );
-    
-    return res.json(result.rows);
+    const measurements = await measurementRepository.listByUser(req.user.id);
+    return res.json(measurements);
   } catch (error) {
     console.error('Erro ao listar medições:', error);
     return res.status(500).json({ 
@@ -190,48 +464,108 @@ router.get('/', authenticateToken, async (req, res) => {
   }
 });
 
-// Excluir medição
-router.delete('/:id', authenticateToken, async (req, res) => {
-  const client = await pool.connect();
-  
+// Buscar medição do usuário; medições de outros usuários aparecem como inexistentes
+async function findOwnMeasurement(id: string, userId: number) {
+  const measurement = await measurementRepository.getById(parseInt(id));
+  return measurement && measurement.userId === userId ? measurement : null;
+}
+
+// Gerar URL temporária da foto da medição
+router.get('/:id/image', authenticateToken, async (req, res) => {
   try {
-    await client.query('BEGIN');
+    const measurement = await findOwnMeasurement(req.params.id, req.user.id);
 
-    // Verificar se a medição pertence ao usuário
-    const checkResult = await client.query(
-      'SELECT image_url FROM measurements WHERE id = $1 AND user_id = $2',
-      [req.params.id, req.user.id]
-    );
+    if (!measurement || !measurement.imageUrl) {
+      return res.status(404).json({ 
+        error: "Imagem não encontrada" 
+      });
+    }
+
+    const signed = await getImageSignedUrl(measurement.imageUrl);
+    if (!signed) {
+      return res.status(409).json({ 
+        error: "Imagem ainda não migrada para o armazenamento privado" 
+      });
+    }
 
-    if (checkResult.rows.length === 0) {
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.json(signed);
+  } catch (error) {
+    console.error('Erro ao gerar URL da imagem:', error);
+    return res.status(500).json({ 
+      error: "Erro ao gerar URL da imagem" 
+    });
+  }
+});
+
+// Renderizar imagem anotada da medição (PNG)
+router.get('/:id/annotated', authenticateToken, async (req, res) => {
+  try {
+    const scale = req.query.scale ? parseFloat(req.query.scale as string) : 1;
+
+    if (!isFinite(scale) || scale < 0.1 || scale > 2) {
+      return res.status(400).json({ 
+        error: "Escala deve estar entre 0.1 e 2" 
+      });
+    }
+
+    const measurement = await findOwnMeasurement(req.params.id, req.user.id);
+
+    if (!measurement) {
       return res.status(404).json({ 
         error: "Medição não encontrada" 
       });
     }
 
-    // Se houver imagem, excluir do S3
-    const measurement = checkResult.rows[0];
-    if (measurement.image_url) {
-      await deleteFromS3(measurement.image_url);
+    if (!measurement.imageUrl || !measurement.landmarks) {
+      return res.status(409).json({ 
+        error: "Medição sem imagem ou pontos faciais para anotar" 
+      });
     }
 
-    // Excluir medição
-    await client.query(
-      'DELETE FROM measurements WHERE id = $1 AND user_id = $2',
-      [req.params.id, req.user.id]
-    );
+    const png = await renderAnnotatedMeasurement({
+      imageUrl: measurement.imageUrl,
+      landmarks: measurement.landmarks,
+      dp: measurement.dp,
+      dpnLeft: measurement.dpnLeft,
+      dpnRight: measurement.dpnRight,
+      apLeft: measurement.apLeft,
+      apRight: measurement.apRight,
+      frame: measurement.frame
+    }, scale);
+
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', `inline; filename="medicao-${req.params.id}.png"`);
+    return res.send(png);
+  } catch (error) {
+    console.error('Erro ao renderizar medição anotada:', error);
+    return res.status(500).json({ 
+      error: "Erro ao gerar imagem anotada" 
+    });
+  }
+});
+
+// Excluir medição
+router.delete('/:id', authenticateToken, async (req, res) => {
+  try {
+    // Verificar se a medição pertence ao usuário
+    const measurement = await findOwnMeasurement(req.params.id, req.user.id);
+
+    if (!measurement) {
+      return res.status(404).json({ 
+        error: "Medição não encontrada" 
+      });
+    }
 
-    await client.query('COMMIT');
+    // Excluir a imagem e depois a medição
+    await deleteMeasurementWithImage(measurement);
     
     return res.json({ success: true });
   } catch (error) {
-    await client.query('ROLLBACK');
     console.error('Erro ao excluir medição:', error);
     return res.status(500).json({ 
       error: "Erro ao excluir medição" 
     });
-  } finally {
-    client.release();
   }
 });
 
@@ -0,0 +1,94 @@
+import { pool as mainPool } from '../../db';
+import { measurementRepository } from '../services/measurementRepository';
+import { getBlobStore, blobKeyFromReference, storeImage } from '../services/blobStore';
+
+// Mover as fotos gravadas como data URL na coluna image_url para o armazenamento privado
+//
+// Uso: tsx src/scripts/migrateInlineImages.ts [--dry-run] [--batch 50]
+//
+// Cada linha é atualizada só se a data URL não mudou durante a cópia; a migração pode ser repetida.
+
+interface MigrationOptions {
+  dryRun: boolean;
+  batchSize: number;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const options: MigrationOptions = { dryRun: false, batchSize: 50 };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') options.dryRun = true;
+    else if (argv[i] === '--batch') options.batchSize = parseInt(argv[++i]);
+    else throw new Error(`Argumento desconhecido: ${argv[i]}`);
+  }
+
+  if (!Number.isInteger(options.batchSize) || options.batchSize < 1) {
+    throw new Error('Tamanho de lote inválido');
+  }
+
+  return options;
+}
+
+export async function migrateInlineImages(options: MigrationOptions) {
+  const report = { migrated: 0, failed: [] as { id: number; error: string }[], bytes: 0 };
+  let afterId = 0;
+
+  while (true) {
+    const rows = await measurementRepository.listInlineImages(afterId, options.batchSize);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      afterId = row.id;
+
+      try {
+        report.bytes += row.imageUrl.length;
+        if (options.dryRun) {
+          report.migrated++;
+          continue;
+        }
+
+        const reference = await storeImage(row.imageUrl, 'measurements');
+        const updated = await measurementRepository.updateImageReference(row.id, reference, row.imageUrl);
+
+        // Linha alterada durante a cópia: descartar o objeto gravado
+        if (!updated) {
+          await getBlobStore().delete(blobKeyFromReference(reference));
+          continue;
+        }
+
+        report.migrated++;
+      } catch (error) {
+        report.failed.push({ id: row.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  return report;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  try {
+    const report = await migrateInlineImages(options);
+
+    console.log(options.dryRun ? 'Simulação da migração de imagens:' : 'Migração de imagens concluída:');
+    console.log(`  ${options.dryRun ? 'A migrar' : 'Migradas'}: ${report.migrated}`);
+    console.log(`  Volume de data URLs: ${(report.bytes / 1024 / 1024).toFixed(1)} MB`);
+
+    if (report.failed.length > 0) {
+      console.warn('Falhas (a migração pode ser repetida):');
+      report.failed.forEach(failure => console.warn(`  medição ${failure.id}: ${failure.error}`));
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Erro na migração de imagens:', error);
+    process.exitCode = 1;
+  } finally {
+    await mainPool.end();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,171 @@
+import { readFileSync } from 'fs';
+import { legacyPool } from '../db';
+import { pool as mainPool } from '../../db';
+import { measurementRepository } from '../services/measurementRepository';
+import { NewMeasurement } from '../types/measurements';
+
+// Copiar as medições da tabela legada (ids UUID) para o repositório único (ids inteiros)
+//
+// Uso: tsx src/scripts/migrateLegacyMeasurements.ts [--dry-run] [--map usuarios.json]
+//
+// Os usuários são associados pelo email; --map aceita um JSON { "<uuid legado>": <id novo> }
+// que prevalece sobre o email. A migração pode ser repetida: linhas já copiadas são ignoradas.
+
+interface MigrationOptions {
+  dryRun: boolean;
+  mapFile?: string;
+}
+
+interface MigrationReport {
+  total: number;
+  migrated: number;
+  alreadyMigrated: number;
+  unmappedUsers: string[];
+  skippedRows: number;
+}
+
+function parseArgs(argv: string[]): MigrationOptions {
+  const options: MigrationOptions = { dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--dry-run') options.dryRun = true;
+    else if (argv[i] === '--map') options.mapFile = argv[++i];
+    else throw new Error(`Argumento desconhecido: ${argv[i]}`);
+  }
+
+  return options;
+}
+
+// Montar o mapa UUID legado -> id inteiro, pelo email e pelo arquivo de mapeamento
+async function buildUserMap(mapFile?: string): Promise<Map<string, number>> {
+  const legacyUsers = await legacyPool.query('SELECT id, email FROM users');
+  const mainUsers = await mainPool.query('SELECT id, email FROM users');
+
+  const idsByEmail = new Map<string, number>(
+    mainUsers.rows
+      .filter((user: any) => user.email)
+      .map((user: any) => [String(user.email).toLowerCase(), user.id])
+  );
+
+  const userMap = new Map<string, number>();
+  for (const user of legacyUsers.rows) {
+    const id = user.email ? idsByEmail.get(String(user.email).toLowerCase()) : undefined;
+    if (id !== undefined) userMap.set(user.id, id);
+  }
+
+  if (mapFile) {
+    const explicit = JSON.parse(readFileSync(mapFile, 'utf8')) as Record<string, number>;
+    for (const [legacyId, id] of Object.entries(explicit)) {
+      userMap.set(legacyId, Number(id));
+    }
+  }
+
+  return userMap;
+}
+
+// Converter uma linha legada para o formato do repositório
+function legacyRowToMeasurement(row: any, userId: number): NewMeasurement {
+  const optionalNumber = (value: unknown) =>
+    value === null || value === undefined ? undefined : Number(value);
+
+  return {
+    userId,
+    dp: Number(row.dp),
+    dpnLeft: Number(row.dpn_left),
+    dpnRight: Number(row.dpn_right),
+    apLeft: Number(row.ap_left),
+    apRight: Number(row.ap_right),
+    apReference: row.ap_reference ?? 'nose',
+    frame: row.frame_fitting ?? undefined,
+    near: row.dp_near !== null && row.dp_near !== undefined
+      ? {
+          dp: Number(row.dp_near),
+          dpnLeft: Number(row.dpn_left_near),
+          dpnRight: Number(row.dpn_right_near),
+          workingDistance: Number(row.working_distance)
+        }
+      : undefined,
+    type: row.type,
+    notes: row.notes ?? undefined,
+    imageUrl: row.image_url ?? undefined,
+    landmarks: row.landmarks ?? undefined,
+    calibration: row.calibration ?? undefined,
+    framesUsed: row.frames_used ?? undefined,
+    dispersion: row.dispersion ?? undefined,
+    quality: row.quality ?? undefined,
+    confidence: optionalNumber(row.confidence),
+    warnings: row.warnings ?? undefined,
+    engineName: row.engine_name ?? undefined,
+    engineVersion: row.engine_version ?? undefined
+  };
+}
+
+export async function migrateLegacyMeasurements(options: MigrationOptions): Promise<MigrationReport> {
+  const userMap = await buildUserMap(options.mapFile);
+  const legacyRows = await legacyPool.query('SELECT * FROM measurements ORDER BY created_at ASC');
+
+  const report: MigrationReport = {
+    total: legacyRows.rows.length,
+    migrated: 0,
+    alreadyMigrated: 0,
+    unmappedUsers: [],
+    skippedRows: 0
+  };
+  const unmapped = new Set<string>();
+
+  for (const row of legacyRows.rows) {
+    const userId = userMap.get(row.user_id);
+
+    if (userId === undefined) {
+      unmapped.add(row.user_id);
+      report.skippedRows++;
+      continue;
+    }
+
+    if (options.dryRun) {
+      report.migrated++;
+      continue;
+    }
+
+    const imported = await measurementRepository.importLegacy(
+      row.id,
+      legacyRowToMeasurement(row, userId),
+      { createdAt: row.created_at, updatedAt: row.updated_at ?? row.created_at }
+    );
+
+    if (imported) report.migrated++;
+    else report.alreadyMigrated++;
+  }
+
+  report.unmappedUsers = [...unmapped];
+  return report;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  try {
+    const report = await migrateLegacyMeasurements(options);
+
+    console.log(options.dryRun ? 'Simulação da migração de medições:' : 'Migração de medições concluída:');
+    console.log(`  Linhas legadas: ${report.total}`);
+    console.log(`  ${options.dryRun ? 'A migrar' : 'Migradas'}: ${report.migrated}`);
+    console.log(`  Já migradas anteriormente: ${report.alreadyMigrated}`);
+    console.log(`  Ignoradas por usuário sem correspondência: ${report.skippedRows}`);
+
+    if (report.unmappedUsers.length > 0) {
+      console.warn('Usuários legados sem correspondência (use --map para associá-los):');
+      report.unmappedUsers.forEach(id => console.warn(`  ${id}`));
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Erro na migração de medições:', error);
+    process.exitCode = 1;
+  } finally {
+    await Promise.all([legacyPool.end(), mainPool.end()]);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,38 @@
+import { pool } from '../db';
+import { purgeExpiredImages } from '../services/imageLifecycleService';
+
+// Executar a limpeza de imagens vencidas fora do servidor (cron, job agendado)
+//
+// Uso: tsx src/scripts/purgeExpiredImages.ts [--dry-run]
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  try {
+    const report = await purgeExpiredImages({ trigger: 'scheduled', dryRun });
+
+    if (!report) {
+      console.log('Outra limpeza já está em execução; nada a fazer');
+      return;
+    }
+
+    console.log(`Limpeza ${report.id}${dryRun ? ' (simulação)' : ''}:`);
+    console.log(`  Removidas: ${report.removedCount}`);
+    console.log(`  Falhas: ${report.failedCount}`);
+
+    if (report.error || report.failedCount > 0) {
+      report.failures.forEach(failure => console.warn(`  medição ${failure.measurementId}: ${failure.error}`));
+      if (report.error) console.error(`  Erro: ${report.error}`);
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Erro na limpeza de imagens:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import { localDriver } from './localDriver';
+import { s3Driver } from './s3Driver';
+import { BlobStore } from './types';
+
+export * from './types';
+export { verifyLocalSignature } from './localDriver';
+
+// Drivers disponíveis, escolhidos pela variável BLOB_STORE_DRIVER ('local' ou 's3')
+const drivers: Record<string, BlobStore> = {
+  [localDriver.name]: localDriver,
+  [s3Driver.name]: s3Driver
+};
+
+// Validade das URLs assinadas entregues aos clientes, em segundos
+export const SIGNED_URL_TTL_SECONDS = parseInt(process.env.BLOB_SIGNED_URL_TTL_SECONDS || '300');
+
+// Referências gravadas no banco têm o formato blob:<chave>, independentes do driver
+const BLOB_REFERENCE_PREFIX = 'blob:';
+
+let blobStore: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (blobStore) return blobStore;
+
+  const name = process.env.BLOB_STORE_DRIVER || (process.env.AWS_S3_BUCKET ? 's3' : 'local');
+  const driver = drivers[name];
+  if (!driver) {
+    throw new Error(`Driver de armazenamento desconhecido: ${name}`);
+  }
+
+  blobStore = driver;
+  return driver;
+}
+
+export function isBlobReference(value: string | null | undefined): value is string {
+  return Boolean(value && value.startsWith(BLOB_REFERENCE_PREFIX));
+}
+
+export function blobKeyFromReference(reference: string): string {
+  return reference.slice(BLOB_REFERENCE_PREFIX.length);
+}
+
+// Extensões aceitas para imagens de medição
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/heif': 'heif'
+};
+
+// Separar o conteúdo de uma data URL (ou base64 puro, tratado como JPEG)
+export function parseImageData(data: string): { buffer: Buffer; contentType: string } {
+  const match = data.match(/^data:([\w/+.-]+);base64,(.*)$/s);
+  const contentType = match ? match[1] : 'image/jpeg';
+
+  if (!IMAGE_EXTENSIONS[contentType]) {
+    throw new Error(`Tipo de imagem não suportado: ${contentType}`);
+  }
+
+  return { buffer: Buffer.from(match ? match[2] : data, 'base64'), contentType };
+}
+
+// Gravar uma imagem no armazenamento privado e devolver a referência para o banco
+export async function storeImage(
+  image: string | Buffer,
+  folder: string,
+  contentType = 'image/jpeg'
+): Promise<string> {
+  const parsed = typeof image === 'string' ? parseImageData(image) : { buffer: image, contentType };
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const key = `${folder}/${now.getUTCFullYear()}/${month}/${crypto.randomUUID()}.${IMAGE_EXTENSIONS[parsed.contentType] ?? 'bin'}`;
+
+  await getBlobStore().put(key, parsed.buffer, parsed.contentType);
+  return `${BLOB_REFERENCE_PREFIX}${key}`;
+}
+
+// Ler uma imagem para processamento no servidor (anotação, PDF)
+// Referências do armazenamento viram Buffer; data URLs e URLs externas passam direto
+export async function readImage(reference: string): Promise<Buffer | string> {
+  if (!isBlobReference(reference)) return reference;
+
+  const data = await getBlobStore().get(blobKeyFromReference(reference));
+  if (!data) {
+    throw new Error('Imagem não encontrada no armazenamento');
+  }
+  return data;
+}
+
+// Extrair a chave de uma URL pública do S3 gravada antes do armazenamento privado
+function legacyS3Key(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname.endsWith('.amazonaws.com') && parsed.pathname.length > 1
+      ? decodeURIComponent(parsed.pathname.substring(1))
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Excluir a imagem apontada por uma referência gravada no banco
+// Aceita referências do armazenamento e URLs públicas antigas do S3; data URLs não têm arquivo
+// Excluir um objeto inexistente não é erro, para que a exclusão possa ser repetida
+export async function deleteImage(reference: string): Promise<void> {
+  if (isBlobReference(reference)) {
+    await getBlobStore().delete(blobKeyFromReference(reference));
+    return;
+  }
+
+  const key = legacyS3Key(reference);
+  if (key) {
+    await s3Driver.delete(key);
+  }
+}
+
+// Gerar URL temporária para uma referência do armazenamento
+export async function getImageSignedUrl(
+  reference: string,
+  expiresIn = SIGNED_URL_TTL_SECONDS
+): Promise<{ url: string; expiresAt: Date } | null> {
+  if (!isBlobReference(reference)) return null;
+
+  const url = await getBlobStore().getSignedUrl(blobKeyFromReference(reference), expiresIn);
+  return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) };
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { BlobObject, BlobStore } from './types';
+
+// Driver local: arquivos em disco, servidos pela rota /api/blobs com assinatura HMAC
+const rootDir = path.resolve(process.env.BLOB_LOCAL_DIR || 'data/blobs');
+const publicBaseUrl = process.env.BLOB_PUBLIC_BASE_URL || '';
+
+function signingSecret(): string {
+  const secret = process.env.BLOB_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('BLOB_SIGNING_SECRET não configurado');
+  }
+  return secret;
+}
+
+// Resolver o caminho do objeto sem permitir sair do diretório raiz
+function resolveKey(key: string): string {
+  const filePath = path.resolve(rootDir, key);
+  if (!filePath.startsWith(rootDir + path.sep)) {
+    throw new Error(`Chave de objeto inválida: ${key}`);
+  }
+  return filePath;
+}
+
+function sign(key: string, expires: number): string {
+  return crypto.createHmac('sha256', signingSecret()).update(`${key}:${expires}`).digest('hex');
+}
+
+// Verificar assinatura e validade de uma URL gerada por getSignedUrl
+export function verifyLocalSignature(key: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(sign(key, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = await Promise.all(entries.map(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(fullPath) : Promise.resolve([fullPath]);
+  }));
+  return files.flat();
+}
+
+export const localDriver: BlobStore = {
+  name: 'local',
+
+  async put(key, data) {
+    const filePath = resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, { mode: 0o600 });
+  },
+
+  async get(key) {
+    try {
+      return await fs.readFile(resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await fs.rm(resolveKey(key), { force: true });
+  },
+
+  async exists(key) {
+    try {
+      await fs.access(resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async list(prefix) {
+    const files = await walk(rootDir);
+    const objects: BlobObject[] = [];
+
+    for (const filePath of files) {
+      const key = path.relative(rootDir, filePath).split(path.sep).join('/');
+      if (!key.startsWith(prefix)) continue;
+
+      const stats = await fs.stat(filePath);
+      objects.push({ key, size: stats.size, lastModified: stats.mtime });
+    }
+
+    return objects;
+  },
+
+  async getSignedUrl(key, expiresIn) {
+    resolveKey(key);
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const signature = sign(key, expires);
+    return `${publicBaseUrl}/api/blobs/${key.split('/').map(encodeURIComponent).join('/')}?expires=${expires}&signature=${signature}`;
+  }
+};
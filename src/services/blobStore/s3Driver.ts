@@ -0,0 +1,95 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { BlobObject, BlobStore } from './types';
+
+// Driver S3 (ou compatível, via BLOB_S3_ENDPOINT); objetos sempre privados
+const s3Client = new S3Client({
+  region: process.env.AWS_REGION,
+  endpoint: process.env.BLOB_S3_ENDPOINT || undefined,
+  forcePathStyle: Boolean(process.env.BLOB_S3_ENDPOINT),
+  credentials: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || ''
+  }
+});
+
+const bucketName = process.env.AWS_S3_BUCKET || '';
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey');
+}
+
+export const s3Driver: BlobStore = {
+  name: 's3',
+
+  async put(key, data, contentType) {
+    await s3Client.send(new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: data,
+      ContentType: contentType
+    }));
+  },
+
+  async get(key) {
+    try {
+      const response = await s3Client.send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+  },
+
+  async exists(key) {
+    try {
+      await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  },
+
+  async list(prefix) {
+    const objects: BlobObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await s3Client.send(new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken
+      }));
+
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        objects.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0)
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  },
+
+  async getSignedUrl(key, expiresIn) {
+    return getSignedUrl(s3Client, new GetObjectCommand({ Bucket: bucketName, Key: key }), { expiresIn });
+  }
+};
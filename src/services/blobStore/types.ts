@@ -0,0 +1,18 @@
+// Objeto listado no armazenamento
+export interface BlobObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Contrato de um driver de armazenamento de arquivos privados
+export interface BlobStore {
+  name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  list(prefix: string): Promise<BlobObject[]>;
+  // URL temporária para leitura direta do objeto, válida por expiresIn segundos
+  getSignedUrl(key: string, expiresIn: number): Promise<string>;
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import * as faceapi from 'face-api.js';
+import { pool } from '../db';
+import { canvas } from '../utils/faceDetection';
+import { estimateHeadPose, checkHeadPose, HeadPoseLimits, DEFAULT_HEAD_POSE_LIMITS } from '../utils/headPose';
+import { clampRegion, toGrayscale } from '../utils/calibration';
+import { detectImageFormat } from '../utils/exif';
+import { eyeAspectRatio, exposureStats } from '../utils/imageQuality';
+import { loadModels } from './measurementService';
+import { QualityThresholds } from '../types/measurements';
+import { CaptureReadySignal, GuidanceChecks, GuidanceFeedback } from '../types/guidance';
+
+// Quadros consecutivos aprovados para liberar a captura
+export const READY_STREAK_FRAMES = parseInt(process.env.CAPTURE_GUIDANCE_READY_FRAMES || '5');
+
+// Validade do sinal de "pronto para capturar", em segundos
+const READY_TOKEN_TTL_SECONDS = parseInt(process.env.CAPTURE_GUIDANCE_READY_TTL_SECONDS || '120');
+
+// Com true, a medição só é aceita após uma sessão de orientação concluída
+export const CAPTURE_GUIDANCE_REQUIRED = process.env.CAPTURE_GUIDANCE_REQUIRED === 'true';
+
+// Largura do rosto aceita, como fração da largura do quadro
+const MIN_FACE_WIDTH_RATIO = 0.3;
+const MAX_FACE_WIDTH_RATIO = 0.6;
+
+// Deslocamento máximo do centro do rosto em relação ao centro do quadro
+const MAX_CENTER_OFFSET = 0.12;
+
+// Quadros de orientação são pequenos: entrada menor no detector responde mais rápido
+const guidanceDetectionOptions = new faceapi.TinyFaceDetectorOptions({
+  inputSize: 224,
+  scoreThreshold: 0.5
+});
+
+// Analisar um quadro de baixa resolução com o detector local
+export async function analyzeGuidanceFrame(
+  frame: Buffer,
+  thresholds: QualityThresholds,
+  poseLimits: HeadPoseLimits = DEFAULT_HEAD_POSE_LIMITS
+): Promise<Pick<GuidanceFeedback, 'faceDetected' | 'checks' | 'ok' | 'messages'>> {
+  if (!detectImageFormat(frame)) {
+    throw new Error('Quadro em formato não suportado');
+  }
+
+  await loadModels();
+
+  const image = await canvas.loadImage(frame);
+  const detection = await faceapi
+    .detectSingleFace(image, guidanceDetectionOptions)
+    .withFaceLandmarks();
+
+  if (!detection) {
+    return {
+      faceDetected: false,
+      checks: null,
+      ok: false,
+      messages: ['Rosto não encontrado. Posicione o rosto dentro da moldura.']
+    };
+  }
+
+  const box = detection.detection.box;
+  const width = image.width;
+  const height = image.height;
+
+  // Distância: o rosto deve ocupar uma faixa da largura do quadro
+  const widthRatio = box.width / width;
+  const distance = {
+    ok: widthRatio >= MIN_FACE_WIDTH_RATIO && widthRatio <= MAX_FACE_WIDTH_RATIO,
+    value: widthRatio,
+    hint: widthRatio < MIN_FACE_WIDTH_RATIO
+      ? 'Aproxime o rosto da câmera.'
+      : widthRatio > MAX_FACE_WIDTH_RATIO
+        ? 'Afaste o rosto da câmera.'
+        : undefined
+  };
+
+  // Centralização: deslocamento do centro do rosto, na fração do quadro
+  const offsetX = (box.x + box.width / 2) / width - 0.5;
+  const offsetY = (box.y + box.height / 2) / height - 0.5;
+  const offset = Math.max(Math.abs(offsetX), Math.abs(offsetY));
+  const centering = {
+    ok: offset <= MAX_CENTER_OFFSET,
+    value: offset,
+    hint: offset <= MAX_CENTER_OFFSET
+      ? undefined
+      : Math.abs(offsetX) >= Math.abs(offsetY)
+        ? `Mova o rosto para a ${offsetX > 0 ? 'esquerda' : 'direita'} da tela.`
+        : `Mova o rosto para ${offsetY > 0 ? 'cima' : 'baixo'}.`
+  };
+
+  // Inclinação: mesmos limites de pose da medição
+  const pose = estimateHeadPose(detection.landmarks.positions);
+  const violations = pose ? checkHeadPose(pose, poseLimits) : [];
+  const tilt = {
+    ok: Boolean(pose) && violations.length === 0,
+    value: pose ? Math.max(Math.abs(pose.yaw), Math.abs(pose.pitch), Math.abs(pose.roll)) : 0,
+    hint: !pose
+      ? 'Olhe de frente para a câmera.'
+      : violations.length > 0
+        ? 'Mantenha a cabeça reta e olhe diretamente para a câmera.'
+        : undefined
+  };
+
+  // Olhos abertos: razão de aspecto do contorno de cada olho
+  const openness = Math.min(
+    eyeAspectRatio(detection.landmarks.getLeftEye()),
+    eyeAspectRatio(detection.landmarks.getRightEye())
+  );
+  const eyesOpen = {
+    ok: openness >= thresholds.minEyeOpenness,
+    value: openness,
+    hint: openness >= thresholds.minEyeOpenness ? undefined : 'Mantenha os olhos bem abertos.'
+  };
+
+  // Iluminação: exposição medida só no rosto
+  const region = clampRegion(
+    {
+      x: Math.round(box.x),
+      y: Math.round(box.y),
+      width: Math.round(box.width),
+      height: Math.round(box.height)
+    },
+    width,
+    height
+  );
+  const pixels = canvas.createCanvas(width, height);
+  const ctx = pixels.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const stats = region.width > 0 && region.height > 0
+    ? exposureStats(toGrayscale(
+        ctx.getImageData(region.x, region.y, region.width, region.height).data,
+        region.width,
+        region.height
+      ))
+    : { mean: 0, darkClipping: 0, brightClipping: 0 };
+  const lightingOk =
+    stats.mean >= thresholds.minExposure &&
+    stats.mean <= thresholds.maxExposure &&
+    stats.darkClipping + stats.brightClipping <= thresholds.maxClipping;
+  const lighting = {
+    ok: lightingOk,
+    value: stats.mean,
+    hint: lightingOk
+      ? undefined
+      : stats.mean < 0.5
+        ? 'Procure um local mais iluminado, com a luz à sua frente.'
+        : 'Há luz demais no rosto. Evite luz direta ou o flash.'
+  };
+
+  const checks: GuidanceChecks = { distance, centering, tilt, eyesOpen, lighting };
+  const failed = Object.values(checks).filter(check => !check.ok);
+
+  return {
+    faceDetected: true,
+    checks,
+    ok: failed.length === 0,
+    messages: failed.map(check => check.hint).filter((hint): hint is string => Boolean(hint))
+  };
+}
+
+function guidanceSecret(): string {
+  const secret = process.env.CAPTURE_GUIDANCE_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('CAPTURE_GUIDANCE_SECRET não configurado');
+  }
+  return secret;
+}
+
+function signReady(userId: number, expires: number): string {
+  return crypto.createHmac('sha256', guidanceSecret()).update(`capture-ready:${userId}:${expires}`).digest('hex');
+}
+
+// Emitir o sinal de "pronto para capturar" de um usuário
+// O token é assinado para valer em qualquer instância; o uso é registrado no banco
+export function issueCaptureReadySignal(userId: number): CaptureReadySignal {
+  const expires = Math.floor(Date.now() / 1000) + READY_TOKEN_TTL_SECONDS;
+  return {
+    token: `${expires}.${signReady(userId, expires)}`,
+    expiresAt: new Date(expires * 1000)
+  };
+}
+
+// Usar o sinal de captura: válido apenas se foi emitido para o usuário, não expirou e não foi usado
+// A assinatura usada fica registrada até expirar, então cada sinal libera uma única medição
+export async function consumeCaptureReadyToken(token: string, userId: number): Promise<boolean> {
+  const [expiresPart, signature] = token.split('.');
+  const expires = parseInt(expiresPart);
+  if (!signature || !Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signReady(userId, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return false;
+
+  await pool.query('DELETE FROM capture_ready_tokens WHERE expires_at < CURRENT_TIMESTAMP');
+  const result = await pool.query(
+    `INSERT INTO capture_ready_tokens (signature, expires_at)
+     VALUES ($1, to_timestamp($2))
+     ON CONFLICT (signature) DO NOTHING`,
+    [signature, expires]
+  );
+
+  return result.rowCount === 1;
+}
+
+// Liberar um sinal consumido quando a medição não chegou a ser salva
+// O sinal volta a valer até expirar, e o cliente não precisa refazer o posicionamento
+export async function releaseCaptureReadyToken(token: string): Promise<void> {
+  const [, signature] = token.split('.');
+  if (!signature) return;
+
+  await pool.query('DELETE FROM capture_ready_tokens WHERE signature = $1', [signature]);
+}
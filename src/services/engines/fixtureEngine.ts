@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { calculateNearPd } from '../../utils/measurementCalculations';
+import { MeasurementEngine } from './types';
+
+// Motor determinístico para testes e uso offline
+// A mesma imagem sempre produz os mesmos valores, dentro de faixas adultas típicas
+export const fixtureEngine: MeasurementEngine = {
+  name: 'fixture',
+  version: '1.0.0',
+
+  async measure(imageData, options = {}) {
+    const digest = createHash('sha256').update(imageData).digest();
+
+    // Cada byte do hash desloca uma medida em até ±2mm em torno do valor médio
+    const offset = (index: number) => (digest[index] / 255) * 4 - 2;
+
+    const dpnLeft = round(31 + offset(0));
+    const dpnRight = round(31 + offset(1));
+    const values = {
+      dp: round(dpnLeft + dpnRight),
+      dpnLeft,
+      dpnRight,
+      apLeft: round(24 + offset(2)),
+      apRight: round(24 + offset(3))
+    };
+
+    return {
+      ...values,
+      near: calculateNearPd(values, { workingDistance: options.workingDistance }),
+      confidence: 1,
+      warnings: []
+    };
+  }
+};
+
+// Arredondar para uma casa decimal
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
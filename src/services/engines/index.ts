@@ -0,0 +1,125 @@
+import { CalibrationError } from '../../utils/calibration';
+import { HeadPoseError } from '../../utils/headPose';
+import { FrameDetectionError } from '../../utils/frameDetection';
+import { FacialMeasurementError } from '../../../lib/openai';
+import { MeasurementAnalysisOptions } from '../measurementService';
+import { getQualityThresholds } from '../qualitySettingsService';
+import { localEngine } from './localEngine';
+import { openaiEngine } from './openaiEngine';
+import { fixtureEngine } from './fixtureEngine';
+import { MeasurementEngine, MeasurementEngineInfo, MeasurementEngineResult } from './types';
+
+export * from './types';
+
+// Motores disponíveis, indexados pelo nome usado na configuração
+// O motor de fixtures não mede nada de fato e fica fora da produção
+const engines: Record<string, MeasurementEngine> = {
+  [localEngine.name]: localEngine,
+  [openaiEngine.name]: openaiEngine,
+  ...(process.env.NODE_ENV !== 'production' && { [fixtureEngine.name]: fixtureEngine })
+};
+
+// Ordem padrão: motor principal seguido dos substitutos
+const DEFAULT_ENGINE_ORDER = ['local', 'openai'];
+
+// Configuração por franquia, em JSON na variável MEASUREMENT_ENGINES:
+// { "default": ["local", "openai"], "franchises": { "12": ["openai", "local"] } }
+interface EngineConfig {
+  default: string[];
+  franchises: Record<string, string[]>;
+}
+
+let engineConfig: EngineConfig | null = null;
+
+function loadEngineConfig(): EngineConfig {
+  if (engineConfig) return engineConfig;
+
+  const config: EngineConfig = { default: DEFAULT_ENGINE_ORDER, franchises: {} };
+
+  if (process.env.MEASUREMENT_ENGINES) {
+    try {
+      const parsed = JSON.parse(process.env.MEASUREMENT_ENGINES);
+      if (Array.isArray(parsed.default)) config.default = parsed.default;
+      if (parsed.franchises && typeof parsed.franchises === 'object') config.franchises = parsed.franchises;
+    } catch (error) {
+      console.error('Configuração MEASUREMENT_ENGINES inválida, usando ordem padrão:', error);
+    }
+  }
+
+  engineConfig = config;
+  return config;
+}
+
+// Falha registrada de um motor durante a medição
+export interface EngineAttempt {
+  engine: string;
+  error: string;
+  reason?: string;
+}
+
+// Erro lançado quando nenhum motor da ordem configurada produziu medição
+export class EngineUnavailableError extends Error {
+  constructor(public attempts: EngineAttempt[]) {
+    super('Nenhum motor de medição conseguiu analisar a imagem');
+    this.name = 'EngineUnavailableError';
+    Object.setPrototypeOf(this, EngineUnavailableError.prototype);
+  }
+}
+
+// Obter um motor pelo nome
+export function getEngine(name: string): MeasurementEngine | undefined {
+  return engines[name];
+}
+
+// Ordem de motores de uma franquia (principal primeiro), ignorando nomes desconhecidos
+export function getEngineOrder(franchiseId?: number | null): MeasurementEngine[] {
+  const config = loadEngineConfig();
+  const names = (franchiseId != null && config.franchises[String(franchiseId)]) || config.default;
+
+  return names
+    .map(name => engines[name])
+    .filter((engine): engine is MeasurementEngine => Boolean(engine));
+}
+
+// Medir com o motor principal da franquia, recorrendo aos substitutos em caso de falha
+// Problemas de captura (pose, calibração, armação) são devolvidos ao usuário
+// em vez de passar para o próximo motor, pois repetir a foto resolve
+export async function measureWithEngines(
+  imageData: string,
+  options: MeasurementAnalysisOptions & { franchiseId?: number | null } = {}
+): Promise<MeasurementEngineResult & { engine: MeasurementEngineInfo }> {
+  const { franchiseId, ...analysisOptions } = options;
+  const attempts: EngineAttempt[] = [];
+
+  // Limites de qualidade da franquia, quando o chamador não os informou
+  if (!analysisOptions.qualityThresholds) {
+    analysisOptions.qualityThresholds = await getQualityThresholds(franchiseId);
+  }
+
+  for (const engine of getEngineOrder(franchiseId)) {
+    try {
+      const result = await engine.measure(imageData, analysisOptions);
+      return {
+        ...result,
+        engine: { name: engine.name, version: engine.version }
+      };
+    } catch (error) {
+      if (
+        error instanceof HeadPoseError ||
+        error instanceof CalibrationError ||
+        error instanceof FrameDetectionError
+      ) {
+        throw error;
+      }
+
+      console.error(`Falha no motor de medição ${engine.name}:`, error);
+      attempts.push({
+        engine: engine.name,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+        reason: error instanceof FacialMeasurementError ? error.reason : undefined
+      });
+    }
+  }
+
+  throw new EngineUnavailableError(attempts);
+}
@@ -0,0 +1,18 @@
+import { detectFacialLandmarks, analyzeMeasurements } from '../measurementService';
+import { MeasurementEngine } from './types';
+
+// Motor local: landmarks do face-api.js e geometria calibrada
+export const localEngine: MeasurementEngine = {
+  name: 'local',
+  version: '2.0.0',
+
+  async measure(imageData, options = {}) {
+    const { landmarks, confidence } = await detectFacialLandmarks(imageData);
+    const result = await analyzeMeasurements(imageData, { ...landmarks, confidence }, options);
+
+    return {
+      ...result,
+      landmarks: { ...landmarks, confidence }
+    };
+  }
+};
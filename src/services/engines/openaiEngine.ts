@@ -0,0 +1,23 @@
+import { analyzeFacialMeasurements, VISION_MODEL } from '../../../lib/openai';
+import { calculateNearPd } from '../../utils/measurementCalculations';
+import { MeasurementEngine } from './types';
+
+// Motor remoto: estimativa pelo modelo de visão da OpenAI
+// Não há calibração de escala nem landmarks; a AP é estimada pelo modelo
+export const openaiEngine: MeasurementEngine = {
+  name: 'openai',
+  version: VISION_MODEL,
+
+  async measure(imageData, options = {}) {
+    // Separa o tipo da imagem do conteúdo em base64, quando vier como data URL
+    const prefix = imageData.match(/^data:(image\/[\w.+-]+);base64,/);
+    const base64Image = prefix ? imageData.slice(prefix[0].length) : imageData;
+    const result = await analyzeFacialMeasurements(base64Image, { contentType: prefix?.[1] });
+
+    return {
+      ...result,
+      near: calculateNearPd(result, { workingDistance: options.workingDistance }),
+      warnings: ['Medição estimada por IA, sem referência de escala na imagem.']
+    };
+  }
+};
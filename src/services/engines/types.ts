@@ -0,0 +1,35 @@
+import {
+  ApReference,
+  Calibration,
+  FacialLandmarks,
+  FrameFitting,
+  HeadPose,
+  MeasurementQuality,
+  MeasurementValues,
+  NearPd
+} from '../../types/measurements';
+import { MeasurementAnalysisOptions } from '../measurementService';
+
+// Resultado comum a todos os motores de medição
+export interface MeasurementEngineResult extends MeasurementValues {
+  confidence: number;
+  warnings: string[];
+  near: NearPd;
+  apReference?: ApReference;
+  frame?: FrameFitting;
+  calibration?: Calibration;
+  pose?: HeadPose;
+  quality?: MeasurementQuality;
+  landmarks?: FacialLandmarks;
+}
+
+// Identificação do motor que produziu uma medição
+export interface MeasurementEngineInfo {
+  name: string;
+  version: string;
+}
+
+// Contrato de um motor de medição
+export interface MeasurementEngine extends MeasurementEngineInfo {
+  measure(imageData: string, options?: MeasurementAnalysisOptions): Promise<MeasurementEngineResult>;
+}
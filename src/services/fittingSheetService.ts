@@ -0,0 +1,324 @@
+import PDFDocument from 'pdfkit';
+import { measurementRepository } from './measurementRepository';
+import { getReview, requireApprovedMeasurement } from './measurementReviewService';
+import { getPrescription, getPrescriptionsByCustomer } from './prescriptionService';
+import { getFrameSpec } from './frameCatalogService';
+import { getProduct } from '../../storage';
+import { renderAnnotatedMeasurement } from '../utils/annotation';
+import { isPrescriptionExpired } from '../utils/prescription';
+import { FacialLandmarks, FrameFitting, StoredMeasurement } from '../types/measurements';
+import { EyeRefraction, Prescription, PrismBase } from '../types/prescriptions';
+import { FrameSpec } from '../types/frames';
+import { LabJob } from '../types/labJobs';
+
+// Escala da imagem anotada embutida no PDF: suficiente para impressão sem inflar o arquivo
+const ANNOTATED_IMAGE_SCALE = 0.6;
+
+// Layout da página A4, em pontos
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+const RIM_TYPE_LABELS: Record<FrameSpec['rimType'], string> = {
+  full: 'Aro fechado',
+  semi: 'Fio de nylon',
+  rimless: 'Parafusada'
+};
+
+const PRISM_BASE_LABELS: Record<PrismBase, string> = {
+  up: 'Superior',
+  down: 'Inferior',
+  in: 'Nasal',
+  out: 'Temporal'
+};
+
+// Erro nos dados da ficha, com o status HTTP correspondente
+export class FittingSheetError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'FittingSheetError';
+    Object.setPrototypeOf(this, FittingSheetError.prototype);
+  }
+}
+
+// Cabeçalho da ficha: franquia e cliente
+export interface FittingSheetHeader {
+  franchise: {
+    name: string;
+    city?: string | null;
+    state?: string | null;
+    email?: string | null;
+  };
+  customer: {
+    fullName: string;
+    email?: string | null;
+  };
+}
+
+// Dados técnicos reunidos para a ficha
+export interface FittingSheetContent {
+  measurement: StoredMeasurement; // Com os valores vigentes após a revisão
+  landmarks: FacialLandmarks | null;
+  frameFitting: FrameFitting | null;
+  prescription: Prescription;
+  frameSpec: FrameSpec | null;
+}
+
+// Reunir medição aprovada, receita e armação de um cliente
+// Sem receita indicada, usa a mais recente do cliente na franquia
+// A receita precisa estar válida na criação do serviço (ou agora, para um serviço novo)
+export async function loadFittingSheetContent(params: {
+  franchiseId: number;
+  customerId: number;
+  measurementId: number;
+  prescriptionId?: number | null;
+  productId?: number | null;
+  createdAt?: Date;
+}): Promise<FittingSheetContent> {
+  const stored = await measurementRepository.getById(params.measurementId);
+  if (!stored || stored.userId !== params.customerId) {
+    throw new FittingSheetError(404, 'Medição não encontrada');
+  }
+
+  // Lança MeasurementNotApprovedError para medições digitais não aprovadas
+  const measurement = await requireApprovedMeasurement(stored);
+  const review = await getReview(stored.id);
+
+  const prescription = params.prescriptionId
+    ? await getPrescription(params.prescriptionId, params.customerId, params.franchiseId)
+    : (await getPrescriptionsByCustomer(params.customerId, params.franchiseId))[0] ?? null;
+  if (!prescription) {
+    throw new FittingSheetError(
+      params.prescriptionId ? 404 : 422,
+      params.prescriptionId ? 'Receita não encontrada' : 'Cliente sem receita cadastrada nesta franquia'
+    );
+  }
+  if (isPrescriptionExpired(prescription, params.createdAt ? new Date(params.createdAt) : new Date())) {
+    throw new FittingSheetError(
+      422,
+      `Receita vencida em ${formatDate(prescription.expiryDate)}; cadastre uma receita válida`
+    );
+  }
+
+  // A armação precisa ser do inventário da franquia, como nas rotas de inventário
+  if (params.productId) {
+    const product = await getProduct(params.productId);
+    if (!product || product.franchiseId !== params.franchiseId) {
+      throw new FittingSheetError(404, 'Armação não encontrada');
+    }
+  }
+
+  const frameSpec = params.productId ? await getFrameSpec(params.productId) : null;
+  if (params.productId && !frameSpec) {
+    throw new FittingSheetError(404, 'Ficha técnica da armação não encontrada');
+  }
+
+  return {
+    measurement,
+    landmarks: review?.landmarks ?? stored.landmarks ?? null,
+    frameFitting: review?.frame ?? stored.frame ?? null,
+    prescription,
+    frameSpec
+  };
+}
+
+// Gerar o PDF da ficha de montagem de um serviço
+export async function renderFittingSheet(
+  job: LabJob,
+  header: FittingSheetHeader,
+  content: FittingSheetContent
+): Promise<Buffer> {
+  const { measurement, prescription, frameSpec, frameFitting, landmarks } = content;
+
+  // A imagem é gerada antes do documento; a ficha sai mesmo sem ela
+  let annotated: Buffer | null = null;
+  if (measurement.imageUrl && landmarks) {
+    try {
+      annotated = await renderAnnotatedMeasurement(
+        {
+          imageUrl: measurement.imageUrl,
+          landmarks,
+          dp: measurement.dp,
+          dpnLeft: measurement.dpnLeft,
+          dpnRight: measurement.dpnRight,
+          apLeft: measurement.apLeft,
+          apRight: measurement.apRight,
+          frame: frameFitting
+        },
+        ANNOTATED_IMAGE_SCALE
+      );
+    } catch (error) {
+      console.warn(`Imagem anotada indisponível para a medição ${measurement.id}:`, error);
+    }
+  }
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `Ficha de montagem ${job.jobNumber}` }
+  });
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = PAGE_MARGIN;
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  // Cabeçalho: franquia à esquerda, número do serviço à direita
+  const location = [header.franchise.city, header.franchise.state].filter(Boolean).join(' - ');
+  doc.font('Helvetica-Bold').fontSize(14).text(header.franchise.name, left, PAGE_MARGIN, { width: width * 0.6 });
+  doc.font('Helvetica').fontSize(9);
+  if (location) doc.text(location, { width: width * 0.6 });
+  if (header.franchise.email) doc.text(header.franchise.email, { width: width * 0.6 });
+
+  doc.font('Helvetica-Bold').fontSize(12).text('FICHA DE MONTAGEM', left, PAGE_MARGIN, { width, align: 'right' });
+  doc.fontSize(16).text(job.jobNumber, { width, align: 'right' });
+  doc.font('Helvetica').fontSize(9).text(`Emitida em ${formatDate(job.createdAt)}`, { width, align: 'right' });
+
+  let y = Math.max(doc.y, PAGE_MARGIN + 50) + 8;
+  doc.moveTo(left, y).lineTo(left + width, y).lineWidth(1).stroke();
+  y += 10;
+
+  // Cliente
+  y = sectionTitle(doc, 'Cliente', y);
+  doc.font('Helvetica').fontSize(10)
+    .text(header.customer.fullName, left, y)
+    .text(header.customer.email ?? '', left, doc.y);
+  y = doc.y + 10;
+
+  // Receita
+  y = sectionTitle(doc, 'Receita', y);
+  y = table(
+    doc,
+    y,
+    ['', 'Esférico', 'Cilíndrico', 'Eixo', 'Adição', 'Prisma', 'Base'],
+    [eyeRow('OD', prescription.rightEye), eyeRow('OE', prescription.leftEye)]
+  );
+  doc.font('Helvetica').fontSize(9).text(
+    `Prescritor: ${prescription.prescriber}` +
+      (prescription.prescriberRegistry ? ` (${prescription.prescriberRegistry})` : '') +
+      `   Emissão: ${formatDate(prescription.issueDate)}   Validade: ${formatDate(prescription.expiryDate)}`,
+    left,
+    y + 4,
+    { width }
+  );
+  y = doc.y + 10;
+
+  // Medidas: DPN e AP por olho, em mm
+  y = sectionTitle(doc, 'Medidas (mm)', y);
+  const apReference = measurement.apReference === 'frame' ? 'aro inferior' : 'referência nasal';
+  y = table(
+    doc,
+    y,
+    ['', 'DPN', 'AP', 'DPN perto'],
+    [
+      ['OD', mm(measurement.dpnRight), mm(measurement.apRight), measurement.near ? mm(measurement.near.dpnRight) : '-'],
+      ['OE', mm(measurement.dpnLeft), mm(measurement.apLeft), measurement.near ? mm(measurement.near.dpnLeft) : '-']
+    ]
+  );
+  doc.font('Helvetica').fontSize(9).text(
+    `DP total: ${mm(measurement.dp)}` +
+      (measurement.near ? `   DP perto: ${mm(measurement.near.dp)} a ${Math.round(measurement.near.workingDistance)} mm` : '') +
+      `   AP medida até: ${apReference}`,
+    left,
+    y + 4,
+    { width }
+  );
+  y = doc.y + 10;
+
+  // Armação: ficha do catálogo ou, sem ela, a altura medida na foto
+  y = sectionTitle(doc, 'Armação', y);
+  doc.font('Helvetica').fontSize(10);
+  if (frameSpec) {
+    doc.text(
+      `Ponte (DBL): ${mm(frameSpec.dbl)}   Aro (A): ${mm(frameSpec.a)}   Altura (B): ${mm(frameSpec.b)}   ` +
+        `Diagonal (ED): ${mm(frameSpec.ed)}`,
+      left,
+      y,
+      { width }
+    );
+    doc.text(
+      `Haste: ${frameSpec.templeLength} mm   Material: ${frameSpec.material}   Tipo: ${RIM_TYPE_LABELS[frameSpec.rimType]}`,
+      { width }
+    );
+  } else if (frameFitting) {
+    doc.text(`Armação do cliente. Altura (B) medida na foto: ${mm(frameFitting.b)}`, left, y, { width });
+  } else {
+    doc.text('Armação não informada', left, y, { width });
+  }
+  y = doc.y + 10;
+
+  // Imagem anotada no espaço restante, acima do rodapé
+  const footerY = doc.page.height - PAGE_MARGIN - 24;
+  if (annotated && footerY - y > 120) {
+    y = sectionTitle(doc, 'Imagem da medição', y);
+    doc.image(annotated, left, y, { fit: [width, footerY - y - 8], align: 'center' });
+  }
+
+  // Rodapé com a origem dos valores
+  doc.font('Helvetica').fontSize(8).fillColor('#555555').text(
+    `Medição nº ${measurement.id} (${measurement.type === 'digital' ? 'digital' : 'manual'}) ` +
+      `de ${formatDate(measurement.createdAt)}. Receita nº ${prescription.id}.`,
+    left,
+    footerY,
+    { width, align: 'center' }
+  );
+
+  doc.end();
+  return finished;
+}
+
+// Título de seção com fundo cinza
+function sectionTitle(doc: PDFKit.PDFDocument, title: string, y: number): number {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  doc.rect(PAGE_MARGIN, y, width, ROW_HEIGHT).fill('#eeeeee');
+  doc.fillColor('#000000').font('Helvetica-Bold').fontSize(10)
+    .text(title.toUpperCase(), PAGE_MARGIN + 4, y + 4, { width: width - 8 });
+  return y + ROW_HEIGHT + 6;
+}
+
+// Tabela simples com colunas de largura igual; retorna a posição abaixo dela
+function table(doc: PDFKit.PDFDocument, y: number, headers: string[], rows: string[][]): number {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const columnWidth = width / headers.length;
+
+  const drawRow = (cells: string[], top: number, font: string) => {
+    doc.font(font).fontSize(10);
+    cells.forEach((cell, index) => {
+      doc.text(cell, PAGE_MARGIN + index * columnWidth, top + 4, { width: columnWidth, align: 'center' });
+    });
+    doc.moveTo(PAGE_MARGIN, top + ROW_HEIGHT).lineTo(PAGE_MARGIN + width, top + ROW_HEIGHT)
+      .lineWidth(0.5).strokeColor('#999999').stroke().strokeColor('#000000');
+  };
+
+  drawRow(headers, y, 'Helvetica-Bold');
+  rows.forEach((row, index) => drawRow(row, y + ROW_HEIGHT * (index + 1), 'Helvetica'));
+  return y + ROW_HEIGHT * (rows.length + 1);
+}
+
+function eyeRow(label: string, eye: EyeRefraction): string[] {
+  return [
+    label,
+    formatDiopter(eye.sphere),
+    formatDiopter(eye.cylinder),
+    eye.axis === null ? '-' : `${eye.axis}°`,
+    eye.add === null ? '-' : formatDiopter(eye.add),
+    eye.prism === null ? '-' : eye.prism.toFixed(2),
+    eye.prismBase ? PRISM_BASE_LABELS[eye.prismBase] : '-'
+  ];
+}
+
+// Dioptria com sinal explícito, como na receita
+function formatDiopter(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function mm(value: number): string {
+  return value.toFixed(1);
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('pt-BR', { timeZone: 'America/Sao_Paulo' });
+}
@@ -0,0 +1,113 @@
+import { pool } from '../db';
+import { FrameFit, FrameSpec, InsertFrameSpec } from '../types/frames';
+import { FrameDimensions } from '../types/lenses';
+import { calculateDecentration, calculateMinimumBlankSize } from './lensCalculatorService';
+
+// Faixa de descentração por olho considerada compatível, em mm
+// Positivo = centro óptico deslocado para o nariz (armação mais larga que a DP)
+export const FRAME_FIT_LIMITS = {
+  minDecentration: parseFloat(process.env.FRAME_FIT_MIN_DECENTRATION_MM || '-2'),
+  maxDecentration: parseFloat(process.env.FRAME_FIT_MAX_DECENTRATION_MM || '5')
+};
+
+function rowToFrameSpec(row: any): FrameSpec {
+  return {
+    productId: row.product_id,
+    a: Number(row.a),
+    b: Number(row.b),
+    dbl: Number(row.dbl),
+    ed: Number(row.ed),
+    templeLength: row.temple_length,
+    material: row.material,
+    rimType: row.rim_type,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Obter a ficha técnica de uma armação
+export async function getFrameSpec(productId: number): Promise<FrameSpec | null> {
+  const result = await pool.query('SELECT * FROM frame_specs WHERE product_id = $1', [productId]);
+  return result.rows[0] ? rowToFrameSpec(result.rows[0]) : null;
+}
+
+// Obter fichas técnicas de vários produtos, indexadas pelo id do produto
+export async function getFrameSpecs(productIds: number[]): Promise<Map<number, FrameSpec>> {
+  if (productIds.length === 0) return new Map();
+
+  const result = await pool.query(
+    'SELECT * FROM frame_specs WHERE product_id = ANY($1::int[])',
+    [productIds]
+  );
+
+  return new Map(result.rows.map(row => [row.product_id, rowToFrameSpec(row)]));
+}
+
+// Criar ou substituir a ficha técnica de uma armação
+export async function upsertFrameSpec(productId: number, data: InsertFrameSpec): Promise<FrameSpec> {
+  const result = await pool.query(
+    `INSERT INTO frame_specs (product_id, a, b, dbl, ed, temple_length, material, rim_type)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     ON CONFLICT (product_id) DO UPDATE SET
+       a = EXCLUDED.a,
+       b = EXCLUDED.b,
+       dbl = EXCLUDED.dbl,
+       ed = EXCLUDED.ed,
+       temple_length = EXCLUDED.temple_length,
+       material = EXCLUDED.material,
+       rim_type = EXCLUDED.rim_type
+     RETURNING *`,
+    [productId, data.a, data.b, data.dbl, data.ed, data.templeLength, data.material, data.rimType]
+  );
+
+  return rowToFrameSpec(result.rows[0]);
+}
+
+// Substituir as dimensões digitadas pelas medidas do traçado; null se a armação não tem ficha
+export async function applyTracedDimensions(productId: number, dimensions: FrameDimensions): Promise<FrameSpec | null> {
+  const result = await pool.query(
+    `UPDATE frame_specs SET a = $2, b = $3, dbl = $4, ed = $5
+     WHERE product_id = $1
+     RETURNING *`,
+    [productId, dimensions.a, dimensions.b, dimensions.dbl, dimensions.ed]
+  );
+
+  return result.rows[0] ? rowToFrameSpec(result.rows[0]) : null;
+}
+
+// Avaliar uma armação para as DPNs do cliente
+export function evaluateFrameFit(frame: FrameSpec, dpnRight: number, dpnLeft: number): FrameFit {
+  const rightEye = calculateDecentration(frame, dpnRight);
+  const leftEye = calculateDecentration(frame, dpnLeft);
+
+  return {
+    productId: frame.productId,
+    frameCenterDistance: frame.a + frame.dbl,
+    decentration: { rightEye, leftEye },
+    maxDecentration: Math.max(Math.abs(rightEye.horizontal), Math.abs(leftEye.horizontal)),
+    minimumBlankSize: Math.max(
+      calculateMinimumBlankSize(frame, rightEye),
+      calculateMinimumBlankSize(frame, leftEye)
+    )
+  };
+}
+
+// Verificar se a descentração dos dois olhos fica dentro da faixa compatível
+export function isFrameCompatible(fit: FrameFit, limits = FRAME_FIT_LIMITS): boolean {
+  return [fit.decentration.rightEye, fit.decentration.leftEye].every(
+    eye => eye.horizontal >= limits.minDecentration && eye.horizontal <= limits.maxDecentration
+  );
+}
+
+// Classificar armações compatíveis pela menor descentração e, em seguida, pelo menor blank
+export function rankFramesByFit(
+  frames: FrameSpec[],
+  dpnRight: number,
+  dpnLeft: number,
+  limits = FRAME_FIT_LIMITS
+): FrameFit[] {
+  return frames
+    .map(frame => evaluateFrameFit(frame, dpnRight, dpnLeft))
+    .filter(fit => isFrameCompatible(fit, limits))
+    .sort((a, b) => a.maxDecentration - b.maxDecentration || a.minimumBlankSize - b.minimumBlankSize);
+}
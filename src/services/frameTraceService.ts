@@ -0,0 +1,77 @@
+import { pool } from '../db';
+import { applyTracedDimensions } from './frameCatalogService';
+import { FrameSpec, FrameTrace, InsertFrameTrace } from '../types/frames';
+import { LabJob } from '../types/labJobs';
+
+function rowToFrameTrace(row: any): FrameTrace {
+  return {
+    id: row.id,
+    franchiseId: row.franchise_id,
+    productId: row.product_id,
+    labJobId: row.lab_job_id,
+    right: row.right_radii,
+    left: row.left_radii,
+    dimensions: {
+      a: Number(row.a),
+      b: Number(row.b),
+      dbl: Number(row.dbl),
+      ed: Number(row.ed),
+      circumference: Number(row.circumference)
+    },
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+// Gravar um traçado importado
+// No traçado de uma armação do inventário, as medidas passam a valer na ficha técnica
+export async function saveFrameTrace(
+  data: InsertFrameTrace
+): Promise<{ trace: FrameTrace; frame: FrameSpec | null }> {
+  const { a, b, dbl, ed, circumference } = data.dimensions;
+
+  const result = await pool.query(
+    `INSERT INTO frame_traces (
+       franchise_id, product_id, lab_job_id, right_radii, left_radii, a, b, dbl, ed, circumference, created_by
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     RETURNING *`,
+    [
+      data.franchiseId,
+      data.productId,
+      data.labJobId,
+      JSON.stringify(data.right),
+      JSON.stringify(data.left),
+      a,
+      b,
+      dbl,
+      ed,
+      circumference,
+      data.createdBy
+    ]
+  );
+
+  const frame = data.productId ? await applyTracedDimensions(data.productId, data.dimensions) : null;
+
+  return { trace: rowToFrameTrace(result.rows[0]), frame };
+}
+
+// Obter o traçado mais recente de uma armação do inventário
+export async function getProductTrace(productId: number): Promise<FrameTrace | null> {
+  const result = await pool.query(
+    'SELECT * FROM frame_traces WHERE product_id = $1 ORDER BY created_at DESC, id DESC LIMIT 1',
+    [productId]
+  );
+  return result.rows[0] ? rowToFrameTrace(result.rows[0]) : null;
+}
+
+// Obter o traçado de um serviço: o da armação traçada para o pedido ou, sem ele, o do inventário
+export async function getLabJobTrace(job: LabJob): Promise<FrameTrace | null> {
+  const result = await pool.query(
+    'SELECT * FROM frame_traces WHERE lab_job_id = $1 ORDER BY created_at DESC, id DESC LIMIT 1',
+    [job.id]
+  );
+  if (result.rows[0]) return rowToFrameTrace(result.rows[0]);
+
+  return job.productId ? getProductTrace(job.productId) : null;
+}
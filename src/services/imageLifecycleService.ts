@@ -0,0 +1,262 @@
+import { pool } from '../db';
+import { deleteImage, storeImage } from './blobStore';
+import { measurementRepository } from './measurementRepository';
+import { getReviews } from './measurementReviewService';
+import { StoredMeasurement } from '../types/measurements';
+import { RetentionFailure, RetentionRemoval, RetentionRun, RetentionSetting } from '../types/retention';
+
+// Prazo padrão para franquias sem configuração própria, em dias
+export const DEFAULT_IMAGE_RETENTION_DAYS = parseInt(process.env.IMAGE_RETENTION_DAYS || '365');
+
+// Intervalo entre limpezas agendadas, em horas
+const PURGE_INTERVAL_HOURS = parseFloat(process.env.RETENTION_PURGE_INTERVAL_HOURS || '24');
+
+// Tamanho do lote lido do banco em cada consulta
+const PURGE_BATCH_SIZE = 100;
+
+// Chave do advisory lock que impede duas limpezas simultâneas entre instâncias
+const PURGE_LOCK_KEY = 780413;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function rowToSetting(row: any): RetentionSetting {
+  return {
+    franchiseId: row.franchise_id,
+    imageRetentionDays: row.image_retention_days,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at
+  };
+}
+
+function rowToRun(row: any): RetentionRun {
+  return {
+    id: row.id,
+    trigger: row.trigger,
+    dryRun: row.dry_run,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    removedCount: row.removed_count,
+    failedCount: row.failed_count,
+    removed: row.removed,
+    failures: row.failures,
+    error: row.error
+  };
+}
+
+// Obter o prazo de retenção de uma franquia (ou o padrão)
+export async function getRetentionSetting(franchiseId: number): Promise<RetentionSetting | null> {
+  const result = await pool.query(
+    'SELECT * FROM franchise_retention_settings WHERE franchise_id = $1',
+    [franchiseId]
+  );
+  return result.rows[0] ? rowToSetting(result.rows[0]) : null;
+}
+
+// Definir o prazo de retenção de uma franquia
+export async function setRetentionSetting(
+  franchiseId: number,
+  imageRetentionDays: number,
+  updatedBy: number
+): Promise<RetentionSetting> {
+  const result = await pool.query(
+    `INSERT INTO franchise_retention_settings (franchise_id, image_retention_days, updated_by)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (franchise_id) DO UPDATE SET
+       image_retention_days = EXCLUDED.image_retention_days,
+       updated_by = EXCLUDED.updated_by
+     RETURNING *`,
+    [franchiseId, imageRetentionDays, updatedBy]
+  );
+  return rowToSetting(result.rows[0]);
+}
+
+// Listar os relatórios das execuções mais recentes
+export async function listRetentionRuns(limit = 20): Promise<RetentionRun[]> {
+  const result = await pool.query(
+    'SELECT * FROM retention_runs ORDER BY started_at DESC LIMIT $1',
+    [limit]
+  );
+  return result.rows.map(rowToRun);
+}
+
+// Guardar a foto de uma medição e criar a medição que a referencia
+// Se a medição não for criada, a foto é descartada para não ficar órfã no armazenamento
+export async function createMeasurementWithImage<T>(
+  image: { buffer: Buffer; contentType: string } | null,
+  create: (imageUrl: string | undefined) => Promise<T>
+): Promise<T> {
+  const imageUrl = image ? await storeImage(image.buffer, 'measurements', image.contentType) : undefined;
+
+  try {
+    return await create(imageUrl);
+  } catch (error) {
+    if (imageUrl) {
+      await deleteImage(imageUrl).catch(cleanupError =>
+        console.error('Erro ao remover a foto da medição não criada:', cleanupError)
+      );
+    }
+    throw error;
+  }
+}
+
+// Excluir uma medição, a sua revisão (ON DELETE CASCADE) e a sua imagem
+// A imagem é removida antes do COMMIT: se falhar, a exclusão é desfeita, a medição
+// continua apontando para ela e a exclusão pode ser repetida sem deixar arquivo órfão
+export async function deleteMeasurementWithImage(measurement: StoredMeasurement): Promise<void> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    await measurementRepository.delete(measurement.id, client);
+    if (measurement.imageUrl) {
+      await deleteImage(measurement.imageUrl);
+    }
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Remover as imagens vencidas de um escopo, registrando o que foi removido
+async function purgeScope(
+  scope: { franchiseId: number } | { excludeFranchiseIds: number[] },
+  retentionDays: number,
+  now: Date,
+  dryRun: boolean,
+  removed: RetentionRemoval[],
+  failures: RetentionFailure[]
+): Promise<void> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+  let afterId = 0;
+
+  while (true) {
+    const batch = await measurementRepository.listImagesOlderThan(cutoff, scope, afterId, PURGE_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    // A foto de uma medição aguardando revisão ainda é necessária para o óptico decidir
+    const reviews = await getReviews(batch.map(item => item.id));
+
+    for (const item of batch) {
+      afterId = item.id;
+      if (reviews.get(item.id)?.status === 'pending_review') continue;
+
+      try {
+        if (!dryRun) {
+          await deleteImage(item.imageUrl);
+          const updated = await measurementRepository.updateImageReference(item.id, null, item.imageUrl);
+          if (!updated) {
+            failures.push({
+              measurementId: item.id,
+              error: 'A referência da imagem mudou durante a limpeza'
+            });
+            continue;
+          }
+        }
+
+        removed.push({
+          measurementId: item.id,
+          franchiseId: item.franchiseId,
+          createdAt: item.createdAt,
+          retentionDays
+        });
+      } catch (error) {
+        failures.push({
+          measurementId: item.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
+
+// Executar a limpeza de imagens vencidas e gravar o relatório da execução
+// Retorna null se outra instância já está executando a limpeza
+export async function purgeExpiredImages(options: {
+  trigger: RetentionRun['trigger'];
+  dryRun?: boolean;
+  now?: Date;
+}): Promise<RetentionRun | null> {
+  const dryRun = options.dryRun ?? false;
+  const now = options.now ?? new Date();
+  const lockClient = await pool.connect();
+
+  try {
+    const lock = await lockClient.query('SELECT pg_try_advisory_lock($1) AS acquired', [PURGE_LOCK_KEY]);
+    if (!lock.rows[0].acquired) return null;
+
+    const run = await pool.query(
+      `INSERT INTO retention_runs (trigger, dry_run, started_at) VALUES ($1, $2, $3) RETURNING id`,
+      [options.trigger, dryRun, now]
+    );
+    const runId = run.rows[0].id;
+
+    const removed: RetentionRemoval[] = [];
+    const failures: RetentionFailure[] = [];
+    let runError: string | null = null;
+
+    try {
+      const settings = await pool.query('SELECT * FROM franchise_retention_settings');
+      const configured = settings.rows.map(rowToSetting);
+
+      for (const setting of configured) {
+        await purgeScope(
+          { franchiseId: setting.franchiseId },
+          setting.imageRetentionDays,
+          now,
+          dryRun,
+          removed,
+          failures
+        );
+      }
+
+      await purgeScope(
+        { excludeFranchiseIds: configured.map(setting => setting.franchiseId) },
+        DEFAULT_IMAGE_RETENTION_DAYS,
+        now,
+        dryRun,
+        removed,
+        failures
+      );
+    } catch (error) {
+      runError = error instanceof Error ? error.message : String(error);
+      console.error('Erro na limpeza de imagens:', error);
+    }
+
+    const result = await pool.query(
+      `UPDATE retention_runs
+       SET finished_at = CURRENT_TIMESTAMP, removed_count = $2, failed_count = $3,
+           removed = $4, failures = $5, error = $6
+       WHERE id = $1
+       RETURNING *`,
+      [runId, removed.length, failures.length, JSON.stringify(removed), JSON.stringify(failures), runError]
+    );
+
+    return rowToRun(result.rows[0]);
+  } finally {
+    await lockClient.query('SELECT pg_advisory_unlock($1)', [PURGE_LOCK_KEY]).catch(() => undefined);
+    lockClient.release();
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+// Agendar a limpeza periódica no processo do servidor
+export function startImageRetentionScheduler(): void {
+  if (schedulerTimer || PURGE_INTERVAL_HOURS <= 0) return;
+
+  const run = () => {
+    purgeExpiredImages({ trigger: 'scheduled' })
+      .then(report => {
+        if (report) {
+          console.log(`Limpeza de imagens: ${report.removedCount} removidas, ${report.failedCount} falhas`);
+        }
+      })
+      .catch(error => console.error('Erro ao executar limpeza agendada de imagens:', error));
+  };
+
+  schedulerTimer = setInterval(run, PURGE_INTERVAL_HOURS * 60 * 60 * 1000);
+  schedulerTimer.unref();
+}
@@ -0,0 +1,54 @@
+import { pool } from '../db';
+import { InsertLabJob, LabJob } from '../types/labJobs';
+
+function rowToLabJob(row: any): LabJob {
+  return {
+    id: row.id,
+    jobNumber: row.job_number,
+    franchiseId: row.franchise_id,
+    customerId: row.customer_id,
+    measurementId: row.measurement_id,
+    prescriptionId: row.prescription_id,
+    productId: row.product_id,
+    createdBy: row.created_by,
+    createdAt: row.created_at
+  };
+}
+
+// Registrar um serviço para o laboratório
+// O número é gerado junto com o id, no formato F<franquia>-<sequencial>, ex.: F12-000345
+export async function createLabJob(data: InsertLabJob): Promise<LabJob> {
+  const result = await pool.query(
+    `WITH next AS (SELECT nextval(pg_get_serial_sequence('lab_jobs', 'id')) AS id)
+     INSERT INTO lab_jobs (
+       id, job_number, franchise_id, customer_id, measurement_id, prescription_id, product_id, created_by
+     )
+     SELECT id, 'F' || $1::integer || '-' || LPAD(id::text, 6, '0'), $1::integer, $2, $3, $4, $5, $6
+     FROM next
+     RETURNING *`,
+    [
+      data.franchiseId,
+      data.customerId,
+      data.measurementId,
+      data.prescriptionId,
+      data.productId,
+      data.createdBy
+    ]
+  );
+
+  return rowToLabJob(result.rows[0]);
+}
+
+// Obter um serviço de um cliente pelo número
+export async function getLabJob(
+  jobNumber: string,
+  customerId: number,
+  franchiseId: number
+): Promise<LabJob | null> {
+  const result = await pool.query(
+    'SELECT * FROM lab_jobs WHERE job_number = $1 AND customer_id = $2 AND franchise_id = $3',
+    [jobNumber, customerId, franchiseId]
+  );
+
+  return result.rows[0] ? rowToLabJob(result.rows[0]) : null;
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDecentration,
+  calculateLenses,
+  calculateLensThickness,
+  calculateMinimumBlankSize,
+  calculateSag,
+  LENS_MATERIALS,
+  recommendIndex
+} from './lensCalculatorService';
+import { LensIndexOption } from '../types/lenses';
+
+const frame = { a: 52, b: 40, dbl: 18, ed: 56 };
+const crownGlass = LENS_MATERIALS.find(material => material.index === 1.5)!;
+
+describe('calculateDecentration', () => {
+  it('desloca o centro óptico para a pupila em relação ao centro da caixa', () => {
+    expect(calculateDecentration(frame, 32, 22)).toEqual({ horizontal: 3, vertical: 2, total: 3.61 });
+  });
+
+  it('sem altura de montagem, considera apenas a descentração horizontal', () => {
+    expect(calculateDecentration(frame, 36)).toEqual({ horizontal: -1, vertical: 0, total: 1 });
+  });
+});
+
+describe('calculateMinimumBlankSize', () => {
+  it('soma ED, o dobro da descentração e a margem de corte', () => {
+    const decentration = calculateDecentration(frame, 32, 22);
+
+    expect(calculateMinimumBlankSize(frame, decentration)).toBe(65.22);
+  });
+});
+
+describe('calculateSag', () => {
+  it('usa a aproximação paraxial', () => {
+    expect(calculateSag(-4, 30, 1.5)).toBeCloseTo(-3.6, 6);
+    expect(calculateSag(4, 30, 1.5)).toBeCloseTo(3.6, 6);
+  });
+
+  it('índices mais altos reduzem a flecha', () => {
+    expect(Math.abs(calculateSag(-4, 30, 1.74))).toBeLessThan(Math.abs(calculateSag(-4, 30, 1.5)));
+  });
+});
+
+describe('calculateLensThickness', () => {
+  const centered = { horizontal: 0, vertical: 0, total: 0 };
+
+  it('lente negativa: centro mínimo do material e borda mais grossa', () => {
+    const thickness = calculateLensThickness({ sphere: -4, cylinder: 0 }, frame, centered, crownGlass);
+
+    expect(thickness.center).toBe(2);
+    expect(thickness.minEdge).toBe(5.14);
+    expect(thickness.maxEdge).toBe(5.14);
+  });
+
+  it('lente positiva: centro suficiente para manter a borda mínima', () => {
+    const thickness = calculateLensThickness({ sphere: 3, cylinder: 0 }, frame, centered, crownGlass);
+
+    expect(thickness.center).toBe(3.35);
+    expect(thickness.minEdge).toBe(1);
+  });
+
+  it('lente tórica: bordas diferentes nos dois meridianos', () => {
+    const thickness = calculateLensThickness({ sphere: -2, cylinder: -2 }, frame, centered, crownGlass);
+
+    expect(thickness.minEdge).toBe(3.57);
+    expect(thickness.maxEdge).toBe(5.14);
+  });
+
+  it('a descentração aumenta a borda de lentes negativas', () => {
+    const decentration = calculateDecentration(frame, 28);
+    const thickness = calculateLensThickness({ sphere: -4, cylinder: 0 }, frame, decentration, crownGlass);
+
+    expect(thickness.maxEdge).toBeGreaterThan(5.14);
+  });
+});
+
+describe('calculateLenses', () => {
+  const input = {
+    prescription: {
+      rightEye: { sphere: -4, cylinder: -1 },
+      leftEye: { sphere: -3.5, cylinder: -0.5 }
+    },
+    dpnRight: 32,
+    dpnLeft: 31,
+    frame,
+    fittingHeights: { right: 22, left: 22 }
+  };
+
+  it('calcula cada olho com a própria DPN', () => {
+    const result = calculateLenses(input);
+
+    expect(result.decentration.rightEye.horizontal).toBe(3);
+    expect(result.decentration.leftEye.horizontal).toBe(4);
+    expect(result.options.map(option => option.index)).toEqual(LENS_MATERIALS.map(material => material.index));
+  });
+
+  it('lentes negativas ficam mais finas nos índices mais altos', () => {
+    const thicknesses = calculateLenses(input).options.map(option => option.maxThickness);
+
+    expect([...thicknesses].sort((a, b) => b - a)).toEqual(thicknesses);
+  });
+
+  it('recusa os índices sem blank que cubra a descentração', () => {
+    const result = calculateLenses({ ...input, dpnRight: 25, dpnLeft: 25 });
+
+    expect(result.minimumBlankSize.rightEye).toBe(78.4);
+    expect(result.options.filter(option => option.feasible).map(option => option.index)).toEqual([1.5]);
+    expect(result.recommendation?.index).toBe(1.5);
+  });
+});
+
+describe('recommendIndex', () => {
+  const option = (index: LensIndexOption['index'], maxThickness: number, feasible = true) =>
+    ({ index, maxThickness, feasible }) as LensIndexOption;
+
+  it('prefere o menor índice próximo da opção mais fina', () => {
+    const recommendation = recommendIndex([option(1.5, 4.5), option(1.59, 3.9), option(1.67, 3.8)]);
+
+    expect(recommendation?.index).toBe(1.59);
+  });
+
+  it('escolhe a opção mais fina quando o ganho é relevante', () => {
+    expect(recommendIndex([option(1.5, 6), option(1.67, 4.5)])?.index).toBe(1.67);
+  });
+
+  it('sem opção viável não recomenda', () => {
+    expect(recommendIndex([option(1.5, 4, false)])).toBeNull();
+  });
+});
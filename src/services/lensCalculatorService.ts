@@ -0,0 +1,165 @@
+import {
+  Decentration,
+  FrameDimensions,
+  LensCalculation,
+  LensCalculationInput,
+  LensEyeResult,
+  LensIndex,
+  LensIndexOption,
+  LensThickness
+} from '../types/lenses';
+import { EyeRefraction } from '../types/prescriptions';
+
+// Características de cada índice: espessura mínima no centro (lentes negativas),
+// número de Abbe e diâmetros de blank disponíveis
+interface LensMaterial {
+  index: LensIndex;
+  material: string;
+  abbe: number;
+  minCenterThickness: number;
+  blankDiameters: number[];
+}
+
+export const LENS_MATERIALS: LensMaterial[] = [
+  { index: 1.5, material: 'CR-39', abbe: 58, minCenterThickness: 2.0, blankDiameters: [65, 70, 75, 80] },
+  { index: 1.59, material: 'Policarbonato', abbe: 30, minCenterThickness: 1.5, blankDiameters: [65, 70, 75] },
+  { index: 1.67, material: 'Alto índice 1.67', abbe: 32, minCenterThickness: 1.5, blankDiameters: [65, 70, 75] },
+  { index: 1.74, material: 'Alto índice 1.74', abbe: 33, minCenterThickness: 1.5, blankDiameters: [65, 70] }
+];
+
+// Margem de surfaçagem e corte somada ao blank mínimo
+const EDGING_ALLOWANCE_MM = 2;
+
+// Espessura mínima de borda em lentes positivas
+const MIN_EDGE_THICKNESS_MM = 1.0;
+
+// Ganho de espessura abaixo do qual não vale a pena subir de índice
+const THICKNESS_GAIN_THRESHOLD_MM = 0.5;
+
+// Calcular a descentração do centro óptico em relação ao centro da caixa
+// Horizontal: metade da distância entre centros da armação (A + DBL) menos a DPN
+// Vertical: altura de montagem menos metade de B
+export function calculateDecentration(
+  frame: FrameDimensions,
+  monocularPd: number,
+  fittingHeight?: number
+): Decentration {
+  const horizontal = (frame.a + frame.dbl) / 2 - monocularPd;
+  const vertical = fittingHeight !== undefined ? fittingHeight - frame.b / 2 : 0;
+
+  return {
+    horizontal: round(horizontal),
+    vertical: round(vertical),
+    total: round(Math.hypot(horizontal, vertical))
+  };
+}
+
+// Calcular o diâmetro mínimo de blank: ED + 2 × descentração + margem de corte
+export function calculateMinimumBlankSize(frame: FrameDimensions, decentration: Decentration): number {
+  return round(frame.ed + 2 * decentration.total + EDGING_ALLOWANCE_MM);
+}
+
+// Calcular a flecha (sagitta) de uma superfície com aproximação paraxial
+// s = y² × P / (2000 × (n - 1)), com y em mm e P em dioptrias
+export function calculateSag(power: number, semiDiameter: number, index: number): number {
+  return (semiDiameter ** 2 * power) / (2000 * (index - 1));
+}
+
+// Calcular espessuras aproximadas a partir dos meridianos principais
+// A borda mais distante do centro óptico fica a ED/2 + descentração
+export function calculateLensThickness(
+  eye: Pick<EyeRefraction, 'sphere' | 'cylinder'>,
+  frame: FrameDimensions,
+  decentration: Decentration,
+  material: Pick<LensMaterial, 'index' | 'minCenterThickness'>
+): LensThickness {
+  const meridians = [eye.sphere, eye.sphere + eye.cylinder];
+  const semiDiameter = frame.ed / 2 + decentration.total;
+  const sags = meridians.map(power => calculateSag(power, semiDiameter, material.index));
+
+  // Lentes com meridiano positivo precisam de centro espesso o bastante para manter a borda mínima
+  const center = Math.max(material.minCenterThickness, MIN_EDGE_THICKNESS_MM + Math.max(...sags));
+  const edges = sags.map(sag => center - sag);
+
+  return {
+    center: round(center),
+    minEdge: round(Math.min(...edges)),
+    maxEdge: round(Math.max(...edges))
+  };
+}
+
+// Menor blank comercial que cobre o diâmetro mínimo
+function selectBlank(material: LensMaterial, minimumBlankSize: number): number | null {
+  return material.blankDiameters.find(diameter => diameter >= minimumBlankSize) ?? null;
+}
+
+// Calcular descentração, blank mínimo e espessuras para todos os índices
+export function calculateLenses(input: LensCalculationInput): LensCalculation {
+  const { prescription, frame, fittingHeights } = input;
+
+  const decentration = {
+    rightEye: calculateDecentration(frame, input.dpnRight, fittingHeights?.right),
+    leftEye: calculateDecentration(frame, input.dpnLeft, fittingHeights?.left)
+  };
+
+  const minimumBlankSize = {
+    rightEye: calculateMinimumBlankSize(frame, decentration.rightEye),
+    leftEye: calculateMinimumBlankSize(frame, decentration.leftEye)
+  };
+
+  const options: LensIndexOption[] = LENS_MATERIALS.map(material => {
+    const eyeResult = (side: 'rightEye' | 'leftEye'): LensEyeResult => ({
+      thickness: calculateLensThickness(prescription[side], frame, decentration[side], material),
+      blankDiameter: selectBlank(material, minimumBlankSize[side])
+    });
+
+    const rightEye = eyeResult('rightEye');
+    const leftEye = eyeResult('leftEye');
+    const maxThickness = Math.max(
+      rightEye.thickness.center,
+      rightEye.thickness.maxEdge,
+      leftEye.thickness.center,
+      leftEye.thickness.maxEdge
+    );
+
+    return {
+      index: material.index,
+      material: material.material,
+      abbe: material.abbe,
+      rightEye,
+      leftEye,
+      maxThickness: round(maxThickness),
+      feasible: rightEye.blankDiameter !== null && leftEye.blankDiameter !== null
+    };
+  });
+
+  return {
+    decentration,
+    minimumBlankSize,
+    options,
+    recommendation: recommendIndex(options)
+  };
+}
+
+// Recomendar o menor índice cuja espessura fica próxima da opção mais fina viável
+// Índices mais altos custam mais e têm mais aberração cromática; só compensam com ganho real
+export function recommendIndex(options: LensIndexOption[]): LensCalculation['recommendation'] {
+  const feasible = options.filter(option => option.feasible);
+  if (feasible.length === 0) return null;
+
+  const thinnest = Math.min(...feasible.map(option => option.maxThickness));
+  const choice = feasible
+    .filter(option => option.maxThickness - thinnest <= THICKNESS_GAIN_THRESHOLD_MM)
+    .sort((a, b) => a.index - b.index)[0];
+
+  const reason = choice.maxThickness === thinnest
+    ? `Índice ${choice.index} produz a lente mais fina (${choice.maxThickness.toFixed(1)} mm)`
+    : `Índice ${choice.index} fica a menos de ${THICKNESS_GAIN_THRESHOLD_MM} mm da opção mais fina ` +
+      `(${choice.maxThickness.toFixed(1)} mm contra ${thinnest.toFixed(1)} mm), com menor custo`;
+
+  return { index: choice.index, reason };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,248 @@
+import { pool } from '../../db';
+import type { Queryable } from '../db';
+import { NewMeasurement, StoredMeasurement } from '../types/measurements';
+
+// Repositório único de medições, na tabela measurements do banco principal (ids inteiros)
+// Usado pelas rotas de api/ e de src/routes; a tabela legada com UUID só é lida pela migração
+
+// Colunas acrescentadas à tabela principal para os dados da medição digital
+const MEASUREMENT_COLUMNS = `
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS ap_reference VARCHAR(10) NOT NULL DEFAULT 'nose';
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS frame_fitting JSONB;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS frame_b DECIMAL(5,2);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS dp_near DECIMAL(5,2);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS dpn_left_near DECIMAL(5,2);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS dpn_right_near DECIMAL(5,2);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS working_distance DECIMAL(5,1);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS landmarks JSONB;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS calibration JSONB;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS calibration_method VARCHAR(10);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS calibration_error DECIMAL(5,4);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS frames_used INTEGER;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS dispersion JSONB;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS quality VARCHAR(10);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS warnings TEXT[];
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS engine_name VARCHAR(20);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS engine_version VARCHAR(20);
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS legacy_id UUID;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS franchise_id INTEGER;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS capture_device JSONB;
+  ALTER TABLE measurements ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP;
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_measurements_legacy_id ON measurements(legacy_id);
+  CREATE INDEX IF NOT EXISTS idx_measurements_user_created ON measurements(user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_measurements_image_retention ON measurements(franchise_id, created_at)
+    WHERE image_url IS NOT NULL;
+`;
+
+let schemaReady: Promise<void> | null = null;
+
+// Garantir as colunas uma única vez por processo
+export function ensureMeasurementSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = pool.query(MEASUREMENT_COLUMNS).then(() => undefined);
+    schemaReady.catch(() => {
+      schemaReady = null;
+    });
+  }
+  return schemaReady;
+}
+
+// Colunas DECIMAL chegam do pg como string
+function toNumber(value: string | number | null): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+function rowToMeasurement(row: any): StoredMeasurement {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    franchiseId: row.franchise_id ?? undefined,
+    dp: Number(row.dp),
+    dpnLeft: Number(row.dpn_left),
+    dpnRight: Number(row.dpn_right),
+    apLeft: Number(row.ap_left),
+    apRight: Number(row.ap_right),
+    apReference: row.ap_reference ?? 'nose',
+    frame: row.frame_fitting ?? undefined,
+    near: row.dp_near !== null && row.dp_near !== undefined
+      ? {
+          dp: Number(row.dp_near),
+          dpnLeft: Number(row.dpn_left_near),
+          dpnRight: Number(row.dpn_right_near),
+          workingDistance: Number(row.working_distance)
+        }
+      : undefined,
+    type: row.type,
+    notes: row.notes ?? undefined,
+    imageUrl: row.image_url ?? undefined,
+    landmarks: row.landmarks ?? undefined,
+    calibration: row.calibration ?? undefined,
+    quality: row.quality ?? undefined,
+    confidence: toNumber(row.confidence),
+    warnings: row.warnings ?? undefined,
+    framesUsed: row.frames_used ?? undefined,
+    dispersion: row.dispersion ?? undefined,
+    engineName: row.engine_name ?? undefined,
+    engineVersion: row.engine_version ?? undefined,
+    captureDevice: row.capture_device ?? undefined,
+    legacyId: row.legacy_id ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? row.created_at
+  };
+}
+
+// Valores das colunas na ordem de INSERT_COLUMNS
+function measurementToValues(data: NewMeasurement): unknown[] {
+  return [
+    data.userId,
+    data.dp,
+    data.dpnLeft,
+    data.dpnRight,
+    data.apLeft,
+    data.apRight,
+    data.apReference || 'nose',
+    data.frame ? JSON.stringify(data.frame) : null,
+    data.frame?.b ?? null,
+    data.near?.dp ?? null,
+    data.near?.dpnLeft ?? null,
+    data.near?.dpnRight ?? null,
+    data.near?.workingDistance ?? null,
+    data.type,
+    data.notes ?? null,
+    data.imageUrl ?? null,
+    data.landmarks ? JSON.stringify(data.landmarks) : null,
+    data.calibration ? JSON.stringify(data.calibration) : null,
+    data.calibration?.source ?? null,
+    data.calibration?.estimatedError ?? null,
+    data.framesUsed ?? null,
+    data.dispersion ? JSON.stringify(data.dispersion) : null,
+    data.quality ?? null,
+    data.confidence ?? null,
+    data.warnings ?? null,
+    data.engineName ?? null,
+    data.engineVersion ?? null,
+    data.franchiseId ?? null,
+    data.captureDevice ? JSON.stringify(data.captureDevice) : null
+  ];
+}
+
+const INSERT_COLUMNS = [
+  'user_id', 'dp', 'dpn_left', 'dpn_right', 'ap_left', 'ap_right',
+  'ap_reference', 'frame_fitting', 'frame_b',
+  'dp_near', 'dpn_left_near', 'dpn_right_near', 'working_distance',
+  'type', 'notes', 'image_url', 'landmarks', 'calibration', 'calibration_method',
+  'calibration_error', 'frames_used', 'dispersion', 'quality', 'confidence', 'warnings',
+  'engine_name', 'engine_version', 'franchise_id', 'capture_device'
+];
+
+function placeholders(count: number, offset = 0): string {
+  return Array.from({ length: count }, (_, index) => `$${index + offset + 1}`).join(', ');
+}
+
+export const measurementRepository = {
+  // Histórico de um usuário, mais recentes primeiro
+  async listByUser(userId: number): Promise<StoredMeasurement[]> {
+    await ensureMeasurementSchema();
+    const result = await pool.query(
+      'SELECT * FROM measurements WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows.map(rowToMeasurement);
+  },
+
+  async getById(id: number): Promise<StoredMeasurement | null> {
+    await ensureMeasurementSchema();
+    const result = await pool.query('SELECT * FROM measurements WHERE id = $1', [id]);
+    return result.rows[0] ? rowToMeasurement(result.rows[0]) : null;
+  },
+
+  // db permite criar a medição dentro de uma transação do chamador
+  async create(data: NewMeasurement, db: Queryable = pool): Promise<StoredMeasurement> {
+    await ensureMeasurementSchema();
+    const result = await db.query(
+      `INSERT INTO measurements (${INSERT_COLUMNS.join(', ')})
+       VALUES (${placeholders(INSERT_COLUMNS.length)})
+       RETURNING *`,
+      measurementToValues(data)
+    );
+    return rowToMeasurement(result.rows[0]);
+  },
+
+  // Inserir uma linha migrada da tabela legada, preservando a data original
+  // Retorna null se a linha já foi migrada antes
+  async importLegacy(
+    legacyId: string,
+    data: NewMeasurement,
+    timestamps: { createdAt: Date; updatedAt: Date }
+  ): Promise<StoredMeasurement | null> {
+    await ensureMeasurementSchema();
+    const columns = [...INSERT_COLUMNS, 'legacy_id', 'created_at', 'updated_at'];
+    const result = await pool.query(
+      `INSERT INTO measurements (${columns.join(', ')})
+       VALUES (${placeholders(columns.length)})
+       ON CONFLICT (legacy_id) DO NOTHING
+       RETURNING *`,
+      [...measurementToValues(data), legacyId, timestamps.createdAt, timestamps.updatedAt]
+    );
+    return result.rows[0] ? rowToMeasurement(result.rows[0]) : null;
+  },
+
+  // Medições com a foto ainda gravada como data URL, em lotes ordenados por id
+  async listInlineImages(afterId: number, limit: number): Promise<{ id: number; imageUrl: string }[]> {
+    await ensureMeasurementSchema();
+    const result = await pool.query(
+      `SELECT id, image_url FROM measurements
+       WHERE image_url LIKE 'data:%' AND id > $1
+       ORDER BY id ASC
+       LIMIT $2`,
+      [afterId, limit]
+    );
+    return result.rows.map((row: any) => ({ id: row.id, imageUrl: row.image_url }));
+  },
+
+  // Trocar a referência da foto; expectedCurrent evita sobrescrever alteração concorrente
+  async updateImageReference(id: number, imageUrl: string | null, expectedCurrent?: string): Promise<boolean> {
+    await ensureMeasurementSchema();
+    const result = expectedCurrent === undefined
+      ? await pool.query('UPDATE measurements SET image_url = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1', [id, imageUrl])
+      : await pool.query(
+          'UPDATE measurements SET image_url = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND image_url = $3',
+          [id, imageUrl, expectedCurrent]
+        );
+    return (result.rowCount ?? 0) > 0;
+  },
+
+  // Medições com imagem criadas antes do corte, de uma franquia ou das franquias sem prazo próprio
+  async listImagesOlderThan(
+    cutoff: Date,
+    scope: { franchiseId: number } | { excludeFranchiseIds: number[] },
+    afterId: number,
+    limit: number
+  ): Promise<{ id: number; imageUrl: string; franchiseId: number | null; createdAt: Date }[]> {
+    await ensureMeasurementSchema();
+    const scopeCondition = 'franchiseId' in scope
+      ? 'franchise_id = $2'
+      : '(franchise_id IS NULL OR NOT (franchise_id = ANY($2::int[])))';
+    const result = await pool.query(
+      `SELECT id, image_url, franchise_id, created_at FROM measurements
+       WHERE image_url IS NOT NULL AND created_at < $1 AND ${scopeCondition} AND id > $3
+       ORDER BY id ASC
+       LIMIT $4`,
+      [cutoff, 'franchiseId' in scope ? scope.franchiseId : scope.excludeFranchiseIds, afterId, limit]
+    );
+    return result.rows.map((row: any) => ({
+      id: row.id,
+      imageUrl: row.image_url,
+      franchiseId: row.franchise_id,
+      createdAt: row.created_at
+    }));
+  },
+
+  // Excluir e devolver a medição removida, para que o chamador limpe a imagem
+  // A revisão da medição é removida junto (ON DELETE CASCADE)
+  async delete(id: number, db: Queryable = pool): Promise<StoredMeasurement | null> {
+    await ensureMeasurementSchema();
+    const result = await db.query('DELETE FROM measurements WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0] ? rowToMeasurement(result.rows[0]) : null;
+  }
+};
@@ -0,0 +1,258 @@
+import { pool, Queryable } from '../db';
+import { getAppointmentsByUserId } from '../../storage';
+import { measurementRepository } from './measurementRepository';
+import {
+  FacialLandmarks,
+  FrameFitting,
+  MeasurementValues,
+  NewMeasurement,
+  StoredMeasurement
+} from '../types/measurements';
+import { MeasurementReview, ReviewDecision, ReviewStatus } from '../types/reviews';
+
+// Estados em que a medição pode ser usada em pedidos ao laboratório
+const USABLE_STATUSES: ReviewStatus[] = ['approved', 'adjusted'];
+
+// Erro lançado quando uma medição ainda não aprovada é usada em um pedido
+export class MeasurementNotApprovedError extends Error {
+  constructor(public measurementId: number, public status: ReviewStatus) {
+    super(
+      status === 'rejected'
+        ? 'Medição rejeitada na revisão; faça uma nova medição'
+        : 'Medição aguardando revisão do óptico'
+    );
+    this.name = 'MeasurementNotApprovedError';
+    Object.setPrototypeOf(this, MeasurementNotApprovedError.prototype);
+  }
+}
+
+function rowToReview(row: any): MeasurementReview {
+  return {
+    measurementId: row.measurement_id,
+    franchiseId: row.franchise_id,
+    status: row.status,
+    originalValues: row.original_values,
+    adjustedValues: row.adjusted_values,
+    reason: row.reason,
+    landmarks: row.landmarks,
+    frame: row.frame_fitting,
+    reviewerId: row.reviewer_id,
+    reviewedAt: row.reviewed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Valores vigentes da medição: os corrigidos pelo óptico, quando houver
+export function getEffectiveValues(review: MeasurementReview): MeasurementValues {
+  return review.adjustedValues ?? review.originalValues;
+}
+
+// Colocar uma medição digital na fila de revisão
+export async function createPendingReview(data: {
+  measurementId: number;
+  franchiseId: number | null;
+  values: MeasurementValues;
+  landmarks?: FacialLandmarks | null;
+  frame?: FrameFitting | null;
+}, db: Queryable = pool): Promise<MeasurementReview> {
+  const values: MeasurementValues = {
+    dp: data.values.dp,
+    dpnLeft: data.values.dpnLeft,
+    dpnRight: data.values.dpnRight,
+    apLeft: data.values.apLeft,
+    apRight: data.values.apRight
+  };
+
+  const result = await db.query(
+    `INSERT INTO measurement_reviews (measurement_id, franchise_id, original_values, landmarks, frame_fitting)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [
+      data.measurementId,
+      data.franchiseId,
+      JSON.stringify(values),
+      data.landmarks ? JSON.stringify(data.landmarks) : null,
+      data.frame ? JSON.stringify(data.frame) : null
+    ]
+  );
+
+  return rowToReview(result.rows[0]);
+}
+
+// Franquia que revisa as medições de um usuário: a dele ou a da consulta mais recente
+// Nunca vem da requisição: o cliente não escolhe quem aprova a própria medição
+export async function resolveReviewFranchise(user: { id: number; franchiseId?: number | null }): Promise<number | null> {
+  if (user.franchiseId) return user.franchiseId;
+
+  const appointments = await getAppointmentsByUserId(user.id);
+  const lastAppointment = [...appointments].sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  )[0];
+  return lastAppointment?.franchiseId ?? null;
+}
+
+// Criar uma medição já na fila de revisão da franquia da medição
+// Medição e revisão são gravadas na mesma transação: nenhuma fica sem a outra
+export async function createMeasurementForReview(
+  data: NewMeasurement,
+  details: { landmarks?: FacialLandmarks | null; frame?: FrameFitting | null } = {}
+): Promise<{ measurement: StoredMeasurement; review: MeasurementReview }> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const measurement = await measurementRepository.create(data, client);
+    const review = await createPendingReview({
+      measurementId: measurement.id,
+      franchiseId: data.franchiseId ?? null,
+      values: data,
+      landmarks: details.landmarks,
+      frame: details.frame
+    }, client);
+    await client.query('COMMIT');
+    return { measurement, review };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Obter a revisão de uma medição
+export async function getReview(measurementId: number): Promise<MeasurementReview | null> {
+  const result = await pool.query(
+    'SELECT * FROM measurement_reviews WHERE measurement_id = $1',
+    [measurementId]
+  );
+
+  return result.rows[0] ? rowToReview(result.rows[0]) : null;
+}
+
+// Obter as revisões de várias medições em uma única consulta
+export async function getReviews(measurementIds: number[]): Promise<Map<number, MeasurementReview>> {
+  if (measurementIds.length === 0) return new Map();
+
+  const result = await pool.query(
+    'SELECT * FROM measurement_reviews WHERE measurement_id = ANY($1::int[])',
+    [measurementIds]
+  );
+
+  return new Map(result.rows.map(row => [row.measurement_id, rowToReview(row)]));
+}
+
+// Listar revisões de uma franquia por estado, mais antigas primeiro (ordem da fila)
+export async function getReviewQueue(
+  franchiseId: number,
+  status: ReviewStatus = 'pending_review'
+): Promise<MeasurementReview[]> {
+  const result = await pool.query(
+    `SELECT * FROM measurement_reviews
+     WHERE franchise_id = $1 AND status = $2
+     ORDER BY created_at ASC`,
+    [franchiseId, status]
+  );
+
+  return result.rows.map(rowToReview);
+}
+
+// Registrar a decisão do óptico sobre uma medição pendente
+// Retorna null se a medição não está mais pendente (já revisada por outro óptico)
+export async function decideReview(
+  measurementId: number,
+  reviewerId: number,
+  decision: ReviewDecision
+): Promise<MeasurementReview | null> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const current = await client.query(
+      `SELECT * FROM measurement_reviews
+       WHERE measurement_id = $1 AND status = 'pending_review'
+       FOR UPDATE`,
+      [measurementId]
+    );
+
+    if (!current.rows[0]) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const adjustedValues = decision.status === 'adjusted'
+      ? { ...current.rows[0].original_values, ...decision.values }
+      : null;
+    const reason = decision.status === 'approved' ? null : decision.reason;
+
+    const result = await client.query(
+      `UPDATE measurement_reviews
+       SET status = $2, adjusted_values = $3, reason = $4, reviewer_id = $5, reviewed_at = CURRENT_TIMESTAMP
+       WHERE measurement_id = $1
+       RETURNING *`,
+      [
+        measurementId,
+        decision.status,
+        adjustedValues ? JSON.stringify(adjustedValues) : null,
+        reason,
+        reviewerId
+      ]
+    );
+
+    await client.query('COMMIT');
+    return rowToReview(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Obter os valores de uma medição para uso em pedidos ao laboratório
+// Medições manuais sem revisão (lançadas pela equipe da franquia) são aceitas como estão;
+// digitais e as digitadas pelo cliente precisam de revisão aprovada
+export async function requireApprovedMeasurement<T extends MeasurementValues>(
+  measurement: T & { id: number; type: 'manual' | 'digital' }
+): Promise<T> {
+  return approvedValues(measurement, await getReview(measurement.id));
+}
+
+// Manter apenas as medições utilizáveis, com os valores vigentes da revisão
+// Digitais rejeitadas ou aguardando revisão ficam de fora
+export async function listApprovedMeasurements<T extends MeasurementValues & { id: number; type: 'manual' | 'digital' }>(
+  measurements: T[]
+): Promise<T[]> {
+  const reviews = await getReviews(measurements.map(measurement => measurement.id));
+  const approved: T[] = [];
+
+  for (const measurement of measurements) {
+    try {
+      approved.push(approvedValues(measurement, reviews.get(measurement.id) ?? null));
+    } catch (error) {
+      if (!(error instanceof MeasurementNotApprovedError)) throw error;
+    }
+  }
+
+  return approved;
+}
+
+function approvedValues<T extends MeasurementValues>(
+  measurement: T & { id: number; type: 'manual' | 'digital' },
+  review: MeasurementReview | null
+): T {
+  if (!review) {
+    // Digital sem revisão nunca passou pelo óptico: tratada como pendente
+    if (measurement.type === 'digital') {
+      throw new MeasurementNotApprovedError(measurement.id, 'pending_review');
+    }
+    return measurement;
+  }
+
+  if (!USABLE_STATUSES.includes(review.status)) {
+    throw new MeasurementNotApprovedError(measurement.id, review.status);
+  }
+
+  return { ...measurement, ...getEffectiveValues(review) };
+}
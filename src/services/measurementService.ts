@@ -1,13 +1,75 @@
 import * as tf from '@tensorflow/tfjs-node';
 import * as faceapi from 'face-api.js';
 import { canvas, faceDetectionNet, faceDetectionOptions } from '../utils/faceDetection';
-import { calculateMeasurements } from '../utils/measurementCalculations';
-import { MeasurementQuality } from '../types/measurements';
+import { calculateMeasurements, calculateNearPd, compensateYaw } from '../utils/measurementCalculations';
+import {
+  detectReferenceCard,
+  detectIrisCalibration,
+  estimateCameraDistance,
+  CalibrationError
+} from '../utils/calibration';
+import { refinePupilCenter } from '../utils/pupilDetection';
+import { detectFrameFitting, FrameDetectionError } from '../utils/frameDetection';
+import {
+  estimateHeadPose,
+  checkHeadPose,
+  HeadPoseError,
+  HeadPoseLimits,
+  DEFAULT_HEAD_POSE_LIMITS
+} from '../utils/headPose';
+import { median, robustSpread } from '../utils/statistics';
+import { validateImageQuality, QualityFaceLandmarks } from '../utils/imageProcessing';
+import { DEFAULT_QUALITY_THRESHOLDS, eyeAspectRatio } from '../utils/imageQuality';
+import {
+  ApReference,
+  BurstAnalysis,
+  BurstDiscardReason,
+  Calibration,
+  CaptureMode,
+  EyeRegion,
+  FrameFitting,
+  HeadPose,
+  ImageMetadata,
+  ImageRegion,
+  MeasurementQuality,
+  MeasurementValues,
+  NearPd,
+  PupilCenter,
+  QualityThresholds
+} from '../types/measurements';
+
+// Confiança mínima da pupila refinada para não gerar aviso
+const MIN_PUPIL_CONFIDENCE = 0.5;
+
+// Limites da sequência de quadros (burst)
+export const MIN_BURST_FRAMES = 3;
+export const MAX_BURST_FRAMES = 15;
+
+// Desvio, em múltiplos da dispersão robusta, acima do qual um quadro é descartado
+const OUTLIER_THRESHOLD = 3;
+
+// Desvio mínimo em mm para considerar um quadro atípico (evita descartar
+// quadros bons quando a dispersão é quase zero)
+const MIN_OUTLIER_DEVIATION_MM = 1;
+
+// Abaixo desta distância câmera-rosto a convergência dos olhos reduz a DP medida
+const MIN_CAMERA_DISTANCE_MM = 350;
+
+const MEASUREMENT_KEYS: (keyof MeasurementValues)[] = ['dp', 'dpnLeft', 'dpnRight', 'apLeft', 'apRight'];
+
+// Opções da análise de medições
+export interface MeasurementAnalysisOptions {
+  mode?: CaptureMode;
+  poseLimits?: HeadPoseLimits;
+  workingDistance?: number; // Distância de leitura para a DP de perto, em mm
+  imageMetadata?: ImageMetadata; // Metadados da ingestão; a distância focal permite estimar a distância da câmera
+  qualityThresholds?: QualityThresholds; // Limites de qualidade da franquia
+}
 
 // Inicializar modelos do face-api.js
 let modelsLoaded = false;
 
-async function loadModels() {
+export async function loadModels() {
   if (!modelsLoaded) {
     await faceapi.nets.tinyFaceDetector.loadFromDisk('models');
     await faceapi.nets.faceLandmark68Net.loadFromDisk('models');
@@ -22,6 +84,20 @@ export async function detectFacialLandmarks(imageData: string): Promise<{
     leftEye: { x: number; y: number };
     rightEye: { x: number; y: number };
     nose: { x: number; y: number };
+    eyeRegions: {
+      left: EyeRegion;
+      right: EyeRegion;
+    };
+    pupils: {
+      left: PupilCenter;
+      right: PupilCenter;
+    };
+    pose?: HeadPose;
+    faceRegion: ImageRegion;
+    eyeOpenness: {
+      left: number;
+      right: number;
+    };
   };
   confidence: number;
 }> {
@@ -44,7 +120,7 @@ export async function detectFacialLandmarks(imageData: string): Promise<{
     const rightEye = landmarks.getRightEye();
     const nose = landmarks.getNose();
 
-    // Calcular centro dos olhos
+    // Centroide do contorno do olho, usado como ponto de partida da busca da pupila
     const leftEyeCenter = {
       x: leftEye.reduce((sum, point) => sum + point.x, 0) / leftEye.length,
       y: leftEye.reduce((sum, point) => sum + point.y, 0) / leftEye.length
@@ -60,14 +136,48 @@ export async function detectFacialLandmarks(imageData: string): Promise<{
       y: nose.reduce((sum, point) => sum + point.y, 0) / nose.length
     };
 
+    const eyeRegions = {
+      left: calculateEyeRegion(leftEye),
+      right: calculateEyeRegion(rightEye)
+    };
+
+    // Refinar o centro da pupila dentro de cada olho; sem pupila detectada,
+    // mantém o centroide do contorno com confiança zero
+    const pixels = canvas.createCanvas(image.width, image.height);
+    const ctx = pixels.getContext('2d');
+    ctx.drawImage(image, 0, 0);
+
+    const pupils = {
+      left: refinePupilCenter(ctx, eyeRegions.left, image.width, image.height) ||
+        { ...leftEyeCenter, confidence: 0 },
+      right: refinePupilCenter(ctx, eyeRegions.right, image.width, image.height) ||
+        { ...rightEyeCenter, confidence: 0 }
+    };
+
+    // Estimar yaw, pitch e roll a partir dos 68 pontos
+    const pose = estimateHeadPose(landmarks.positions) || undefined;
+
+    // Caixa do rosto e abertura dos olhos, usadas na avaliação de qualidade
+    const box = detections.detection.box;
+    const faceRegion = { x: box.x, y: box.y, width: box.width, height: box.height };
+    const eyeOpenness = {
+      left: eyeAspectRatio(leftEye),
+      right: eyeAspectRatio(rightEye)
+    };
+
     // Calcular confiança baseada na qualidade da detecção
     const confidence = detections.detection.score;
 
     return {
       landmarks: {
-        leftEye: leftEyeCenter,
-        rightEye: rightEyeCenter,
-        nose: noseCenter
+        leftEye: { x: pupils.left.x, y: pupils.left.y },
+        rightEye: { x: pupils.right.x, y: pupils.right.y },
+        nose: noseCenter,
+        eyeRegions,
+        pupils,
+        pose,
+        faceRegion,
+        eyeOpenness
       },
       confidence
     };
@@ -77,6 +187,21 @@ export async function detectFacialLandmarks(imageData: string): Promise<{
   }
 }
 
+// Calcular retângulo envolvente do contorno de um olho
+function calculateEyeRegion(points: { x: number; y: number }[]): EyeRegion {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+}
+
 // Analisar medições
 export async function analyzeMeasurements(
   imageData: string,
@@ -84,157 +209,311 @@ export async function analyzeMeasurements(
     leftEye: { x: number; y: number };
     rightEye: { x: number; y: number };
     nose: { x: number; y: number };
-  }
+    eyeRegions?: {
+      left: EyeRegion;
+      right: EyeRegion;
+    };
+    pupils?: {
+      left: PupilCenter;
+      right: PupilCenter;
+    };
+    pose?: HeadPose;
+    faceRegion?: ImageRegion;
+    eyeOpenness?: {
+      left: number;
+      right: number;
+    };
+    confidence: number;
+  },
+  options: MeasurementAnalysisOptions = {}
 ): Promise<{
   dp: number;
   dpnLeft: number;
   dpnRight: number;
   apLeft: number;
   apRight: number;
+  apReference: ApReference;
+  frame?: FrameFitting;
+  near: NearPd;
+  calibration: Calibration;
+  pose?: HeadPose;
   quality: MeasurementQuality;
   confidence: number;
   warnings: string[];
 }> {
+  const mode = options.mode || 'face';
+  const poseLimits = options.poseLimits || DEFAULT_HEAD_POSE_LIMITS;
+
   try {
-    // Carregar imagem para análise
-    const image = await canvas.loadImage(imageData);
-    const imageWidth = image.width;
-    const imageHeight = image.height;
+    // Rejeitar capturas com o rosto fora dos limites de pose
+    if (landmarks.pose) {
+      const violations = checkHeadPose(landmarks.pose, poseLimits);
+      if (violations.length > 0) {
+        throw new HeadPoseError(
+          'Posição da cabeça inadequada para medição',
+          landmarks.pose,
+          violations
+        );
+      }
+    }
+
+    // Calibrar escala com o cartão de referência na testa e, na falta
+    // dele, com o diâmetro visível da íris
+    const calibration =
+      (await detectReferenceCard(imageData, landmarks)) ||
+      (landmarks.eyeRegions
+        ? await detectIrisCalibration(imageData, landmarks.eyeRegions)
+        : null);
+
+    if (!calibration) {
+      throw new CalibrationError(
+        'Não foi possível calibrar a escala. Posicione um cartão de tamanho padrão na testa ou mantenha os olhos bem abertos e tente novamente.'
+      );
+    }
+
+    // Com a distância focal do EXIF, estimar a que distância a foto foi tirada
+    const cameraDistance = options.imageMetadata
+      ? estimateCameraDistance(calibration.mmPerPixel, options.imageMetadata)
+      : null;
+    if (cameraDistance !== null) {
+      calibration.cameraDistance = Math.round(cameraDistance);
+    }
+
+    // Calcular medições usando os landmarks, corrigindo o yaw residual
+    const rawMeasurements = calculateMeasurements(landmarks, calibration.mmPerPixel);
+    const compensated = landmarks.pose
+      ? compensateYaw(rawMeasurements, landmarks.pose.yaw)
+      : rawMeasurements;
+
+    // Com a armação no rosto, a AP é medida até o aro inferior (boxing)
+    let frame: FrameFitting | undefined;
+    if (mode === 'frame') {
+      frame = landmarks.eyeRegions
+        ? (await detectFrameFitting(
+            imageData,
+            { ...landmarks, eyeRegions: landmarks.eyeRegions },
+            calibration.mmPerPixel
+          )) || undefined
+        : undefined;
 
-    // Calcular medições usando os landmarks
-    const measurements = calculateMeasurements(landmarks, imageWidth, imageHeight);
+      if (!frame) {
+        throw new FrameDetectionError(
+          'Não foi possível identificar o aro da armação. Verifique se a armação está bem visível e sem reflexos.'
+        );
+      }
+    }
+
+    const apReference: ApReference = frame ? 'frame' : 'nose';
+    const measurements = frame
+      ? { ...compensated, apLeft: frame.apLeft, apRight: frame.apRight }
+      : compensated;
 
     // Verificar qualidade da imagem
-    const quality = await assessImageQuality(imageData, landmarks);
+    const quality = await assessImageQuality(imageData, landmarks, options.qualityThresholds, poseLimits);
 
     // Gerar avisos baseados na qualidade e medições
-    const warnings = generateWarnings(measurements, quality, landmarks.confidence);
+    const warnings = generateWarnings(
+      measurements,
+      quality,
+      landmarks.confidence,
+      landmarks.pupils,
+      landmarks.pose,
+      poseLimits,
+      apReference
+    );
+
+    if (cameraDistance !== null && cameraDistance < MIN_CAMERA_DISTANCE_MM) {
+      warnings.push(
+        `A foto foi tirada a cerca de ${Math.round(cameraDistance / 10)}cm do rosto. Afaste a câmera para pelo menos ${MIN_CAMERA_DISTANCE_MM / 10}cm para evitar a convergência dos olhos.`
+      );
+    }
 
     return {
       ...measurements,
+      apReference,
+      frame,
+      near: calculateNearPd(measurements, { workingDistance: options.workingDistance }),
+      calibration,
+      pose: landmarks.pose,
       quality,
       confidence: landmarks.confidence,
       warnings
     };
   } catch (error) {
+    if (
+      error instanceof CalibrationError ||
+      error instanceof HeadPoseError ||
+      error instanceof FrameDetectionError
+    ) {
+      throw error;
+    }
     console.error('Erro na análise de medições:', error);
     throw new Error('Falha ao analisar medições');
   }
 }
 
-// Avaliar qualidade da imagem
-async function assessImageQuality(
-  imageData: string,
-  landmarks: {
-    leftEye: { x: number; y: number };
-    rightEye: { x: number; y: number };
-    nose: { x: number; y: number };
+// Analisar uma sequência de quadros e agregar as medições pela mediana
+export async function analyzeBurst(
+  images: string[],
+  options: MeasurementAnalysisOptions = {}
+): Promise<BurstAnalysis> {
+  const discarded: BurstAnalysis['discarded'] = [];
+  const frames: {
+    index: number;
+    result: Awaited<ReturnType<typeof analyzeMeasurements>>;
+  }[] = [];
+
+  // Quadros processados em sequência para não multiplicar o uso de memória do canvas
+  for (let index = 0; index < images.length; index++) {
+    const reason = await analyzeBurstFrame(images[index], options)
+      .then(result => {
+        // Quadros desfocados ou mal iluminados não entram na agregação
+        if (result.quality === 'low') return 'blur' as const;
+        frames.push({ index, result });
+        return null;
+      })
+      .catch(classifyBurstError);
+
+    if (reason) {
+      discarded.push({ index, reason });
+    }
   }
-): Promise<MeasurementQuality> {
-  try {
-    const image = await canvas.loadImage(imageData);
-    
-    // Verificar resolução
-    const minResolution = 640 * 480;
-    const resolution = image.width * image.height;
-    
-    // Verificar iluminação
-    const brightness = await calculateBrightness(image);
-    
-    // Verificar nitidez
-    const sharpness = await calculateSharpness(image);
-    
-    // Verificar ângulo do rosto
-    const faceAngle = calculateFaceAngle(landmarks);
-    
-    // Pontuação geral
-    let score = 0;
-    
-    // Resolução
-    if (resolution >= minResolution) score += 2;
-    else if (resolution >= minResolution * 0.75) score += 1;
-    
-    // Iluminação
-    if (brightness >= 0.4 && brightness <= 0.8) score += 2;
-    else if (brightness >= 0.3 && brightness <= 0.9) score += 1;
-    
-    // Nitidez
-    if (sharpness >= 0.7) score += 2;
-    else if (sharpness >= 0.5) score += 1;
-    
-    // Ângulo do rosto
-    if (Math.abs(faceAngle) <= 5) score += 2;
-    else if (Math.abs(faceAngle) <= 15) score += 1;
-    
-    // Determinar qualidade
-    if (score >= 7) return 'high';
-    if (score >= 4) return 'medium';
-    return 'low';
-  } catch (error) {
-    console.error('Erro ao avaliar qualidade:', error);
-    return 'low';
+
+  if (frames.length < MIN_BURST_FRAMES) {
+    throw new BurstError(
+      `Apenas ${frames.length} de ${images.length} quadros puderam ser usados. Mantenha o rosto parado e de frente para a câmera e tente novamente.`,
+      discarded
+    );
+  }
+
+  // Descartar quadros atípicos em qualquer uma das medidas
+  const centers = aggregate(frames.map(frame => frame.result), median);
+  const spreads = aggregate(frames.map(frame => frame.result), robustSpread);
+
+  const inliers = frames.filter(frame => {
+    const isOutlier = MEASUREMENT_KEYS.some(key => {
+      const limit = Math.max(spreads[key] * OUTLIER_THRESHOLD, MIN_OUTLIER_DEVIATION_MM);
+      return Math.abs(frame.result[key] - centers[key]) > limit;
+    });
+
+    if (isOutlier) {
+      discarded.push({ index: frame.index, reason: 'outlier' });
+    }
+    return !isOutlier;
+  });
+
+  if (inliers.length < MIN_BURST_FRAMES) {
+    throw new BurstError(
+      'As medições variaram demais entre os quadros. Mantenha o rosto parado e tente novamente.',
+      discarded
+    );
+  }
+
+  const results = inliers.map(frame => frame.result);
+  const values = aggregate(results, median);
+  const spread = aggregate(results, robustSpread);
+
+  // Calibração do quadro mais próximo da DP mediana
+  const representative = results.reduce((best, result) =>
+    Math.abs(result.dp - values.dp) < Math.abs(best.dp - values.dp) ? result : best
+  );
+
+  // Avisos presentes na maioria dos quadros usados
+  const warningCounts = new Map<string, number>();
+  for (const result of results) {
+    for (const warning of result.warnings) {
+      warningCounts.set(warning, (warningCounts.get(warning) || 0) + 1);
+    }
   }
+
+  const warnings = Array.from(warningCounts.entries())
+    .filter(([, count]) => count > results.length / 2)
+    .map(([warning]) => warning);
+
+  if (spread.dp > 1) {
+    warnings.push(`A DP variou ±${spread.dp.toFixed(1)}mm entre os quadros. Considere repetir a captura.`);
+  }
+
+  return {
+    ...values,
+    spread,
+    framesUsed: inliers.length,
+    framesTotal: images.length,
+    discarded: discarded.sort((a, b) => a.index - b.index),
+    apReference: representative.apReference,
+    near: calculateNearPd(values, { workingDistance: options.workingDistance }),
+    calibration: representative.calibration,
+    warnings
+  };
 }
 
-// Calcular brilho da imagem
-async function calculateBrightness(image: HTMLCanvasElement): Promise<number> {
-  const ctx = image.getContext('2d');
-  const imageData = ctx.getImageData(0, 0, image.width, image.height);
-  const data = imageData.data;
-  
-  let brightness = 0;
-  for (let i = 0; i < data.length; i += 4) {
-    brightness += (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+// Erro lançado quando a sequência não tem quadros válidos suficientes
+export class BurstError extends Error {
+  constructor(
+    message: string,
+    public discarded: BurstAnalysis['discarded']
+  ) {
+    super(message);
+    this.name = 'BurstError';
+    Object.setPrototypeOf(this, BurstError.prototype);
   }
-  
-  return brightness / (data.length / 4);
 }
 
-// Calcular nitidez da imagem
-async function calculateSharpness(image: HTMLCanvasElement): Promise<number> {
-  const ctx = image.getContext('2d');
-  const imageData = ctx.getImageData(0, 0, image.width, image.height);
-  const data = imageData.data;
-  
-  let sharpness = 0;
-  const width = image.width;
-  
-  for (let y = 1; y < image.height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      
-      // Calcular diferença entre pixels adjacentes
-      const diffX = Math.abs(
-        data[idx] - data[idx + 4] +
-        data[idx + 1] - data[idx + 5] +
-        data[idx + 2] - data[idx + 6]
-      );
-      
-      const diffY = Math.abs(
-        data[idx] - data[idx + width * 4] +
-        data[idx + 1] - data[idx + width * 4 + 1] +
-        data[idx + 2] - data[idx + width * 4 + 2]
-      );
-      
-      sharpness += (diffX + diffY) / 6;
-    }
+// Detectar landmarks e medir um único quadro da sequência
+async function analyzeBurstFrame(
+  image: string,
+  options: MeasurementAnalysisOptions
+) {
+  const { landmarks, confidence } = await detectFacialLandmarks(image)
+    .catch(() => {
+      throw new BurstFrameError('no_face');
+    });
+
+  return analyzeMeasurements(image, { ...landmarks, confidence }, options);
+}
+
+// Marca quadros sem rosto detectado, que não têm erro tipado próprio
+class BurstFrameError extends Error {
+  constructor(public reason: BurstDiscardReason) {
+    super(reason);
+    Object.setPrototypeOf(this, BurstFrameError.prototype);
   }
-  
-  return sharpness / (image.width * image.height);
 }
 
-// Calcular ângulo do rosto
-function calculateFaceAngle(landmarks: {
-  leftEye: { x: number; y: number };
-  rightEye: { x: number; y: number };
-  nose: { x: number; y: number };
-}): number {
-  const eyeAngle = Math.atan2(
-    landmarks.rightEye.y - landmarks.leftEye.y,
-    landmarks.rightEye.x - landmarks.leftEye.x
-  );
-  
-  return (eyeAngle * 180) / Math.PI;
+// Converter erro de análise em motivo de descarte
+function classifyBurstError(error: unknown): BurstDiscardReason {
+  if (error instanceof BurstFrameError) return error.reason;
+  if (error instanceof HeadPoseError) return 'pose';
+  if (error instanceof CalibrationError) return 'calibration';
+  if (error instanceof FrameDetectionError) return 'frame';
+
+  console.error('Erro ao analisar quadro da sequência:', error);
+  return 'error';
+}
+
+// Aplicar uma função de agregação a cada medida
+function aggregate(
+  results: MeasurementValues[],
+  fn: (values: number[]) => number
+): MeasurementValues {
+  return {
+    dp: fn(results.map(result => result.dp)),
+    dpnLeft: fn(results.map(result => result.dpnLeft)),
+    dpnRight: fn(results.map(result => result.dpnRight)),
+    apLeft: fn(results.map(result => result.apLeft)),
+    apRight: fn(results.map(result => result.apRight))
+  };
+}
+
+// Avaliar qualidade da imagem com as métricas de regiões do rosto e dos olhos
+async function assessImageQuality(
+  imageData: string,
+  landmarks: QualityFaceLandmarks,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  poseLimits: HeadPoseLimits = DEFAULT_HEAD_POSE_LIMITS
+): Promise<MeasurementQuality> {
+  const analysis = await validateImageQuality(imageData, landmarks, thresholds, poseLimits);
+  return analysis.quality;
 }
 
 // Gerar avisos baseados na análise
@@ -247,7 +526,14 @@ function generateWarnings(
     apRight: number;
   },
   quality: MeasurementQuality,
-  confidence: number
+  confidence: number,
+  pupils?: {
+    left: PupilCenter;
+    right: PupilCenter;
+  },
+  pose?: HeadPose,
+  poseLimits: HeadPoseLimits = DEFAULT_HEAD_POSE_LIMITS,
+  apReference: ApReference = 'nose'
 ): string[] {
   const warnings: string[] = [];
 
@@ -261,6 +547,20 @@ function generateWarnings(
     warnings.push('A detecção facial não está muito precisa. Tente reposicionar o rosto.');
   }
 
+  // Avisos de localização das pupilas
+  if (pupils && (pupils.left.confidence < MIN_PUPIL_CONFIDENCE || pupils.right.confidence < MIN_PUPIL_CONFIDENCE)) {
+    warnings.push('Não foi possível localizar as pupilas com precisão. Olhe diretamente para a câmera com os olhos bem abertos.');
+  }
+
+  // Avisos de pose próxima dos limites
+  if (pose && Math.abs(pose.yaw) > poseLimits.yaw / 2) {
+    warnings.push('O rosto está levemente virado. A DP e a DPN foram corrigidas, mas o ideal é olhar de frente para a câmera.');
+  }
+
+  if (pose && (Math.abs(pose.pitch) > poseLimits.pitch / 2 || Math.abs(pose.roll) > poseLimits.roll / 2)) {
+    warnings.push('A cabeça está levemente inclinada. Mantenha o rosto reto e alinhado com a câmera.');
+  }
+
   // Avisos de medições
   if (Math.abs(measurements.dpnLeft - measurements.dpnRight) > 2) {
     warnings.push('Há uma diferença significativa entre as medições dos olhos esquerdo e direito.');
@@ -283,12 +583,19 @@ function generateWarnings(
     warnings.push('A distância pupilar nasal direita está fora do intervalo normal.');
   }
 
-  if (measurements.apLeft < 22 || measurements.apLeft > 32) {
-    warnings.push('A altura pupilar esquerda está fora do intervalo normal.');
-  }
+  if (apReference === 'frame') {
+    // Alturas de montagem abaixo de 14mm não comportam o corredor de lentes progressivas
+    if (Math.min(measurements.apLeft, measurements.apRight) < 14) {
+      warnings.push('A altura de montagem está baixa para lentes progressivas. Considere uma armação com aro mais alto.');
+    }
+  } else {
+    if (measurements.apLeft < 22 || measurements.apLeft > 32) {
+      warnings.push('A altura pupilar esquerda está fora do intervalo normal.');
+    }
 
-  if (measurements.apRight < 22 || measurements.apRight > 32) {
-    warnings.push('A altura pupilar direita está fora do intervalo normal.');
+    if (measurements.apRight < 22 || measurements.apRight > 32) {
+      warnings.push('A altura pupilar direita está fora do intervalo normal.');
+    }
   }
 
   return warnings;
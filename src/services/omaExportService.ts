@@ -0,0 +1,98 @@
+import { FittingSheetContent, FittingSheetError } from './fittingSheetService';
+import { transposeEye } from '../utils/prescription';
+import { OmaParseError, parseOmaJob, prismBaseAngle, serializeOmaJob } from '../utils/oma';
+import { FrameSpec } from '../types/frames';
+import { LabJob } from '../types/labJobs';
+import { OmaEdgeType, OmaEye, OmaJob } from '../types/oma';
+import { EyeRefraction } from '../types/prescriptions';
+
+// Tipo de borda pedido ao laboratório conforme o aro da armação
+const EDGE_TYPES: Record<FrameSpec['rimType'], OmaEdgeType> = {
+  full: 1,
+  semi: 3,
+  rimless: 2
+};
+
+// Montar o pedido OMA de um serviço a partir da receita, da medição aprovada e da armação
+// A altura de montagem (SEGHT) é medida até o aro inferior; alturas até o nariz não servem ao laboratório
+export function buildOmaJob(job: LabJob, customerName: string | null, content: FittingSheetContent): OmaJob {
+  const { measurement, prescription, frameSpec, frameFitting } = content;
+
+  if (measurement.apReference !== 'frame') {
+    throw new FittingSheetError(
+      409,
+      'A medição não tem altura pupilar em relação ao aro; meça o cliente usando a armação escolhida'
+    );
+  }
+
+  const eye = (
+    refraction: EyeRefraction,
+    side: 'right' | 'left',
+    measured: { dpn: number; nearDpn: number | null; ap: number; b: number | null }
+  ): OmaEye => {
+    // Laboratórios trabalham com cilindro negativo
+    const minus = transposeEye(refraction, 'minus');
+
+    return {
+      sphere: minus.sphere,
+      cylinder: minus.cylinder,
+      axis: minus.cylinder === 0 ? null : minus.axis,
+      add: minus.add,
+      prism: minus.prism,
+      prismAngle: minus.prismBase ? prismBaseAngle(minus.prismBase, side) : null,
+      ipd: measured.dpn,
+      npd: measured.nearDpn,
+      segmentHeight: measured.ap,
+      hbox: frameSpec?.a ?? null,
+      vbox: frameSpec?.b ?? measured.b,
+      fed: frameSpec?.ed ?? null
+    };
+  };
+
+  return {
+    jobNumber: job.jobNumber,
+    client: customerName,
+    right: eye(prescription.rightEye, 'right', {
+      dpn: measurement.dpnRight,
+      nearDpn: measurement.near?.dpnRight ?? null,
+      ap: measurement.apRight,
+      b: frameFitting?.bRight ?? null
+    }),
+    left: eye(prescription.leftEye, 'left', {
+      dpn: measurement.dpnLeft,
+      nearDpn: measurement.near?.dpnLeft ?? null,
+      ap: measurement.apLeft,
+      b: frameFitting?.bLeft ?? null
+    }),
+    dbl: frameSpec?.dbl ?? null,
+    edgeType: frameSpec ? EDGE_TYPES[frameSpec.rimType] : null
+  };
+}
+
+// Arquivo OMA gerado que não é lido de volta igual; não pode ser enviado ao laboratório
+export class OmaRoundTripError extends Error {
+  constructor(public jobNumber: string, public errors: string[] = []) {
+    super(`Arquivo OMA do serviço ${jobNumber} não confere após releitura${errors.length > 0 ? `: ${errors.join('; ')}` : ''}`);
+    this.name = 'OmaRoundTripError';
+    Object.setPrototypeOf(this, OmaRoundTripError.prototype);
+  }
+}
+
+// Gerar o arquivo OMA de um serviço, conferindo que ele é lido de volta sem perdas
+export function exportLabJobOma(job: LabJob, customerName: string | null, content: FittingSheetContent): string {
+  const text = serializeOmaJob(buildOmaJob(job, customerName, content));
+
+  let reread: string;
+  try {
+    reread = serializeOmaJob(parseOmaJob(text));
+  } catch (error) {
+    if (error instanceof OmaParseError) throw new OmaRoundTripError(job.jobNumber, error.errors);
+    throw error;
+  }
+
+  if (reread !== text) {
+    throw new OmaRoundTripError(job.jobNumber);
+  }
+
+  return text;
+}
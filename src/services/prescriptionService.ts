@@ -0,0 +1,168 @@
+import { pool } from '../db';
+import {
+  EyeRefraction,
+  InsertPrescription,
+  Prescription,
+  UpdatePrescription
+} from '../types/prescriptions';
+
+// Colunas de refração por olho, na ordem usada nos INSERT/UPDATE
+const EYE_COLUMNS = ['sphere', 'cylinder', 'axis', 'add', 'prism', 'prism_base'] as const;
+
+// Converter DECIMAL do pg (string) para número
+function toNumber(value: string | number | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+// Montar a refração de um olho a partir das colunas com prefixo od_/os_
+function rowToEye(row: any, prefix: 'od' | 'os'): EyeRefraction {
+  return {
+    sphere: Number(row[`${prefix}_sphere`]),
+    cylinder: Number(row[`${prefix}_cylinder`]),
+    axis: row[`${prefix}_axis`],
+    add: toNumber(row[`${prefix}_add`]),
+    prism: toNumber(row[`${prefix}_prism`]),
+    prismBase: row[`${prefix}_prism_base`]
+  };
+}
+
+function eyeToValues(eye: EyeRefraction): unknown[] {
+  return [eye.sphere, eye.cylinder, eye.axis, eye.add, eye.prism, eye.prismBase];
+}
+
+function rowToPrescription(row: any): Prescription {
+  return {
+    id: row.id,
+    customerId: row.customer_id,
+    franchiseId: row.franchise_id,
+    rightEye: rowToEye(row, 'od'),
+    leftEye: rowToEye(row, 'os'),
+    prescriber: row.prescriber,
+    prescriberRegistry: row.prescriber_registry,
+    issueDate: row.issue_date,
+    expiryDate: row.expiry_date,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Listar receitas de um cliente em uma franquia, mais recentes primeiro
+export async function getPrescriptionsByCustomer(
+  customerId: number,
+  franchiseId: number
+): Promise<Prescription[]> {
+  const result = await pool.query(
+    `SELECT * FROM prescriptions
+     WHERE customer_id = $1 AND franchise_id = $2
+     ORDER BY issue_date DESC, id DESC`,
+    [customerId, franchiseId]
+  );
+
+  return result.rows.map(rowToPrescription);
+}
+
+// Obter uma receita de um cliente
+export async function getPrescription(
+  id: number,
+  customerId: number,
+  franchiseId: number
+): Promise<Prescription | null> {
+  const result = await pool.query(
+    'SELECT * FROM prescriptions WHERE id = $1 AND customer_id = $2 AND franchise_id = $3',
+    [id, customerId, franchiseId]
+  );
+
+  return result.rows[0] ? rowToPrescription(result.rows[0]) : null;
+}
+
+// Criar receita
+export async function createPrescription(data: InsertPrescription): Promise<Prescription> {
+  const eyeColumns = ['od', 'os'].flatMap(prefix => EYE_COLUMNS.map(column => `${prefix}_${column}`));
+  const columns = [
+    'customer_id',
+    'franchise_id',
+    ...eyeColumns,
+    'prescriber',
+    'prescriber_registry',
+    'issue_date',
+    'expiry_date',
+    'notes'
+  ];
+  const values = [
+    data.customerId,
+    data.franchiseId,
+    ...eyeToValues(data.rightEye),
+    ...eyeToValues(data.leftEye),
+    data.prescriber,
+    data.prescriberRegistry ?? null,
+    data.issueDate,
+    data.expiryDate,
+    data.notes ?? null
+  ];
+
+  const result = await pool.query(
+    `INSERT INTO prescriptions (${columns.join(', ')})
+     VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})
+     RETURNING *`,
+    values
+  );
+
+  return rowToPrescription(result.rows[0]);
+}
+
+// Atualizar receita; olhos informados substituem a refração inteira daquele olho
+export async function updatePrescription(
+  id: number,
+  customerId: number,
+  franchiseId: number,
+  data: UpdatePrescription
+): Promise<Prescription | null> {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  const set = (column: string, value: unknown) => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  };
+
+  for (const [prefix, eye] of [['od', data.rightEye], ['os', data.leftEye]] as const) {
+    if (!eye) continue;
+    const eyeValues = eyeToValues(eye);
+    EYE_COLUMNS.forEach((column, index) => set(`${prefix}_${column}`, eyeValues[index]));
+  }
+
+  if (data.prescriber !== undefined) set('prescriber', data.prescriber);
+  if (data.prescriberRegistry !== undefined) set('prescriber_registry', data.prescriberRegistry);
+  if (data.issueDate !== undefined) set('issue_date', data.issueDate);
+  if (data.expiryDate !== undefined) set('expiry_date', data.expiryDate);
+  if (data.notes !== undefined) set('notes', data.notes);
+
+  if (assignments.length === 0) {
+    return getPrescription(id, customerId, franchiseId);
+  }
+
+  values.push(id, customerId, franchiseId);
+  const result = await pool.query(
+    `UPDATE prescriptions SET ${assignments.join(', ')}
+     WHERE id = $${values.length - 2} AND customer_id = $${values.length - 1} AND franchise_id = $${values.length}
+     RETURNING *`,
+    values
+  );
+
+  return result.rows[0] ? rowToPrescription(result.rows[0]) : null;
+}
+
+// Excluir receita
+export async function deletePrescription(
+  id: number,
+  customerId: number,
+  franchiseId: number
+): Promise<boolean> {
+  const result = await pool.query(
+    'DELETE FROM prescriptions WHERE id = $1 AND customer_id = $2 AND franchise_id = $3',
+    [id, customerId, franchiseId]
+  );
+
+  return (result.rowCount ?? 0) > 0;
+}
@@ -0,0 +1,58 @@
+import { pool } from '../db';
+import { QualitySetting, QualityThresholds } from '../types/measurements';
+import { DEFAULT_QUALITY_THRESHOLDS } from '../utils/imageQuality';
+
+function rowToSetting(row: any): QualitySetting {
+  return {
+    franchiseId: row.franchise_id,
+    thresholds: row.thresholds ?? {},
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at
+  };
+}
+
+// Obter os limites sobrepostos por uma franquia, se houver
+export async function getQualitySetting(franchiseId: number): Promise<QualitySetting | null> {
+  const result = await pool.query(
+    'SELECT * FROM franchise_quality_settings WHERE franchise_id = $1',
+    [franchiseId]
+  );
+  return result.rows[0] ? rowToSetting(result.rows[0]) : null;
+}
+
+// Combinar os limites padrão com os da franquia
+export function mergeQualityThresholds(overrides: Partial<QualityThresholds> = {}): QualityThresholds {
+  return { ...DEFAULT_QUALITY_THRESHOLDS, ...overrides };
+}
+
+// Limites efetivos de uma franquia (os padrões quando não há franquia ou configuração)
+// Uma falha na leitura não impede a medição: os padrões são usados
+export async function getQualityThresholds(franchiseId?: number | null): Promise<QualityThresholds> {
+  if (franchiseId == null) return DEFAULT_QUALITY_THRESHOLDS;
+
+  try {
+    const setting = await getQualitySetting(franchiseId);
+    return mergeQualityThresholds(setting?.thresholds);
+  } catch (error) {
+    console.error('Erro ao buscar limites de qualidade da franquia, usando os padrões:', error);
+    return DEFAULT_QUALITY_THRESHOLDS;
+  }
+}
+
+// Definir os limites de uma franquia; os limites omitidos voltam ao padrão
+export async function setQualityThresholds(
+  franchiseId: number,
+  thresholds: Partial<QualityThresholds>,
+  updatedBy: number
+): Promise<QualitySetting> {
+  const result = await pool.query(
+    `INSERT INTO franchise_quality_settings (franchise_id, thresholds, updated_by)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (franchise_id) DO UPDATE SET
+       thresholds = EXCLUDED.thresholds,
+       updated_by = EXCLUDED.updated_by
+     RETURNING *`,
+    [franchiseId, JSON.stringify(thresholds), updatedBy]
+  );
+  return rowToSetting(result.rows[0]);
+}
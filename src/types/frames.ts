@@ -0,0 +1,49 @@
+import { Decentration, FrameDimensions } from './lenses';
+
+// Tipo de aro da armação
+export type RimType = 'full' | 'semi' | 'rimless';
+
+// Ficha técnica de uma armação do catálogo (produto do inventário)
+export interface FrameSpec extends FrameDimensions {
+  productId: number;
+  templeLength: number; // Comprimento da haste, em mm
+  material: string;
+  rimType: RimType;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type InsertFrameSpec = Omit<FrameSpec, 'productId' | 'createdAt' | 'updatedAt'>;
+
+// Armação avaliada para as DPNs de um cliente
+export interface FrameFit {
+  productId: number;
+  frameCenterDistance: number; // Distância entre centros geométricos (A + DBL)
+  decentration: {
+    rightEye: Decentration;
+    leftEye: Decentration;
+  };
+  maxDecentration: number;
+  minimumBlankSize: number;
+}
+
+// Dimensões de boxing calculadas a partir do traçado, com o perímetro da lente
+export interface TracedFrameDimensions extends FrameDimensions {
+  circumference: number; // Perímetro do contorno, em mm
+}
+
+// Contorno das lentes lido de um arquivo de traçadora (OMA TRCFMT)
+// Raios em mm, em ângulos iguais a partir de 0° (3 horas, vista frontal), no sentido anti-horário
+export interface FrameTrace {
+  id: number;
+  franchiseId: number;
+  productId: number | null; // Armação do inventário traçada
+  labJobId: number | null; // Ou o serviço cuja armação foi traçada
+  right: number[];
+  left: number[];
+  dimensions: TracedFrameDimensions;
+  createdBy: number | null;
+  createdAt: Date;
+}
+
+export type InsertFrameTrace = Omit<FrameTrace, 'id' | 'createdAt'>;
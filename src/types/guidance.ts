@@ -0,0 +1,31 @@
+// Resultado de uma verificação de posicionamento na orientação de captura
+export interface GuidanceCheck {
+  ok: boolean;
+  value: number;
+  hint?: string; // Instrução ao usuário quando a verificação falha
+}
+
+// Verificações feitas em cada quadro enviado pela página de captura
+export interface GuidanceChecks {
+  distance: GuidanceCheck; // Largura do rosto como fração da largura do quadro
+  centering: GuidanceCheck; // Deslocamento do centro do rosto como fração do quadro
+  tilt: GuidanceCheck; // Maior desvio entre yaw, pitch e roll, em graus
+  eyesOpen: GuidanceCheck; // Menor razão de aspecto (EAR) entre os dois olhos
+  lighting: GuidanceCheck; // Luminância média do rosto (0 a 1)
+}
+
+// Resposta a um quadro
+export interface GuidanceFeedback {
+  frame: number; // Número sequencial do quadro na sessão
+  faceDetected: boolean;
+  checks: GuidanceChecks | null;
+  ok: boolean;
+  streak: number; // Quadros consecutivos aprovados
+  messages: string[];
+}
+
+// Sinal de "pronto para capturar" entregue ao fim da sessão de orientação
+export interface CaptureReadySignal {
+  token: string;
+  expiresAt: Date;
+}
@@ -0,0 +1,14 @@
+// Serviço enviado ao laboratório de lentes, identificado pelo número impresso na ficha de montagem
+export interface LabJob {
+  id: number;
+  jobNumber: string;
+  franchiseId: number;
+  customerId: number;
+  measurementId: number;
+  prescriptionId: number;
+  productId: number | null; // Armação do inventário, quando escolhida
+  createdBy: number | null;
+  createdAt: Date;
+}
+
+export type InsertLabJob = Omit<LabJob, 'id' | 'jobNumber' | 'createdAt'>;
@@ -0,0 +1,75 @@
+import { EyeRefraction } from './prescriptions';
+
+// Índices de refração comerciais
+export type LensIndex = 1.5 | 1.59 | 1.67 | 1.74;
+
+// Dimensões boxing da armação, em mm
+export interface FrameDimensions {
+  a: number; // Largura da caixa da lente
+  b: number; // Altura da caixa da lente
+  dbl: number; // Distância entre lentes (ponte)
+  ed: number; // Diâmetro efetivo (maior diagonal a partir do centro da caixa)
+}
+
+// Dados de entrada do calculador
+export interface LensCalculationInput {
+  prescription: {
+    rightEye: Pick<EyeRefraction, 'sphere' | 'cylinder'>;
+    leftEye: Pick<EyeRefraction, 'sphere' | 'cylinder'>;
+  };
+  dpnRight: number;
+  dpnLeft: number;
+  frame: FrameDimensions;
+  fittingHeights?: {
+    right: number;
+    left: number;
+  };
+}
+
+// Descentração do centro óptico em relação ao centro da caixa, em mm
+export interface Decentration {
+  horizontal: number; // Positivo = para o nariz
+  vertical: number; // Positivo = para cima
+  total: number;
+}
+
+// Espessuras aproximadas de uma lente, em mm
+export interface LensThickness {
+  center: number;
+  minEdge: number;
+  maxEdge: number;
+}
+
+// Resultado de uma lente em um índice
+export interface LensEyeResult {
+  thickness: LensThickness;
+  blankDiameter: number | null; // Menor blank comercial que atende; nulo se nenhum atende
+}
+
+// Resultado de um índice para os dois olhos
+export interface LensIndexOption {
+  index: LensIndex;
+  material: string;
+  abbe: number;
+  rightEye: LensEyeResult;
+  leftEye: LensEyeResult;
+  maxThickness: number;
+  feasible: boolean;
+}
+
+// Resultado completo do calculador
+export interface LensCalculation {
+  decentration: {
+    rightEye: Decentration;
+    leftEye: Decentration;
+  };
+  minimumBlankSize: {
+    rightEye: number;
+    leftEye: number;
+  };
+  options: LensIndexOption[];
+  recommendation: {
+    index: LensIndex;
+    reason: string;
+  } | null;
+}
@@ -1,6 +1,76 @@
 // Tipo para qualidade da medição
 export type MeasurementQuality = 'high' | 'medium' | 'low';
 
+// Origem da escala mm/pixel usada nas medições
+export type CalibrationSource = 'card' | 'iris';
+
+// Tipo para calibração de escala
+export interface Calibration {
+  source: CalibrationSource;
+  mmPerPixel: number;
+  confidence: number;
+  estimatedError: number; // Erro relativo estimado da escala (0.05 = 5%)
+  cameraDistance?: number; // Distância estimada entre a câmera e o rosto, em mm (requer EXIF)
+  reference?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+// Região retangular na imagem, em pixels
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Região retangular de um olho, a partir do contorno do face-api
+export type EyeRegion = ImageRegion;
+
+// Pose da cabeça em graus (ver utils/headPose para as convenções)
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// Centro da pupila refinado, com confiança própria por olho
+export interface PupilCenter {
+  x: number;
+  y: number;
+  confidence: number;
+}
+
+// Modo de captura: apenas o rosto ou com a armação escolhida no rosto
+export type CaptureMode = 'face' | 'frame';
+
+// Referência usada para a altura pupilar (AP)
+export type ApReference = 'nose' | 'frame';
+
+// Caixa (boxing) de uma lente da armação, em pixels da imagem
+export interface FrameBox {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// Alturas pupilares medidas até o aro inferior da armação (sistema boxing)
+export interface FrameFitting {
+  apLeft: number;
+  apRight: number;
+  b: number; // Dimensão B da armação (altura da caixa), em mm
+  bLeft: number;
+  bRight: number;
+  boxes: {
+    left: FrameBox;
+    right: FrameBox;
+  };
+}
+
 // Tipo para landmarks faciais
 export interface FacialLandmarks {
   leftEye: {
@@ -15,9 +85,31 @@ export interface FacialLandmarks {
     x: number;
     y: number;
   };
+  eyeRegions?: {
+    left: EyeRegion;
+    right: EyeRegion;
+  };
+  pupils?: {
+    left: PupilCenter;
+    right: PupilCenter;
+  };
+  pose?: HeadPose;
+  faceRegion?: ImageRegion; // Caixa do rosto devolvida pelo detector
+  eyeOpenness?: {
+    left: number; // Razão de aspecto do olho (EAR); abaixo de ~0,2 o olho está fechado
+    right: number;
+  };
   confidence: number;
 }
 
+// Distância pupilar para perto, no plano dos óculos
+export interface NearPd {
+  dp: number;
+  dpnLeft: number;
+  dpnRight: number;
+  workingDistance: number; // Distância de leitura a partir do plano dos óculos, em mm
+}
+
 // Tipo para medições ópticas
 export interface OpticalMeasurements {
   dp: number; // Distância pupilar total
@@ -25,10 +117,14 @@ export interface OpticalMeasurements {
   dpnRight: number; // Distância pupilar nasal direita
   apLeft: number; // Altura pupilar esquerda
   apRight: number; // Altura pupilar direita
+  apReference?: ApReference;
+  frame?: FrameFitting;
+  near?: NearPd;
   type: 'manual' | 'digital';
   notes?: string;
   imageUrl?: string;
   landmarks?: FacialLandmarks;
+  calibration?: Calibration;
   quality?: MeasurementQuality;
   confidence?: number;
   warnings?: string[];
@@ -36,27 +132,99 @@ export interface OpticalMeasurements {
   updatedAt: Date;
 }
 
+// Dados do dispositivo de captura preservados do EXIF; localização e demais metadados são descartados
+export interface CaptureDevice {
+  make?: string;
+  model?: string;
+  focalLength?: number; // Distância focal real da lente, em mm
+  focalLength35mm?: number; // Distância focal equivalente em filme 35mm
+}
+
+// Metadados de uma imagem recebida, já com a orientação EXIF aplicada
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  format: 'jpeg' | 'png' | 'webp';
+  size: number; // Em bytes
+  orientation: number; // Tag Orientation original (1 = sem rotação)
+  device: CaptureDevice;
+}
+
+// Medição persistida no repositório único de medições
+export interface StoredMeasurement extends OpticalMeasurements {
+  id: number;
+  userId: number;
+  franchiseId?: number; // Franquia que atende a medição; define o prazo de retenção da imagem
+  framesUsed?: number;
+  dispersion?: MeasurementValues;
+  engineName?: string;
+  engineVersion?: string;
+  captureDevice?: CaptureDevice;
+  legacyId?: string; // UUID da linha de origem na tabela legada, quando migrada
+}
+
+export type NewMeasurement = Omit<StoredMeasurement, 'id' | 'createdAt' | 'updatedAt' | 'legacyId'>;
+
+// Limites das métricas de qualidade de imagem; cada franquia pode sobrepor os padrões
+export interface QualityThresholds {
+  minResolution: number; // Largura × altura mínima, em pixels
+  minSharpness: number; // Variância mínima do Laplaciano na região dos olhos (escala 0-255)
+  minExposure: number; // Luminância média mínima do rosto (0 a 1)
+  maxExposure: number; // Luminância média máxima do rosto (0 a 1)
+  maxClipping: number; // Fração máxima de pixels do rosto estourados ou no preto
+  maxGlare: number; // Fração máxima de reflexo especular sobre os olhos
+  minEyeOpenness: number; // Razão de aspecto mínima de cada olho (EAR)
+}
+
+// Limites de qualidade sobrepostos por uma franquia
+export interface QualitySetting {
+  franchiseId: number;
+  thresholds: Partial<QualityThresholds>; // Apenas os limites alterados; os demais seguem o padrão
+  updatedBy: number | null;
+  updatedAt: Date;
+}
+
+// Região da imagem em que uma métrica foi calculada; 'frame' quando não há rosto detectado
+export type QualityRegion = 'eyes' | 'face' | 'frame';
+
 // Tipo para resultado da análise de qualidade
 export interface QualityAnalysis {
   isGood: boolean;
   message: string;
   quality: MeasurementQuality;
+  thresholds: QualityThresholds;
   details: {
     resolution: {
       width: number;
       height: number;
       isGood: boolean;
     };
-    brightness: {
-      value: number;
+    sharpness: {
+      value: number; // Variância do Laplaciano
+      region: QualityRegion;
       isGood: boolean;
     };
-    sharpness: {
-      value: number;
+    exposure: {
+      value: number; // Luminância média
+      darkClipping: number; // Fração de pixels no preto
+      brightClipping: number; // Fração de pixels estourados
+      region: QualityRegion;
+      isGood: boolean;
+    };
+    glare: {
+      value: number; // Fração de pixels com reflexo especular nas regiões dos olhos
+      isGood: boolean;
+    };
+    eyesOpen: {
+      left: number; // Razão de aspecto de cada olho (0 quando não há olhos detectados)
+      right: number;
       isGood: boolean;
     };
     faceAngle: {
-      value: number;
+      value: number; // Maior desvio absoluto entre yaw, pitch e roll
+      yaw: number;
+      pitch: number;
+      roll: number;
       isGood: boolean;
     };
   };
@@ -78,6 +246,33 @@ export interface MeasurementAnalysis {
   recommendations?: string[];
 }
 
+// Valores por medida, usados para dispersão e estatísticas
+export interface MeasurementValues {
+  dp: number;
+  dpnLeft: number;
+  dpnRight: number;
+  apLeft: number;
+  apRight: number;
+}
+
+// Motivo de descarte de um quadro da sequência
+export type BurstDiscardReason = 'no_face' | 'pose' | 'calibration' | 'frame' | 'blur' | 'outlier' | 'error';
+
+// Tipo para resultado da análise de uma sequência de quadros
+export interface BurstAnalysis extends MeasurementValues {
+  spread: MeasurementValues; // Dispersão robusta (±mm) de cada medida
+  framesUsed: number;
+  framesTotal: number;
+  discarded: {
+    index: number;
+    reason: BurstDiscardReason;
+  }[];
+  apReference: ApReference;
+  near: NearPd;
+  calibration: Calibration;
+  warnings: string[];
+}
+
 // Tipo para histórico de medições
 export interface MeasurementHistory {
   id: string;
@@ -89,6 +284,7 @@ export interface MeasurementHistory {
 
 // Tipo para estatísticas de medições
 export interface MeasurementStats {
+  apReference: ApReference; // Referência das alturas pupilares consideradas (a da medição mais recente)
   average: {
     dp: number;
     dpnLeft: number;
@@ -0,0 +1,35 @@
+// Registro de um arquivo OMA/DCS: rótulo e valores separados por ";"
+// Nos rótulos por olho, o primeiro valor é o do olho direito e o segundo, o do esquerdo
+export interface OmaRecord {
+  label: string;
+  values: string[];
+}
+
+// Tipo de borda da lente (rótulo ETYP): 1 bisel, 2 sem aro (furação), 3 ranhura (fio de nylon)
+export type OmaEdgeType = 1 | 2 | 3;
+
+// Dados de um olho no pedido ao laboratório
+export interface OmaEye {
+  sphere: number; // SPH
+  cylinder: number; // CYL, sempre na convenção negativa
+  axis: number | null; // AX
+  add: number | null; // ADD
+  prism: number | null; // PRVM, em dioptrias prismáticas
+  prismAngle: number | null; // PRVA, direção da base em graus (0-359)
+  ipd: number; // IPD: DPN de longe, em mm
+  npd: number | null; // NPD: DPN de perto, em mm
+  segmentHeight: number; // SEGHT: altura de montagem, em mm
+  hbox: number | null; // HBOX: largura da caixa da lente
+  vbox: number | null; // VBOX: altura da caixa da lente
+  fed: number | null; // FED: diâmetro efetivo da armação
+}
+
+// Pedido ao laboratório no padrão OMA/DCS
+export interface OmaJob {
+  jobNumber: string; // JOB
+  client: string | null; // CLIENT
+  right: OmaEye;
+  left: OmaEye;
+  dbl: number | null; // DBL: ponte da armação
+  edgeType: OmaEdgeType | null; // ETYP
+}
@@ -0,0 +1,35 @@
+// Base do prisma
+export type PrismBase = 'up' | 'down' | 'in' | 'out';
+
+// Convenção do cilindro
+export type CylinderForm = 'minus' | 'plus';
+
+// Refração de um olho
+export interface EyeRefraction {
+  sphere: number;
+  cylinder: number;
+  axis: number | null; // 1 a 180; nulo quando não há cilindro
+  add: number | null;
+  prism: number | null;
+  prismBase: PrismBase | null;
+}
+
+// Receita de óculos de um cliente
+export interface Prescription {
+  id: number;
+  customerId: number;
+  franchiseId: number;
+  rightEye: EyeRefraction; // OD
+  leftEye: EyeRefraction; // OE
+  prescriber: string;
+  prescriberRegistry?: string | null; // CRM/CBO do prescritor
+  issueDate: Date;
+  expiryDate: Date;
+  notes?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type InsertPrescription = Omit<Prescription, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UpdatePrescription = Partial<Omit<InsertPrescription, 'customerId' | 'franchiseId'>>;
@@ -0,0 +1,35 @@
+// Prazo de retenção das imagens de medição de uma franquia
+export interface RetentionSetting {
+  franchiseId: number;
+  imageRetentionDays: number;
+  updatedBy: number | null;
+  updatedAt: Date;
+}
+
+// Imagem removida pela limpeza
+export interface RetentionRemoval {
+  measurementId: number;
+  franchiseId: number | null;
+  createdAt: Date;
+  retentionDays: number;
+}
+
+// Imagem que não pôde ser removida; a referência é mantida para a próxima execução
+export interface RetentionFailure {
+  measurementId: number;
+  error: string;
+}
+
+// Relatório de uma execução da limpeza
+export interface RetentionRun {
+  id: number;
+  trigger: 'scheduled' | 'manual';
+  dryRun: boolean;
+  startedAt: Date;
+  finishedAt: Date | null;
+  removedCount: number;
+  failedCount: number;
+  removed: RetentionRemoval[];
+  failures: RetentionFailure[];
+  error: string | null;
+}
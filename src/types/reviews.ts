@@ -0,0 +1,26 @@
+import { FacialLandmarks, FrameFitting, MeasurementValues } from './measurements';
+
+// Estado de revisão de uma medição digital
+export type ReviewStatus = 'pending_review' | 'approved' | 'adjusted' | 'rejected';
+
+// Decisão do óptico sobre uma medição pendente
+export type ReviewDecision =
+  | { status: 'approved' }
+  | { status: 'adjusted'; values: Partial<MeasurementValues>; reason: string }
+  | { status: 'rejected'; reason: string };
+
+// Revisão de uma medição digital pelo óptico da franquia
+export interface MeasurementReview {
+  measurementId: number;
+  franchiseId: number | null;
+  status: ReviewStatus;
+  originalValues: MeasurementValues; // Valores produzidos pelo motor de medição
+  adjustedValues: MeasurementValues | null; // Valores corrigidos pelo óptico, quando ajustada
+  reason: string | null;
+  landmarks: FacialLandmarks | null; // Pontos usados para desenhar a imagem anotada
+  frame: FrameFitting | null;
+  reviewerId: number | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
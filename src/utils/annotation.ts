@@ -0,0 +1,168 @@
+import { canvas } from './faceDetection';
+import { calculateMidpoint } from './geometry';
+import { FacialLandmarks, FrameFitting } from '../types/measurements';
+import { readImage } from '../services/blobStore';
+
+// Cores das anotações
+const COLORS = {
+  pupil: '#00e5ff',
+  nose: '#ffd600',
+  eyeLine: '#ffffff',
+  segment: '#76ff03',
+  frame: '#ff4081',
+  labelBackground: 'rgba(0, 0, 0, 0.65)',
+  labelText: '#ffffff'
+};
+
+// Dados de uma medição salva necessários para a anotação
+export interface AnnotatableMeasurement {
+  imageUrl: string;
+  landmarks: FacialLandmarks;
+  dp: number;
+  dpnLeft: number;
+  dpnRight: number;
+  apLeft: number;
+  apRight: number;
+  frame?: FrameFitting | null;
+}
+
+// Desenhar pupilas, ponte nasal, linha dos olhos e segmentos medidos sobre a imagem
+export async function renderAnnotatedMeasurement(
+  measurement: AnnotatableMeasurement,
+  scale = 1
+): Promise<Buffer> {
+  const image = await canvas.loadImage(await readImage(measurement.imageUrl));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+
+  const output = canvas.createCanvas(width, height);
+  const ctx = output.getContext('2d');
+  ctx.drawImage(image, 0, 0, width, height);
+
+  // Espessuras e fontes proporcionais ao tamanho final, legíveis na impressão
+  const unit = Math.max(1, Math.min(width, height) / 400);
+  ctx.lineWidth = 1.5 * unit;
+  ctx.font = `${Math.round(11 * unit)}px sans-serif`;
+
+  const point = (p: { x: number; y: number }) => ({ x: p.x * scale, y: p.y * scale });
+  const leftEye = point(measurement.landmarks.leftEye);
+  const rightEye = point(measurement.landmarks.rightEye);
+  const nose = point(measurement.landmarks.nose);
+  const bridge = { x: nose.x, y: calculateMidpoint(leftEye, rightEye).y };
+
+  // Linha dos olhos
+  drawLine(ctx, leftEye, rightEye, COLORS.eyeLine, [4 * unit, 4 * unit]);
+
+  // Caixas da armação, quando a AP foi medida até o aro
+  const frame = measurement.frame;
+  if (frame) {
+    for (const box of [frame.boxes.left, frame.boxes.right]) {
+      ctx.strokeStyle = COLORS.frame;
+      ctx.setLineDash([]);
+      ctx.strokeRect(
+        box.left * scale,
+        box.top * scale,
+        (box.right - box.left) * scale,
+        (box.bottom - box.top) * scale
+      );
+    }
+  }
+
+  // DP: segmento entre as pupilas, rotulado acima da linha dos olhos
+  const dpOffset = 18 * unit;
+  drawLine(
+    ctx,
+    { x: leftEye.x, y: leftEye.y - dpOffset },
+    { x: rightEye.x, y: rightEye.y - dpOffset },
+    COLORS.segment
+  );
+  drawLabel(
+    ctx,
+    `DP ${measurement.dp.toFixed(1)} mm`,
+    { x: (leftEye.x + rightEye.x) / 2, y: Math.min(leftEye.y, rightEye.y) - dpOffset - 8 * unit },
+    unit
+  );
+
+  // DPN: da pupila até a ponte nasal, rotulado abaixo da linha dos olhos
+  drawLine(ctx, leftEye, bridge, COLORS.segment);
+  drawLine(ctx, bridge, rightEye, COLORS.segment);
+  drawLabel(ctx, `DPN ${measurement.dpnLeft.toFixed(1)}`, { x: (leftEye.x + bridge.x) / 2, y: bridge.y + 14 * unit }, unit);
+  drawLabel(ctx, `DPN ${measurement.dpnRight.toFixed(1)}`, { x: (rightEye.x + bridge.x) / 2, y: bridge.y + 14 * unit }, unit);
+
+  // AP: vertical da pupila até o aro inferior ou até a altura do nariz
+  const apEnd = (eye: { x: number; y: number }, box?: { bottom: number }) =>
+    ({ x: eye.x, y: box ? box.bottom * scale : nose.y });
+  const apLeftEnd = apEnd(leftEye, frame?.boxes.left);
+  const apRightEnd = apEnd(rightEye, frame?.boxes.right);
+
+  drawLine(ctx, leftEye, apLeftEnd, COLORS.segment);
+  drawLine(ctx, rightEye, apRightEnd, COLORS.segment);
+  drawLabel(ctx, `AP ${measurement.apLeft.toFixed(1)}`, { x: leftEye.x, y: apLeftEnd.y + 14 * unit }, unit);
+  drawLabel(ctx, `AP ${measurement.apRight.toFixed(1)}`, { x: rightEye.x, y: apRightEnd.y + 14 * unit }, unit);
+
+  // Pontos: pupilas com mira e ponte nasal
+  drawCrosshair(ctx, leftEye, 6 * unit, COLORS.pupil);
+  drawCrosshair(ctx, rightEye, 6 * unit, COLORS.pupil);
+  drawCrosshair(ctx, bridge, 4 * unit, COLORS.nose);
+
+  return output.toBuffer('image/png');
+}
+
+// Desenhar segmento de reta
+function drawLine(
+  ctx: CanvasRenderingContext2D,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  color: string,
+  dash: number[] = []
+): void {
+  ctx.strokeStyle = color;
+  ctx.setLineDash(dash);
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+// Desenhar círculo com mira
+function drawCrosshair(
+  ctx: CanvasRenderingContext2D,
+  center: { x: number; y: number },
+  radius: number,
+  color: string
+): void {
+  ctx.strokeStyle = color;
+  ctx.beginPath();
+  ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+  ctx.moveTo(center.x - radius * 1.6, center.y);
+  ctx.lineTo(center.x + radius * 1.6, center.y);
+  ctx.moveTo(center.x, center.y - radius * 1.6);
+  ctx.lineTo(center.x, center.y + radius * 1.6);
+  ctx.stroke();
+}
+
+// Desenhar texto centralizado com fundo escuro
+function drawLabel(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  center: { x: number; y: number },
+  unit: number
+): void {
+  const padding = 3 * unit;
+  const metrics = ctx.measureText(text);
+  const textHeight = 11 * unit;
+
+  ctx.fillStyle = COLORS.labelBackground;
+  ctx.fillRect(
+    center.x - metrics.width / 2 - padding,
+    center.y - textHeight / 2 - padding,
+    metrics.width + padding * 2,
+    textHeight + padding * 2
+  );
+
+  ctx.fillStyle = COLORS.labelText;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, center.x, center.y);
+}
@@ -0,0 +1,447 @@
+import { createCanvas, loadImage } from 'canvas';
+import { calculateDistance, calculateMidpoint } from './geometry';
+import { Calibration, EyeRegion, ImageMetadata } from '../types/measurements';
+
+// Dimensões do cartão ISO/IEC 7810 ID-1 (cartão de crédito) em mm
+export const ID1_CARD_WIDTH_MM = 85.6;
+export const ID1_CARD_HEIGHT_MM = 53.98;
+const ID1_ASPECT_RATIO = ID1_CARD_WIDTH_MM / ID1_CARD_HEIGHT_MM;
+
+// Tolerância aceita na proporção largura/altura do cartão detectado
+const ASPECT_RATIO_TOLERANCE = 0.1;
+
+// Confiança mínima para aceitar o cartão como referência
+const MIN_CARD_CONFIDENCE = 0.5;
+
+// Diâmetro horizontal visível da íris (HVID) médio em adultos e seu
+// desvio padrão populacional, em mm
+export const IRIS_DIAMETER_MM = 11.7;
+const IRIS_DIAMETER_SD_MM = 0.5;
+
+// Diferença relativa máxima aceita entre as íris dos dois olhos
+const MAX_IRIS_ASYMMETRY = 0.15;
+
+// Diagonal do quadro de filme 35mm (36 x 24mm), base da distância focal equivalente
+const FILM_35MM_DIAGONAL_MM = Math.hypot(36, 24);
+
+// Erro lançado quando não há referência de escala na imagem
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+    Object.setPrototypeOf(this, CalibrationError.prototype);
+  }
+}
+
+// Detectar cartão ID-1 na testa e calcular a escala mm/pixel
+export async function detectReferenceCard(
+  imageData: string,
+  landmarks: {
+    leftEye: { x: number; y: number };
+    rightEye: { x: number; y: number };
+  }
+): Promise<Calibration | null> {
+  const image = await loadImage(imageData);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+
+  // A região de busca é proporcional à distância entre os olhos:
+  // um cartão de 85,6mm tem entre 1,1x e 1,8x a largura da DP
+  const eyeDistance = calculateDistance(landmarks.leftEye, landmarks.rightEye);
+  const eyeCenter = calculateMidpoint(landmarks.leftEye, landmarks.rightEye);
+
+  const region = clampRegion(
+    {
+      x: Math.round(eyeCenter.x - eyeDistance * 1.5),
+      y: Math.round(eyeCenter.y - eyeDistance * 2.2),
+      width: Math.round(eyeDistance * 3),
+      height: Math.round(eyeDistance * 1.9)
+    },
+    image.width,
+    image.height
+  );
+
+  if (region.width < 10 || region.height < 10) {
+    return null;
+  }
+
+  const pixels = ctx.getImageData(region.x, region.y, region.width, region.height);
+  const gray = toGrayscale(pixels.data, region.width, region.height);
+  const { horizontal, vertical } = calculateEdgeMaps(gray, region.width, region.height);
+
+  const minWidth = eyeDistance * 1.1;
+  const maxWidth = eyeDistance * 1.8;
+
+  // Bordas superior e inferior: picos no perfil de linhas das bordas horizontais
+  const rowProfile = new Float64Array(region.height);
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      rowProfile[y] += horizontal[y * region.width + x];
+    }
+  }
+
+  const rows = findEdgePair(
+    rowProfile,
+    minWidth / ID1_ASPECT_RATIO,
+    maxWidth / ID1_ASPECT_RATIO
+  );
+
+  if (!rows) {
+    return null;
+  }
+
+  // Bordas laterais: picos no perfil de colunas, restrito à faixa do cartão
+  const columnProfile = new Float64Array(region.width);
+  for (let y = rows.start; y <= rows.end; y++) {
+    for (let x = 0; x < region.width; x++) {
+      columnProfile[x] += vertical[y * region.width + x];
+    }
+  }
+
+  const columns = findEdgePair(columnProfile, minWidth, maxWidth);
+
+  if (!columns) {
+    return null;
+  }
+
+  const widthPx = columns.end - columns.start;
+  const heightPx = rows.end - rows.start;
+  const aspectRatio = widthPx / heightPx;
+  const aspectError = Math.abs(aspectRatio - ID1_ASPECT_RATIO) / ID1_ASPECT_RATIO;
+
+  if (aspectError > ASPECT_RATIO_TOLERANCE) {
+    return null;
+  }
+
+  // Confiança combina a proporção do retângulo e o contraste das bordas
+  const contrast = Math.min(1, (rows.strength + columns.strength) / 2);
+  const confidence = (1 - aspectError / ASPECT_RATIO_TOLERANCE) * 0.5 + contrast * 0.5;
+
+  if (confidence < MIN_CARD_CONFIDENCE) {
+    return null;
+  }
+
+  // A largura é a dimensão mais longa e, portanto, a de menor erro relativo
+  const mmPerPixel =
+    (ID1_CARD_WIDTH_MM / widthPx) * 0.7 + (ID1_CARD_HEIGHT_MM / heightPx) * 0.3;
+
+  // Erro de localização de ±1px em cada borda mais a distorção de proporção
+  const estimatedError = 2 / widthPx + aspectError / 2;
+
+  return {
+    source: 'card',
+    mmPerPixel,
+    confidence,
+    estimatedError,
+    reference: {
+      x: region.x + columns.start,
+      y: region.y + rows.start,
+      width: widthPx,
+      height: heightPx
+    }
+  };
+}
+
+// Estimar escala pelo diâmetro visível da íris nas regiões dos olhos
+export async function detectIrisCalibration(
+  imageData: string,
+  eyeRegions: {
+    left: EyeRegion;
+    right: EyeRegion;
+  }
+): Promise<Calibration | null> {
+  const image = await loadImage(imageData);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+
+  const diameters = [eyeRegions.left, eyeRegions.right]
+    .map(region => measureIrisDiameter(ctx, region, image.width, image.height))
+    .filter((diameter): diameter is number => diameter !== null);
+
+  if (diameters.length === 0) {
+    return null;
+  }
+
+  const diameterPx = diameters.reduce((sum, value) => sum + value, 0) / diameters.length;
+
+  // Íris muito diferentes entre si indicam limbo mal detectado ou rosto virado
+  const asymmetry = diameters.length === 2
+    ? Math.abs(diameters[0] - diameters[1]) / diameterPx
+    : 0;
+
+  if (asymmetry > MAX_IRIS_ASYMMETRY) {
+    return null;
+  }
+
+  // Erro combina a variação populacional do HVID com o erro de detecção
+  const populationError = IRIS_DIAMETER_SD_MM / IRIS_DIAMETER_MM;
+  const detectionError = Math.max(asymmetry / 2, 2 / diameterPx);
+  const estimatedError = Math.sqrt(populationError ** 2 + detectionError ** 2);
+
+  // Um único olho medido vale menos que dois olhos concordantes
+  const confidence = Math.max(
+    0,
+    (diameters.length === 2 ? 0.75 : 0.5) * (1 - asymmetry / MAX_IRIS_ASYMMETRY / 2)
+  );
+
+  return {
+    source: 'iris',
+    mmPerPixel: IRIS_DIAMETER_MM / diameterPx,
+    confidence,
+    estimatedError
+  };
+}
+
+// Medir o diâmetro horizontal da íris, em pixels, dentro da região do olho
+function measureIrisDiameter(
+  ctx: CanvasRenderingContext2D,
+  region: EyeRegion,
+  imageWidth: number,
+  imageHeight: number
+): number | null {
+  // O limbo costuma ficar parcialmente fora do contorno das pálpebras
+  const search = clampRegion(
+    {
+      x: Math.round(region.x - region.width * 0.1),
+      y: Math.round(region.y),
+      width: Math.round(region.width * 1.2),
+      height: Math.max(1, Math.round(region.height))
+    },
+    imageWidth,
+    imageHeight
+  );
+
+  if (search.width < 8 || search.height < 1) {
+    return null;
+  }
+
+  const pixels = ctx.getImageData(search.x, search.y, search.width, search.height);
+  const gray = toGrayscale(pixels.data, search.width, search.height);
+
+  const minDiameter = region.width * 0.3;
+  const maxDiameter = region.width * 0.75;
+  const diameters: number[] = [];
+
+  // Linhas próximas ao centro vertical do olho, onde a íris é mais larga
+  const centerRow = Math.floor(search.height / 2);
+  const rowSpan = Math.max(1, Math.floor(search.height * 0.25));
+
+  for (let y = centerRow - rowSpan; y <= centerRow + rowSpan; y++) {
+    if (y < 0 || y >= search.height) continue;
+
+    const row = smoothRow(gray.subarray(y * search.width, (y + 1) * search.width));
+
+    // Ponto mais escuro no terço central: pupila/íris
+    const from = Math.floor(row.length * 0.25);
+    const to = Math.ceil(row.length * 0.75);
+    let darkest = from;
+    for (let x = from; x < to; x++) {
+      if (row[x] < row[darkest]) darkest = x;
+    }
+
+    // Limbo: maior transição íris (escura) -> esclera (clara) de cada lado
+    let left = -1;
+    let leftGradient = 0;
+    for (let x = darkest - 1; x >= 1; x--) {
+      const gradient = row[x - 1] - row[x + 1];
+      if (gradient > leftGradient) {
+        leftGradient = gradient;
+        left = x;
+      }
+    }
+
+    let right = -1;
+    let rightGradient = 0;
+    for (let x = darkest + 1; x < row.length - 1; x++) {
+      const gradient = row[x + 1] - row[x - 1];
+      if (gradient > rightGradient) {
+        rightGradient = gradient;
+        right = x;
+      }
+    }
+
+    if (left < 0 || right < 0) continue;
+
+    const diameter = right - left;
+    if (diameter >= minDiameter && diameter <= maxDiameter) {
+      diameters.push(diameter);
+    }
+  }
+
+  if (diameters.length < 3) {
+    return null;
+  }
+
+  // Mediana para descartar linhas afetadas por cílios ou reflexos
+  diameters.sort((a, b) => a - b);
+  return diameters[Math.floor(diameters.length / 2)];
+}
+
+// Suavizar uma linha de pixels com média móvel de 3 elementos
+function smoothRow(row: Float64Array): Float64Array {
+  const smoothed = new Float64Array(row.length);
+
+  for (let x = 0; x < row.length; x++) {
+    const prev = row[Math.max(0, x - 1)];
+    const next = row[Math.min(row.length - 1, x + 1)];
+    smoothed[x] = (prev + row[x] + next) / 3;
+  }
+
+  return smoothed;
+}
+
+// Limitar região de busca às dimensões da imagem
+export function clampRegion(
+  region: { x: number; y: number; width: number; height: number },
+  imageWidth: number,
+  imageHeight: number
+): { x: number; y: number; width: number; height: number } {
+  const x = Math.max(0, region.x);
+  const y = Math.max(0, region.y);
+
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(imageWidth, region.x + region.width) - x),
+    height: Math.max(0, Math.min(imageHeight, region.y + region.height) - y)
+  };
+}
+
+// Converter RGBA para luminância
+export function toGrayscale(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): Float64Array {
+  const gray = new Float64Array(width * height);
+
+  for (let i = 0; i < width * height; i++) {
+    const idx = i * 4;
+    gray[i] = (data[idx] * 0.299 + data[idx + 1] * 0.587 + data[idx + 2] * 0.114) / 255;
+  }
+
+  return gray;
+}
+
+// Calcular gradientes de Sobel separados por orientação da borda
+function calculateEdgeMaps(
+  gray: Float64Array,
+  width: number,
+  height: number
+): {
+  horizontal: Float64Array;
+  vertical: Float64Array;
+} {
+  const horizontal = new Float64Array(width * height);
+  const vertical = new Float64Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+
+      const gx =
+        gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1];
+
+      const gy =
+        gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1] -
+        gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1];
+
+      // Borda horizontal tem gradiente vertical dominante e vice-versa
+      if (Math.abs(gy) > Math.abs(gx)) {
+        horizontal[i] = Math.abs(gy);
+      } else {
+        vertical[i] = Math.abs(gx);
+      }
+    }
+  }
+
+  return { horizontal, vertical };
+}
+
+// Encontrar o par de picos mais forte com separação dentro do intervalo esperado
+function findEdgePair(
+  profile: Float64Array,
+  minSeparation: number,
+  maxSeparation: number
+): { start: number; end: number; strength: number } | null {
+  const peaks = findPeaks(profile, Math.max(2, Math.round(minSeparation * 0.1)));
+
+  if (peaks.length < 2) {
+    return null;
+  }
+
+  const mean = profile.reduce((sum, value) => sum + value, 0) / profile.length;
+  const max = peaks[0].value;
+
+  let best: { start: number; end: number; score: number } | null = null;
+
+  for (let i = 0; i < peaks.length; i++) {
+    for (let j = i + 1; j < peaks.length; j++) {
+      const start = Math.min(peaks[i].index, peaks[j].index);
+      const end = Math.max(peaks[i].index, peaks[j].index);
+      const separation = end - start;
+
+      if (separation < minSeparation || separation > maxSeparation) continue;
+
+      const score = peaks[i].value + peaks[j].value;
+      if (!best || score > best.score) {
+        best = { start, end, score };
+      }
+    }
+  }
+
+  if (!best || max === 0) {
+    return null;
+  }
+
+  // Força relativa: quanto os picos se destacam da média do perfil
+  const strength = Math.max(0, (best.score / 2 - mean) / max);
+
+  return {
+    start: best.start,
+    end: best.end,
+    strength
+  };
+}
+
+// Estimar a distância câmera-rosto pelo modelo pinhole, a partir da escala já calibrada
+// e da distância focal equivalente em 35mm do EXIF: cada pixel cobre mmPerPixel no rosto
+// e diagonal35mm / (focal35mm * diagonalPx) radianos no campo de visão
+export function estimateCameraDistance(
+  mmPerPixel: number,
+  metadata: Pick<ImageMetadata, 'width' | 'height' | 'device'>
+): number | null {
+  const focalLength35mm = metadata.device.focalLength35mm;
+  if (!focalLength35mm || metadata.width <= 0 || metadata.height <= 0) return null;
+
+  const diagonalPx = Math.hypot(metadata.width, metadata.height);
+  return (mmPerPixel * focalLength35mm * diagonalPx) / FILM_35MM_DIAGONAL_MM;
+}
+
+// Encontrar máximos locais com supressão de não-máximos
+function findPeaks(
+  profile: Float64Array,
+  radius: number
+): { index: number; value: number }[] {
+  const peaks: { index: number; value: number }[] = [];
+
+  for (let i = 0; i < profile.length; i++) {
+    let isPeak = profile[i] > 0;
+
+    for (let k = Math.max(0, i - radius); k <= Math.min(profile.length - 1, i + radius) && isPeak; k++) {
+      if (profile[k] > profile[i]) {
+        isPeak = false;
+      }
+    }
+
+    if (isPeak) {
+      peaks.push({ index: i, value: profile[i] });
+    }
+  }
+
+  // Manter apenas os picos mais fortes para limitar as combinações
+  return peaks.sort((a, b) => b.value - a.value).slice(0, 12);
+}
@@ -0,0 +1,281 @@
+// Leitura do EXIF e remoção de metadados de fotos JPEG e PNG, sem dependências
+// Apenas os campos usados pela medição são lidos; todo o resto é descartado na ingestão
+
+// Campos do EXIF usados pela aplicação
+export interface ExifData {
+  orientation: number; // Tag Orientation (1 a 8); 1 quando ausente
+  make?: string;
+  model?: string;
+  focalLength?: number; // Em mm
+  focalLength35mm?: number; // Equivalente em filme 35mm
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'heic';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Tags TIFF lidas
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_FOCAL_LENGTH = 0x920a;
+const TAG_FOCAL_LENGTH_35MM = 0xa405;
+
+// Tipos de valor TIFF suportados
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// Marcas da caixa ftyp que identificam fotos HEIF/HEIC (padrão das câmeras do iPhone)
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+// Chunks de texto, data e EXIF do PNG, removidos na ingestão
+const PNG_METADATA_CHUNKS = new Set(['tEXt', 'zTXt', 'iTXt', 'eXIf', 'tIME']);
+
+// Identificar o formato pelos bytes iniciais, sem confiar no prefixo da data URL
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'png';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 4, 8) === 'ftyp' &&
+    HEIC_BRANDS.has(buffer.toString('ascii', 8, 12))
+  ) {
+    return 'heic';
+  }
+  return null;
+}
+
+// Percorrer os segmentos de um JPEG até o início dos dados da imagem (SOS)
+function forEachJpegSegment(
+  buffer: Buffer,
+  callback: (marker: number, start: number, end: number) => void
+): number {
+  let offset = 2;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      throw new Error('JPEG inválido: marcador esperado');
+    }
+
+    const marker = buffer[offset + 1];
+
+    // Bytes de preenchimento entre segmentos
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    // Marcadores sem comprimento
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      callback(marker, offset, offset + 2);
+      offset += 2;
+      continue;
+    }
+
+    // Início dos dados comprimidos: o restante do arquivo é a imagem
+    if (marker === 0xda || marker === 0xd9) {
+      return offset;
+    }
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (end > buffer.length) {
+      throw new Error('JPEG inválido: segmento truncado');
+    }
+
+    callback(marker, offset, end);
+    offset = end;
+  }
+
+  return buffer.length;
+}
+
+// Ler um valor de uma entrada do IFD
+function readTiffValue(tiff: Buffer, entry: number, little: boolean): string | number | undefined {
+  const readUInt16 = (offset: number) => (little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const readUInt32 = (offset: number) => (little ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+  const type = readUInt16(entry + 2);
+  const count = readUInt32(entry + 4);
+
+  switch (type) {
+    case TYPE_SHORT:
+      return readUInt16(entry + 8);
+    case TYPE_LONG:
+      return readUInt32(entry + 8);
+    case TYPE_RATIONAL: {
+      const offset = readUInt32(entry + 8);
+      if (offset + 8 > tiff.length) return undefined;
+      const denominator = readUInt32(offset + 4);
+      return denominator === 0 ? undefined : readUInt32(offset) / denominator;
+    }
+    case TYPE_ASCII: {
+      // Até 4 bytes ficam na própria entrada
+      const offset = count <= 4 ? entry + 8 : readUInt32(entry + 8);
+      if (offset + count > tiff.length) return undefined;
+      return tiff.toString('ascii', offset, offset + count).replace(/\0+$/, '').trim() || undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+// Ler as entradas de um IFD como mapa tag -> valor
+function readIfd(tiff: Buffer, offset: number, little: boolean): Map<number, string | number> {
+  const values = new Map<number, string | number>();
+  if (offset + 2 > tiff.length) return values;
+
+  const count = little ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12;
+    if (entry + 12 > tiff.length) break;
+
+    const tag = little ? tiff.readUInt16LE(entry) : tiff.readUInt16BE(entry);
+    const value = readTiffValue(tiff, entry, little);
+    if (value !== undefined) values.set(tag, value);
+  }
+
+  return values;
+}
+
+// Interpretar um bloco TIFF (conteúdo do APP1 "Exif" ou do chunk eXIf)
+export function parseTiffExif(tiff: Buffer): ExifData {
+  const exif: ExifData = { orientation: 1 };
+  if (tiff.length < 8) return exif;
+
+  const byteOrder = tiff.toString('ascii', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') return exif;
+  const little = byteOrder === 'II';
+
+  const ifd0Offset = little ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+  const ifd0 = readIfd(tiff, ifd0Offset, little);
+
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (typeof orientation === 'number' && orientation >= 1 && orientation <= 8) {
+    exif.orientation = orientation;
+  }
+
+  const make = ifd0.get(TAG_MAKE);
+  if (typeof make === 'string') exif.make = make;
+
+  const model = ifd0.get(TAG_MODEL);
+  if (typeof model === 'string') exif.model = model;
+
+  const exifIfdOffset = ifd0.get(TAG_EXIF_IFD);
+  if (typeof exifIfdOffset === 'number') {
+    const exifIfd = readIfd(tiff, exifIfdOffset, little);
+
+    const focalLength = exifIfd.get(TAG_FOCAL_LENGTH);
+    if (typeof focalLength === 'number' && focalLength > 0) exif.focalLength = focalLength;
+
+    const focalLength35mm = exifIfd.get(TAG_FOCAL_LENGTH_35MM);
+    if (typeof focalLength35mm === 'number' && focalLength35mm > 0) exif.focalLength35mm = focalLength35mm;
+  }
+
+  return exif;
+}
+
+// Localizar o bloco TIFF do EXIF em um JPEG ou PNG
+function findTiffBlock(buffer: Buffer, format: ImageFormat): Buffer | null {
+  if (format === 'jpeg') {
+    let tiff: Buffer | null = null;
+    forEachJpegSegment(buffer, (marker, start, end) => {
+      if (!tiff && marker === 0xe1 && buffer.toString('ascii', start + 4, start + 10) === 'Exif\0\0') {
+        tiff = buffer.subarray(start + 10, end);
+      }
+    });
+    return tiff;
+  }
+
+  if (format === 'png') {
+    let tiff: Buffer | null = null;
+    forEachPngChunk(buffer, (type, start, end) => {
+      if (!tiff && type === 'eXIf') tiff = buffer.subarray(start + 8, end - 4);
+    });
+    return tiff;
+  }
+
+  return null;
+}
+
+// Ler o EXIF de uma imagem; imagens sem EXIF têm orientação 1 e nenhum dado do dispositivo
+export function readExif(buffer: Buffer): ExifData {
+  const format = detectImageFormat(buffer);
+  if (!format) return { orientation: 1 };
+
+  try {
+    const tiff = findTiffBlock(buffer, format);
+    return tiff ? parseTiffExif(tiff) : { orientation: 1 };
+  } catch (error) {
+    // EXIF corrompido não impede o uso da foto
+    console.warn('EXIF ilegível, ignorando metadados:', error);
+    return { orientation: 1 };
+  }
+}
+
+// Percorrer os chunks de um PNG
+function forEachPngChunk(
+  buffer: Buffer,
+  callback: (type: string, start: number, end: number) => void
+): void {
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > buffer.length) {
+      throw new Error('PNG inválido: chunk truncado');
+    }
+
+    callback(type, offset, end);
+    offset = end;
+    if (type === 'IEND') break;
+  }
+}
+
+// Remover de um JPEG todos os segmentos de metadados (EXIF, XMP, IPTC, comentários)
+// Mantém JFIF (APP0), perfil de cor ICC (APP2) e Adobe (APP14), necessários para decodificar
+export function stripJpegMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [buffer.subarray(0, 2)];
+
+  const imageStart = forEachJpegSegment(buffer, (marker, start, end) => {
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    const isIccProfile = marker === 0xe2 && buffer.toString('ascii', start + 4, start + 16) === 'ICC_PROFILE\0';
+    const keep =
+      marker === 0xe0 ||
+      marker === 0xee ||
+      isIccProfile ||
+      (!isApp && marker !== 0xfe);
+
+    if (keep) parts.push(buffer.subarray(start, end));
+  });
+
+  parts.push(buffer.subarray(imageStart));
+  return Buffer.concat(parts);
+}
+
+// Remover de um PNG os chunks de texto, data e EXIF
+export function stripPngMetadata(buffer: Buffer): Buffer {
+  const parts: Buffer[] = [PNG_SIGNATURE];
+
+  forEachPngChunk(buffer, (type, start, end) => {
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(buffer.subarray(start, end));
+  });
+
+  return Buffer.concat(parts);
+}
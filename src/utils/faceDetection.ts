@@ -5,8 +5,8 @@ import { join } from 'path';
 // Configurar canvas para Node.js
 const canvas = {
   createCanvas: (width: number, height: number) => createCanvas(width, height),
-  loadImage: async (src: string) => {
-    if (src.startsWith('data:')) {
+  loadImage: async (src: string | Buffer) => {
+    if (Buffer.isBuffer(src) || src.startsWith('data:') || /^https?:\/\//.test(src)) {
       return loadImage(src);
     }
     return loadImage(join(process.cwd(), src));
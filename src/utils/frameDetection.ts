@@ -0,0 +1,178 @@
+import { createCanvas, loadImage } from 'canvas';
+import { clampRegion, toGrayscale } from './calibration';
+import { EyeRegion, FrameBox, FrameFitting } from '../types/measurements';
+
+// Faixas de busca das bordas do aro em relação à pupila, em mm
+const LOWER_RIM_RANGE_MM = { min: 10, max: 40 };
+const UPPER_RIM_RANGE_MM = { min: 6, max: 35 };
+
+// Fração mínima da borda mais forte para uma coluna participar da tangente
+const MIN_COLUMN_STRENGTH = 0.5;
+
+// Erro lançado quando o aro da armação não é encontrado
+export class FrameDetectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameDetectionError';
+    Object.setPrototypeOf(this, FrameDetectionError.prototype);
+  }
+}
+
+// Detectar os aros da armação e calcular alturas pupilares no sistema boxing
+export async function detectFrameFitting(
+  imageData: string,
+  landmarks: {
+    leftEye: { x: number; y: number };
+    rightEye: { x: number; y: number };
+    eyeRegions: {
+      left: EyeRegion;
+      right: EyeRegion;
+    };
+  },
+  mmPerPixel: number
+): Promise<FrameFitting | null> {
+  const image = await loadImage(imageData);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+
+  const left = detectLensBox(ctx, landmarks.leftEye, landmarks.eyeRegions.left, mmPerPixel, image.width, image.height);
+  const right = detectLensBox(ctx, landmarks.rightEye, landmarks.eyeRegions.right, mmPerPixel, image.width, image.height);
+
+  if (!left || !right) {
+    return null;
+  }
+
+  // No sistema boxing, a altura é a distância vertical da pupila à
+  // tangente horizontal inferior da lente, e B é a altura da caixa
+  const bLeft = (left.bottom - left.top) * mmPerPixel;
+  const bRight = (right.bottom - right.top) * mmPerPixel;
+
+  return {
+    apLeft: (left.bottom - landmarks.leftEye.y) * mmPerPixel,
+    apRight: (right.bottom - landmarks.rightEye.y) * mmPerPixel,
+    b: (bLeft + bRight) / 2,
+    bLeft,
+    bRight,
+    boxes: {
+      left,
+      right
+    }
+  };
+}
+
+// Localizar as tangentes superior e inferior do aro de uma lente
+function detectLensBox(
+  ctx: CanvasRenderingContext2D,
+  pupil: { x: number; y: number },
+  eyeRegion: EyeRegion,
+  mmPerPixel: number,
+  imageWidth: number,
+  imageHeight: number
+): FrameBox | null {
+  // Faixa de colunas: o aro costuma ser mais largo que o olho
+  const band = clampRegion(
+    {
+      x: Math.round(eyeRegion.x - eyeRegion.width * 0.3),
+      y: Math.round(pupil.y - UPPER_RIM_RANGE_MM.max / mmPerPixel),
+      width: Math.round(eyeRegion.width * 1.6),
+      height: Math.round((UPPER_RIM_RANGE_MM.max + LOWER_RIM_RANGE_MM.max) / mmPerPixel)
+    },
+    imageWidth,
+    imageHeight
+  );
+
+  if (band.width < 4 || band.height < 4) {
+    return null;
+  }
+
+  const pixels = ctx.getImageData(band.x, band.y, band.width, band.height);
+  const gray = toGrayscale(pixels.data, band.width, band.height);
+  const pupilRow = pupil.y - band.y;
+
+  const bottom = findRimTangent(
+    gray,
+    band.width,
+    band.height,
+    Math.round(pupilRow + LOWER_RIM_RANGE_MM.min / mmPerPixel),
+    Math.round(pupilRow + LOWER_RIM_RANGE_MM.max / mmPerPixel),
+    'lower'
+  );
+
+  const top = findRimTangent(
+    gray,
+    band.width,
+    band.height,
+    Math.round(pupilRow - UPPER_RIM_RANGE_MM.max / mmPerPixel),
+    Math.round(pupilRow - UPPER_RIM_RANGE_MM.min / mmPerPixel),
+    'upper'
+  );
+
+  if (bottom === null || top === null) {
+    return null;
+  }
+
+  return {
+    top: band.y + top,
+    bottom: band.y + bottom,
+    left: band.x,
+    right: band.x + band.width
+  };
+}
+
+// Encontrar a tangente horizontal do aro dentro de uma faixa de linhas
+// Cada coluna contribui com a linha de maior gradiente vertical; a tangente
+// inferior é a linha mais baixa entre as colunas fortes e a superior, a mais alta
+function findRimTangent(
+  gray: Float64Array,
+  width: number,
+  height: number,
+  fromRow: number,
+  toRow: number,
+  side: 'upper' | 'lower'
+): number | null {
+  const start = Math.max(1, fromRow);
+  const end = Math.min(height - 2, toRow);
+
+  if (end <= start) {
+    return null;
+  }
+
+  const columns: { row: number; strength: number }[] = [];
+
+  for (let x = 0; x < width; x++) {
+    let bestRow = -1;
+    let bestStrength = 0;
+
+    for (let y = start; y <= end; y++) {
+      const strength = Math.abs(gray[(y + 1) * width + x] - gray[(y - 1) * width + x]);
+      if (strength > bestStrength) {
+        bestStrength = strength;
+        bestRow = y;
+      }
+    }
+
+    if (bestRow >= 0) {
+      columns.push({ row: bestRow, strength: bestStrength });
+    }
+  }
+
+  if (columns.length === 0) {
+    return null;
+  }
+
+  const maxStrength = Math.max(...columns.map(column => column.strength));
+  const rows = columns
+    .filter(column => column.strength >= maxStrength * MIN_COLUMN_STRENGTH)
+    .map(column => column.row)
+    .sort((a, b) => a - b);
+
+  // Exigir borda contínua em ao menos um quarto da largura da faixa
+  if (maxStrength === 0 || rows.length < width * 0.25) {
+    return null;
+  }
+
+  // Percentis em vez de extremos para ignorar colunas isoladas com ruído
+  const percentile = side === 'lower' ? 0.9 : 0.1;
+  return rows[Math.floor((rows.length - 1) * percentile)];
+}
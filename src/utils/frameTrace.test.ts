@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { OmaParseError } from './oma';
+import { measureTrace, mirrorTrace, parseFrameTrace, radiusAt, traceDimensions } from './frameTrace';
+
+// Contorno elíptico com 360 raios equiangulares, em mm; A = 2 × semiA e B = 2 × semiB
+function ellipse(semiA: number, semiB: number, points = 360): number[] {
+  return Array.from({ length: points }, (_, index) => {
+    const angle = (index * 2 * Math.PI) / points;
+    const radius = (semiA * semiB) / Math.hypot(semiB * Math.cos(angle), semiA * Math.sin(angle));
+    return Math.round(radius * 100) / 100;
+  });
+}
+
+// Registros TRCFMT e R de um contorno, com os raios em centésimos de mm, dez por linha
+function traceRecords(radii: number[], side: string, header = `1;${radii.length};E;${side};F`): string {
+  const lines = [`TRCFMT=${header}`];
+  for (let index = 0; index < radii.length; index += 10) {
+    lines.push(`R=${radii.slice(index, index + 10).map(radius => Math.round(radius * 100)).join(';')}`);
+  }
+  return lines.map(line => `${line}\r\n`).join('');
+}
+
+function parseErrors(text: string): string[] {
+  try {
+    parseFrameTrace(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(OmaParseError);
+    return (error as OmaParseError).errors;
+  }
+  throw new Error('o arquivo deveria ter sido recusado');
+}
+
+const lens = ellipse(26, 20);
+
+describe('parseFrameTrace', () => {
+  it('lê o contorno único (B) para os dois olhos e a ponte informada', () => {
+    const trace = parseFrameTrace(`JOB=1\r\n${traceRecords(lens, 'B')}DBL=18\r\n`);
+
+    expect(trace.right).toHaveLength(360);
+    expect(trace.right[0]).toBeCloseTo(26, 6);
+    expect(trace.right[90]).toBeCloseTo(20, 6);
+    expect(trace.left).toEqual(mirrorTrace(trace.right));
+    expect(trace.dbl).toBe(18);
+  });
+
+  it('lê os contornos de cada olho e espelha o que faltar', () => {
+    const wider = ellipse(27, 20);
+    const both = parseFrameTrace(traceRecords(lens, 'R') + traceRecords(wider, 'L'));
+    const onlyLeft = parseFrameTrace(traceRecords(wider, 'L'));
+
+    expect(both.right[0]).toBeCloseTo(26, 6);
+    expect(both.left[0]).toBeCloseTo(27, 6);
+    expect(both.dbl).toBeNull();
+    expect(onlyLeft.right).toEqual(mirrorTrace(onlyLeft.left));
+  });
+
+  it('recusa formatos e espaçamentos não suportados', () => {
+    expect(parseErrors(traceRecords(lens, 'B', '2;360;E;B;F'))).toEqual([
+      'TRCFMT=2 não suportado; use o formato ASCII (1)'
+    ]);
+    expect(parseErrors(traceRecords(lens, 'B', '1;360;U;B;F'))).toEqual([
+      'apenas traçados com raios equiangulares (E) são suportados'
+    ]);
+    expect(parseErrors(traceRecords(lens, 'X'))).toEqual(['lado do traçado inválido: "X"']);
+  });
+
+  it('recusa contornos com poucos raios ou com raios faltando', () => {
+    expect(parseErrors(traceRecords(ellipse(26, 20, 16), 'B'))).toEqual(['número de raios inválido: "16"']);
+    expect(parseErrors(traceRecords(lens, 'B', '1;400;E;B;F'))).toEqual(['traçado B com 360 de 400 raios']);
+  });
+
+  it('recusa raios fora da faixa de uma lente de óculos', () => {
+    const radii = [...lens];
+    radii[5] = 80;
+
+    expect(parseErrors(traceRecords(radii, 'R'))).toEqual(['raio inválido no traçado R: "8000"']);
+  });
+
+  it('recusa arquivos sem traçado ou com ponte inválida', () => {
+    expect(parseErrors('JOB=1\r\n')).toEqual(['nenhum traçado (TRCFMT) encontrado']);
+    expect(parseErrors(`${traceRecords(lens, 'B')}DBL=abc\r\n`)).toEqual(['DBL inválido: "abc"']);
+  });
+});
+
+describe('radiusAt', () => {
+  it('interpola entre os raios vizinhos e dá a volta no contorno', () => {
+    const radii = [10, 20, 30, 40];
+
+    expect(radiusAt(radii, 45)).toBe(15);
+    expect(radiusAt(radii, 315)).toBe(25);
+    expect(radiusAt(radii, -90)).toBe(40);
+    expect(radiusAt(radii, 450)).toBe(20);
+  });
+});
+
+describe('mirrorTrace', () => {
+  it('reflete o contorno no eixo vertical', () => {
+    const radii = [10, 20, 30, 40];
+
+    expect(mirrorTrace(radii)).toEqual([30, 20, 10, 40]);
+    expect(mirrorTrace(mirrorTrace(radii))).toEqual(radii);
+  });
+});
+
+describe('measureTrace', () => {
+  it('mede a caixa, o diâmetro efetivo e o perímetro do contorno', () => {
+    const measures = measureTrace(lens);
+
+    expect(measures.a).toBeCloseTo(52, 6);
+    expect(measures.b).toBeCloseTo(40, 6);
+    expect(measures.ed).toBeCloseTo(52, 6);
+    expect(measures.circumference).toBeCloseTo(145.1, 1);
+    expect(measures.boxCenter.x).toBeCloseTo(0, 6);
+    expect(measures.boxCenter.y).toBeCloseTo(0, 6);
+  });
+
+  it('o diâmetro efetivo parte do centro da caixa, não da origem do traçado', () => {
+    // Mesma elipse com a origem do traçado 3 mm à direita do centro
+    const shifted = lens.map((_, index) => {
+      const angle = (index * 2 * Math.PI) / lens.length;
+      const a = (Math.cos(angle) / 26) ** 2 + (Math.sin(angle) / 20) ** 2;
+      const b = (2 * 3 * Math.cos(angle)) / 26 ** 2;
+      const c = (3 / 26) ** 2 - 1;
+      return (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+    });
+    const measures = measureTrace(shifted);
+
+    expect(measures.boxCenter.x).toBeCloseTo(-3, 1);
+    expect(measures.a).toBeCloseTo(52, 1);
+    expect(measures.ed).toBeCloseTo(52, 1);
+    expect(2 * Math.max(...shifted)).toBeCloseTo(58, 1);
+  });
+});
+
+describe('traceDimensions', () => {
+  it('usa o maior valor entre os olhos, com uma casa decimal', () => {
+    const dimensions = traceDimensions({ right: lens, left: ellipse(26.5, 19) }, 17.96);
+
+    expect(dimensions).toEqual({ a: 53, b: 40, dbl: 18, ed: 53, circumference: 145.1 });
+  });
+});
@@ -0,0 +1,190 @@
+import { OmaParseError, parseOmaRecords } from './oma';
+import { TracedFrameDimensions } from '../types/frames';
+
+// Leitura de arquivos de traçadora no padrão OMA (registros TRCFMT e R) e geometria do contorno
+
+// Raios da traçadora vêm em centésimos de milímetro
+const RADIUS_UNIT_MM = 0.01;
+
+// Faixa plausível de raios de uma lente de óculos, em mm
+const MIN_RADIUS_MM = 5;
+const MAX_RADIUS_MM = 50;
+
+// Menor número de pontos aceito para descrever o contorno
+const MIN_TRACE_POINTS = 32;
+
+// Contorno lido do arquivo; o lado não traçado é espelhado do outro
+export interface ParsedFrameTrace {
+  right: number[];
+  left: number[];
+  dbl: number | null; // Ponte informada pela traçadora (rótulo DBL)
+}
+
+// Medidas de um contorno em relação à origem do traçado
+export interface TraceMeasures {
+  a: number;
+  b: number;
+  ed: number;
+  circumference: number;
+  boxCenter: { x: number; y: number }; // Centro da caixa em relação à origem do traçado
+}
+
+// Ler o traçado de um arquivo OMA
+// Suporta o formato ASCII (TRCFMT=1) com raios equiangulares (E), como gravam as traçadoras
+export function parseFrameTrace(text: string): ParsedFrameTrace {
+  const records = parseOmaRecords(text);
+  const errors: string[] = [];
+  const traces: { right?: number[]; left?: number[] } = {};
+
+  let current: { side: 'R' | 'L' | 'B'; count: number; radii: number[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    if (current.radii.length !== current.count) {
+      errors.push(`traçado ${current.side} com ${current.radii.length} de ${current.count} raios`);
+    } else if (current.side === 'L') {
+      traces.left = current.radii;
+    } else {
+      // B: um único contorno para os dois olhos, gravado como o do olho direito
+      traces.right = current.radii;
+    }
+    current = null;
+  };
+
+  for (const record of records) {
+    if (record.label === 'TRCFMT') {
+      finish();
+
+      const [format, count, spacing, side] = record.values.map(value => value.trim());
+      const points = parseInt(count);
+
+      if (format !== '1') {
+        errors.push(`TRCFMT=${format} não suportado; use o formato ASCII (1)`);
+      } else if (spacing !== 'E') {
+        errors.push('apenas traçados com raios equiangulares (E) são suportados');
+      } else if (side !== 'R' && side !== 'L' && side !== 'B') {
+        errors.push(`lado do traçado inválido: "${side}"`);
+      } else if (!Number.isInteger(points) || points < MIN_TRACE_POINTS) {
+        errors.push(`número de raios inválido: "${count}"`);
+      } else {
+        current = { side, count: points, radii: [] };
+      }
+      continue;
+    }
+
+    if (record.label === 'R' && current) {
+      const trace = current;
+      const invalid = record.values.find(value => {
+        if (value.trim() === '') return false;
+        const radius = Number(value) * RADIUS_UNIT_MM;
+        return !Number.isFinite(radius) || radius < MIN_RADIUS_MM || radius > MAX_RADIUS_MM;
+      });
+
+      if (invalid !== undefined) {
+        // O traçado é descartado: as linhas R seguintes dele são ignoradas
+        errors.push(`raio inválido no traçado ${trace.side}: "${invalid}"`);
+        current = null;
+        continue;
+      }
+
+      for (const value of record.values) {
+        if (value.trim() !== '') trace.radii.push(Number(value) * RADIUS_UNIT_MM);
+      }
+    }
+  }
+  finish();
+
+  if (!traces.right && !traces.left && errors.length === 0) {
+    errors.push('nenhum traçado (TRCFMT) encontrado');
+  }
+
+  const dblRecord = records.find(record => record.label === 'DBL');
+  const dblRaw = dblRecord?.values[0]?.trim() ?? '';
+  const dbl = dblRaw === '' ? null : Number(dblRaw);
+  if (dbl !== null && (!Number.isFinite(dbl) || dbl <= 0)) {
+    errors.push(`DBL inválido: "${dblRaw}"`);
+  }
+
+  if (errors.length > 0) {
+    throw new OmaParseError(errors);
+  }
+
+  const right = traces.right ?? mirrorTrace(traces.left!);
+  const left = traces.left ?? mirrorTrace(traces.right!);
+
+  return { right, left, dbl };
+}
+
+// Raio em um ângulo qualquer, interpolado entre os pontos vizinhos
+export function radiusAt(radii: number[], angle: number): number {
+  const step = 360 / radii.length;
+  const position = (((angle % 360) + 360) % 360) / step;
+  const index = Math.floor(position);
+  const fraction = position - index;
+
+  return radii[index % radii.length] * (1 - fraction) + radii[(index + 1) % radii.length] * fraction;
+}
+
+// Espelhar o contorno de um olho para o outro (reflexão no eixo vertical)
+export function mirrorTrace(radii: number[]): number[] {
+  const step = 360 / radii.length;
+  return radii.map((_, index) => radiusAt(radii, 180 - index * step));
+}
+
+// Pontos do contorno em mm, com y para cima, em relação à origem do traçado
+export function tracePoints(radii: number[]): { x: number; y: number }[] {
+  const step = (2 * Math.PI) / radii.length;
+  return radii.map((radius, index) => ({
+    x: radius * Math.cos(index * step),
+    y: radius * Math.sin(index * step)
+  }));
+}
+
+// Caixa (A e B), diâmetro efetivo e perímetro de um contorno
+export function measureTrace(radii: number[]): TraceMeasures {
+  const points = tracePoints(radii);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+
+  const boxCenter = {
+    x: (Math.max(...xs) + Math.min(...xs)) / 2,
+    y: (Math.max(...ys) + Math.min(...ys)) / 2
+  };
+
+  // ED: o dobro da maior distância do centro da caixa até o contorno
+  const ed = 2 * Math.max(...points.map(point => Math.hypot(point.x - boxCenter.x, point.y - boxCenter.y)));
+
+  let circumference = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    circumference += Math.hypot(next.x - point.x, next.y - point.y);
+  });
+
+  return {
+    a: Math.max(...xs) - Math.min(...xs),
+    b: Math.max(...ys) - Math.min(...ys),
+    ed,
+    circumference,
+    boxCenter
+  };
+}
+
+// Dimensões da armação a partir do traçado dos dois olhos
+// Vale o maior valor entre os olhos, que define o bloco de lente necessário
+export function traceDimensions(trace: { right: number[]; left: number[] }, dbl: number): TracedFrameDimensions {
+  const right = measureTrace(trace.right);
+  const left = measureTrace(trace.left);
+
+  return {
+    a: round(Math.max(right.a, left.a)),
+    b: round(Math.max(right.b, left.b)),
+    dbl: round(dbl),
+    ed: round(Math.max(right.ed, left.ed)),
+    circumference: round(Math.max(right.circumference, left.circumference))
+  };
+}
+
+// Uma casa decimal, a precisão da ficha técnica das armações
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,153 @@
+import { HeadPose } from '../types/measurements';
+
+// Modelo facial 3D genérico (unidades arbitrárias, eixo Y para cima e Z em
+// direção à câmera), associado aos índices do conjunto de 68 landmarks
+const FACE_MODEL: { index: number; point: [number, number, number] }[] = [
+  { index: 30, point: [0, 0, 0] },           // Ponta do nariz
+  { index: 8, point: [0, -330, -65] },       // Queixo
+  { index: 36, point: [-225, 170, -135] },   // Canto externo do olho esquerdo
+  { index: 45, point: [225, 170, -135] },    // Canto externo do olho direito
+  { index: 48, point: [-150, -150, -125] },  // Canto esquerdo da boca
+  { index: 54, point: [150, -150, -125] }    // Canto direito da boca
+];
+
+// Limites de pose aceitos para a captura, em graus
+export interface HeadPoseLimits {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export const DEFAULT_HEAD_POSE_LIMITS: HeadPoseLimits = {
+  yaw: parseFloat(process.env.HEAD_POSE_MAX_YAW || '8'),
+  pitch: parseFloat(process.env.HEAD_POSE_MAX_PITCH || '10'),
+  roll: parseFloat(process.env.HEAD_POSE_MAX_ROLL || '5')
+};
+
+// Erro lançado quando a pose da cabeça excede os limites de captura
+export class HeadPoseError extends Error {
+  constructor(
+    message: string,
+    public pose: HeadPose,
+    public violations: string[]
+  ) {
+    super(message);
+    this.name = 'HeadPoseError';
+    Object.setPrototypeOf(this, HeadPoseError.prototype);
+  }
+}
+
+// Estimar yaw, pitch e roll a partir dos 68 landmarks com o algoritmo POS
+// (pose por projeção ortográfica escalada) sobre o modelo facial genérico
+//
+// Convenções, em graus:
+// - yaw positivo: nariz voltado para a direita da imagem
+// - pitch positivo: cabeça inclinada para baixo
+// - roll positivo: sentido horário na imagem (olho direito mais baixo)
+export function estimateHeadPose(positions: { x: number; y: number }[]): HeadPose | null {
+  if (positions.length < 68) {
+    return null;
+  }
+
+  const origin = FACE_MODEL[0];
+  const originImage = positions[origin.index];
+
+  // Vetores do modelo e da imagem relativos à ponta do nariz
+  // (o eixo Y da imagem é invertido para coincidir com o modelo)
+  const model = FACE_MODEL.slice(1).map(({ point }) => [
+    point[0] - origin.point[0],
+    point[1] - origin.point[1],
+    point[2] - origin.point[2]
+  ]);
+  const imageX = FACE_MODEL.slice(1).map(({ index }) => positions[index].x - originImage.x);
+  const imageY = FACE_MODEL.slice(1).map(({ index }) => -(positions[index].y - originImage.y));
+
+  // Pseudo-inversa do modelo: (AᵀA)⁻¹Aᵀ
+  const normal = [0, 1, 2].map(i =>
+    [0, 1, 2].map(j => model.reduce((sum, row) => sum + row[i] * row[j], 0))
+  );
+  const inverse = invert3x3(normal);
+
+  if (!inverse) {
+    return null;
+  }
+
+  const project = (values: number[]) => {
+    const projected = [0, 1, 2].map(i =>
+      model.reduce((sum, row, k) => sum + row[i] * values[k], 0)
+    );
+    return inverse.map(row =>
+      row[0] * projected[0] + row[1] * projected[1] + row[2] * projected[2]
+    );
+  };
+
+  const i = project(imageX);
+  const j = project(imageY);
+  const normI = Math.hypot(i[0], i[1], i[2]);
+  const normJ = Math.hypot(j[0], j[1], j[2]);
+
+  if (normI === 0 || normJ === 0) {
+    return null;
+  }
+
+  // Linhas da matriz de rotação
+  const r1 = i.map(value => value / normI);
+  const r2 = j.map(value => value / normJ);
+  const r3 = [
+    r1[1] * r2[2] - r1[2] * r2[1],
+    r1[2] * r2[0] - r1[0] * r2[2],
+    r1[0] * r2[1] - r1[1] * r2[0]
+  ];
+
+  const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+  return {
+    yaw: toDegrees(Math.asin(Math.max(-1, Math.min(1, -r3[0])))),
+    pitch: toDegrees(Math.atan2(r3[1], r3[2])),
+    roll: -toDegrees(Math.atan2(r2[0], r1[0]))
+  };
+}
+
+// Verificar a pose em relação aos limites de captura
+export function checkHeadPose(
+  pose: HeadPose,
+  limits: HeadPoseLimits = DEFAULT_HEAD_POSE_LIMITS
+): string[] {
+  const violations: string[] = [];
+
+  if (Math.abs(pose.yaw) > limits.yaw) {
+    violations.push(`O rosto está virado para o lado (${pose.yaw.toFixed(1)}°, máximo ${limits.yaw}°).`);
+  }
+
+  if (Math.abs(pose.pitch) > limits.pitch) {
+    violations.push(`A cabeça está inclinada para cima ou para baixo (${pose.pitch.toFixed(1)}°, máximo ${limits.pitch}°).`);
+  }
+
+  if (Math.abs(pose.roll) > limits.roll) {
+    violations.push(`A cabeça está inclinada lateralmente (${pose.roll.toFixed(1)}°, máximo ${limits.roll}°).`);
+  }
+
+  return violations;
+}
+
+// Inverter matriz 3x3 pela matriz adjunta
+function invert3x3(m: number[][]): number[][] | null {
+  const [a, b, c] = m[0];
+  const [d, e, f] = m[1];
+  const [g, h, i] = m[2];
+
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const determinant = a * A + b * B + c * C;
+
+  if (Math.abs(determinant) < 1e-12) {
+    return null;
+  }
+
+  return [
+    [A / determinant, -(b * i - c * h) / determinant, (b * f - c * e) / determinant],
+    [B / determinant, (a * i - c * g) / determinant, -(a * f - c * d) / determinant],
+    [C / determinant, -(a * h - b * g) / determinant, (a * e - b * d) / determinant]
+  ];
+}
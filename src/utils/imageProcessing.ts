@@ -1,46 +1,94 @@
-import { createCanvas, loadImage } from 'canvas';
-import { QualityAnalysis, MeasurementQuality } from '../types/measurements';
+import { createCanvas, loadImage, Image } from 'canvas';
+import heicConvert from 'heic-convert';
+import {
+  QualityAnalysis,
+  QualityRegion,
+  QualityThresholds,
+  MeasurementQuality,
+  HeadPose,
+  FacialLandmarks,
+  ImageRegion,
+  ImageMetadata,
+  CaptureDevice
+} from '../types/measurements';
+import { checkHeadPose, HeadPoseLimits, DEFAULT_HEAD_POSE_LIMITS } from './headPose';
+import { clampRegion, toGrayscale } from './calibration';
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  exposureStats,
+  expandRegion,
+  glareFraction,
+  laplacianVariance
+} from './imageQuality';
+import { detectImageFormat, readExif, stripJpegMetadata, stripPngMetadata, ExifData, ImageFormat } from './exif';
+import { parseImageData } from '../services/blobStore';
+
+// Qualidade das fotos recodificadas ao aplicar a orientação ou reduzir a resolução
+const JPEG_QUALITY = 0.92;
+
+// Maior lado, em pixels, da resolução de trabalho usada na análise e no armazenamento
+// Fotos de celular acima disso só aumentam o custo da detecção sem ganho de precisão
+export const WORKING_MAX_DIMENSION = parseInt(process.env.IMAGE_WORKING_MAX_PX || '2048');
+
+// Erro lançado quando o conteúdo recebido não é uma imagem suportada
+export class InvalidImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImageError';
+    Object.setPrototypeOf(this, InvalidImageError.prototype);
+  }
+}
+
+// Imagem pronta para análise e armazenamento: orientação aplicada e metadados pessoais removidos
+export interface IngestedImage {
+  buffer: Buffer;
+  contentType: string;
+  dataUrl: string;
+  metadata: ImageMetadata;
+}
+
+// Pontos faciais usados na avaliação de qualidade (saída de detectFacialLandmarks)
+export type QualityFaceLandmarks = Pick<
+  FacialLandmarks,
+  'pose' | 'eyeRegions' | 'faceRegion' | 'eyeOpenness'
+>;
+
+// Margem em torno do contorno do olho: inclui pálpebras no foco e a lente dos óculos no reflexo
+const EYE_SHARPNESS_MARGIN = 0.3;
+const EYE_GLARE_MARGIN = 0.6;
 
 // Validar qualidade da imagem
-export async function validateImageQuality(imageData: string): Promise<QualityAnalysis> {
+// As métricas são calculadas nas regiões do rosto e dos olhos vindas da detecção facial;
+// sem rosto detectado, foco e exposição usam a imagem inteira e os olhos ficam reprovados
+export async function validateImageQuality(
+  imageData: string,
+  face?: QualityFaceLandmarks,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS,
+  poseLimits: HeadPoseLimits = DEFAULT_HEAD_POSE_LIMITS
+): Promise<QualityAnalysis> {
   try {
     const image = await loadImage(imageData);
     const canvas = createCanvas(image.width, image.height);
     const ctx = canvas.getContext('2d');
     ctx.drawImage(image, 0, 0);
 
-    // Analisar resolução
-    const resolution = analyzeResolution(image.width, image.height);
-
-    // Analisar brilho
-    const brightness = await analyzeBrightness(ctx, image.width, image.height);
-
-    // Analisar nitidez
-    const sharpness = await analyzeSharpness(ctx, image.width, image.height);
-
-    // Determinar qualidade geral
-    const quality = determineQuality(resolution, brightness, sharpness);
+    const details = {
+      resolution: analyzeResolution(image.width, image.height, thresholds),
+      sharpness: analyzeSharpness(ctx, image.width, image.height, face, thresholds),
+      exposure: analyzeExposure(ctx, image.width, image.height, face, thresholds),
+      glare: analyzeGlare(ctx, image.width, image.height, face, thresholds),
+      eyesOpen: analyzeEyesOpen(face, thresholds),
+      faceAngle: analyzeFaceAngle(face?.pose, poseLimits)
+    };
 
-    // Gerar mensagem baseada na qualidade
-    const message = generateQualityMessage(quality, {
-      resolution,
-      brightness,
-      sharpness
-    });
+    const quality = determineQuality(details);
 
     return {
       isGood: quality !== 'low',
-      message,
+      message: generateQualityMessage(quality, details),
       quality,
-      details: {
-        resolution,
-        brightness,
-        sharpness,
-        faceAngle: {
-          value: 0, // Será calculado durante a detecção facial
-          isGood: true
-        }
-      }
+      thresholds,
+      details
     };
   } catch (error) {
     console.error('Erro ao validar qualidade da imagem:', error);
@@ -48,150 +96,236 @@ export async function validateImageQuality(imageData: string): Promise<QualityAn
       isGood: false,
       message: 'Erro ao processar imagem',
       quality: 'low',
+      thresholds,
       details: {
-        resolution: {
-          width: 0,
-          height: 0,
-          isGood: false
-        },
-        brightness: {
-          value: 0,
-          isGood: false
-        },
-        sharpness: {
-          value: 0,
-          isGood: false
-        },
-        faceAngle: {
-          value: 0,
-          isGood: false
-        }
+        resolution: { width: 0, height: 0, isGood: false },
+        sharpness: { value: 0, region: 'frame', isGood: false },
+        exposure: { value: 0, darkClipping: 0, brightClipping: 0, region: 'frame', isGood: false },
+        glare: { value: 0, isGood: false },
+        eyesOpen: { left: 0, right: 0, isGood: false },
+        faceAngle: { value: 0, yaw: 0, pitch: 0, roll: 0, isGood: false }
       }
     };
   }
 }
 
-// Analisar resolução da imagem
-function analyzeResolution(width: number, height: number): {
-  width: number;
-  height: number;
-  isGood: boolean;
-} {
-  const minResolution = 640 * 480;
-  const currentResolution = width * height;
-  const isGood = currentResolution >= minResolution;
+type QualityDetails = QualityAnalysis['details'];
+
+// Ler uma região da imagem em tons de cinza (0 a 1), limitada às bordas
+function readGrayRegion(
+  ctx: CanvasRenderingContext2D,
+  region: ImageRegion,
+  imageWidth: number,
+  imageHeight: number
+): { gray: Float64Array; width: number; height: number } {
+  const clamped = clampRegion(roundRegion(region), imageWidth, imageHeight);
+  if (clamped.width === 0 || clamped.height === 0) {
+    return { gray: new Float64Array(0), width: 0, height: 0 };
+  }
+
+  const pixels = ctx.getImageData(clamped.x, clamped.y, clamped.width, clamped.height);
+  return {
+    gray: toGrayscale(pixels.data, clamped.width, clamped.height),
+    width: clamped.width,
+    height: clamped.height
+  };
+}
 
+function roundRegion(region: ImageRegion): ImageRegion {
+  return {
+    x: Math.round(region.x),
+    y: Math.round(region.y),
+    width: Math.round(region.width),
+    height: Math.round(region.height)
+  };
+}
+
+// Analisar resolução da imagem
+function analyzeResolution(
+  width: number,
+  height: number,
+  thresholds: QualityThresholds
+): QualityDetails['resolution'] {
   return {
     width,
     height,
-    isGood
+    isGood: width * height >= thresholds.minResolution
   };
 }
 
-// Analisar brilho da imagem
-async function analyzeBrightness(
+// Analisar o foco pela variância do Laplaciano nos olhos, onde a pupila é localizada
+function analyzeSharpness(
   ctx: CanvasRenderingContext2D,
   width: number,
-  height: number
-): Promise<{
-  value: number;
-  isGood: boolean;
-}> {
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-
-  let brightness = 0;
-  for (let i = 0; i < data.length; i += 4) {
-    brightness += (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114) / 255;
+  height: number,
+  face: QualityFaceLandmarks | undefined,
+  thresholds: QualityThresholds
+): QualityDetails['sharpness'] {
+  let value: number;
+  let region: QualityRegion;
+
+  if (face?.eyeRegions) {
+    const eyes = [face.eyeRegions.left, face.eyeRegions.right].map(eye =>
+      readGrayRegion(ctx, expandRegion(eye, EYE_SHARPNESS_MARGIN), width, height)
+    );
+    value = eyes.reduce((sum, eye) => sum + laplacianVariance(eye.gray, eye.width, eye.height), 0) / eyes.length;
+    region = 'eyes';
+  } else {
+    const area = readGrayRegion(ctx, face?.faceRegion ?? { x: 0, y: 0, width, height }, width, height);
+    value = laplacianVariance(area.gray, area.width, area.height);
+    region = face?.faceRegion ? 'face' : 'frame';
   }
 
-  const averageBrightness = brightness / (data.length / 4);
-  const isGood = averageBrightness >= 0.3 && averageBrightness <= 0.9;
+  return {
+    value,
+    region,
+    isGood: value >= thresholds.minSharpness
+  };
+}
+
+// Analisar a exposição do rosto: luminância média e pixels estourados ou no preto
+// Medida só no rosto para que um fundo claro não compense um rosto escuro
+function analyzeExposure(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  face: QualityFaceLandmarks | undefined,
+  thresholds: QualityThresholds
+): QualityDetails['exposure'] {
+  const area = readGrayRegion(ctx, face?.faceRegion ?? { x: 0, y: 0, width, height }, width, height);
+  const stats = exposureStats(area.gray);
 
   return {
-    value: averageBrightness,
-    isGood
+    value: stats.mean,
+    darkClipping: stats.darkClipping,
+    brightClipping: stats.brightClipping,
+    region: face?.faceRegion ? 'face' : 'frame',
+    isGood:
+      stats.mean >= thresholds.minExposure &&
+      stats.mean <= thresholds.maxExposure &&
+      stats.darkClipping + stats.brightClipping <= thresholds.maxClipping
   };
 }
 
-// Analisar nitidez da imagem
-async function analyzeSharpness(
+// Analisar o reflexo especular sobre os olhos, comum com óculos e flash
+// O valor é o do olho mais afetado, já que um único olho encoberto impede a medição
+function analyzeGlare(
   ctx: CanvasRenderingContext2D,
   width: number,
-  height: number
-): Promise<{
-  value: number;
-  isGood: boolean;
-}> {
-  const imageData = ctx.getImageData(0, 0, width, height);
-  const data = imageData.data;
-
-  let sharpness = 0;
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-
-      // Calcular diferença entre pixels adjacentes
-      const diffX = Math.abs(
-        data[idx] - data[idx + 4] +
-        data[idx + 1] - data[idx + 5] +
-        data[idx + 2] - data[idx + 6]
-      );
-
-      const diffY = Math.abs(
-        data[idx] - data[idx + width * 4] +
-        data[idx + 1] - data[idx + width * 4 + 1] +
-        data[idx + 2] - data[idx + width * 4 + 2]
-      );
-
-      sharpness += (diffX + diffY) / 6;
-    }
+  height: number,
+  face: QualityFaceLandmarks | undefined,
+  thresholds: QualityThresholds
+): QualityDetails['glare'] {
+  if (!face?.eyeRegions) {
+    return { value: 0, isGood: false };
   }
 
-  const averageSharpness = sharpness / (width * height);
-  const isGood = averageSharpness >= 0.5;
+  const value = Math.max(
+    ...[face.eyeRegions.left, face.eyeRegions.right].map(eye => {
+      const region = clampRegion(roundRegion(expandRegion(eye, EYE_GLARE_MARGIN)), width, height);
+      if (region.width === 0 || region.height === 0) return 0;
+      return glareFraction(ctx.getImageData(region.x, region.y, region.width, region.height).data);
+    })
+  );
+
+  return {
+    value,
+    isGood: value <= thresholds.maxGlare
+  };
+}
+
+// Verificar se os dois olhos estão abertos pela razão de aspecto (EAR)
+// Sem o EAR dos 6 pontos, usa a proporção do retângulo do contorno, que é próxima
+function analyzeEyesOpen(
+  face: QualityFaceLandmarks | undefined,
+  thresholds: QualityThresholds
+): QualityDetails['eyesOpen'] {
+  const openness = face?.eyeOpenness ?? (face?.eyeRegions
+    ? {
+        left: face.eyeRegions.left.width > 0 ? face.eyeRegions.left.height / face.eyeRegions.left.width : 0,
+        right: face.eyeRegions.right.width > 0 ? face.eyeRegions.right.height / face.eyeRegions.right.width : 0
+      }
+    : null);
+
+  if (!openness) {
+    return { left: 0, right: 0, isGood: false };
+  }
+
+  return {
+    left: openness.left,
+    right: openness.right,
+    isGood: openness.left >= thresholds.minEyeOpenness && openness.right >= thresholds.minEyeOpenness
+  };
+}
+
+// Analisar ângulo do rosto a partir da pose 3D
+function analyzeFaceAngle(
+  pose: HeadPose | undefined,
+  limits: HeadPoseLimits
+): QualityDetails['faceAngle'] {
+  if (!pose) {
+    return {
+      value: 0,
+      yaw: 0,
+      pitch: 0,
+      roll: 0,
+      isGood: false
+    };
+  }
 
   return {
-    value: averageSharpness,
-    isGood
+    value: Math.max(Math.abs(pose.yaw), Math.abs(pose.pitch), Math.abs(pose.roll)),
+    yaw: pose.yaw,
+    pitch: pose.pitch,
+    roll: pose.roll,
+    isGood: checkHeadPose(pose, limits).length === 0
   };
 }
 
 // Determinar qualidade geral
-function determineQuality(
-  resolution: { isGood: boolean },
-  brightness: { isGood: boolean },
-  sharpness: { isGood: boolean }
-): MeasurementQuality {
-  const goodCount = [resolution, brightness, sharpness].filter(
-    metric => metric.isGood
+// Foco e olhos fechados impedem a localização da pupila e reprovam a imagem sozinhos;
+// as demais métricas reduzem a qualidade, e duas falhas juntas também a reprovam
+function determineQuality(details: QualityDetails): MeasurementQuality {
+  if (!details.sharpness.isGood || !details.eyesOpen.isGood) return 'low';
+
+  const failures = [details.resolution, details.exposure, details.glare].filter(
+    metric => !metric.isGood
   ).length;
 
-  if (goodCount >= 2) return 'high';
-  if (goodCount === 1) return 'medium';
+  if (failures === 0) return 'high';
+  if (failures === 1) return 'medium';
   return 'low';
 }
 
 // Gerar mensagem de qualidade
 function generateQualityMessage(
   quality: MeasurementQuality,
-  metrics: {
-    resolution: { isGood: boolean };
-    brightness: { isGood: boolean };
-    sharpness: { isGood: boolean };
-  }
+  details: QualityDetails
 ): string {
   const issues: string[] = [];
 
-  if (!metrics.resolution.isGood) {
+  if (!details.resolution.isGood) {
     issues.push('resolução baixa');
   }
-  if (!metrics.brightness.isGood) {
-    issues.push('iluminação inadequada');
-  }
-  if (!metrics.sharpness.isGood) {
+  if (!details.sharpness.isGood) {
     issues.push('imagem desfocada');
   }
+  if (!details.exposure.isGood) {
+    issues.push(
+      details.exposure.value < 0.5
+        ? 'rosto escuro ou subexposto'
+        : 'rosto muito claro ou estourado'
+    );
+  }
+  if (!details.glare.isGood && details.glare.value > 0) {
+    issues.push('reflexo sobre os olhos (incline levemente os óculos ou evite o flash)');
+  }
+  if (!details.eyesOpen.isGood && (details.eyesOpen.left > 0 || details.eyesOpen.right > 0)) {
+    issues.push('olhos fechados ou semicerrados');
+  }
+  if (!details.faceAngle.isGood) {
+    issues.push('rosto não detectado ou fora de posição');
+  }
 
   if (issues.length === 0) {
     return 'A qualidade da imagem está boa.';
@@ -234,21 +368,148 @@ export async function imageToBase64(imageData: string): Promise<string> {
   return canvas.toDataURL('image/jpeg', 0.9);
 }
 
-// Extrair metadados da imagem
-export async function extractImageMetadata(imageData: string): Promise<{
-  width: number;
-  height: number;
-  format: string;
-  size: number;
+// Decodificar a imagem recebida, identificando o formato pelo conteúdo
+async function decodeImage(imageData: string | Buffer): Promise<{
+  buffer: Buffer;
+  format: Exclude<ImageFormat, 'heic'>;
+  exif: ExifData;
+  image: Image;
 }> {
-  const image = await loadImage(imageData);
-  const base64Data = imageData.split(',')[1];
-  const size = Math.ceil((base64Data.length * 3) / 4);
+  let buffer: Buffer;
+  try {
+    buffer = typeof imageData === 'string' ? parseImageData(imageData).buffer : imageData;
+  } catch (error) {
+    throw new InvalidImageError(error instanceof Error ? error.message : 'Imagem inválida');
+  }
+
+  const detected = detectImageFormat(buffer);
+  if (!detected) {
+    throw new InvalidImageError('Formato de imagem não suportado. Envie uma foto JPEG, PNG, HEIC ou WebP.');
+  }
+
+  // O canvas não decodifica HEIC: converter para JPEG, já com a rotação do arquivo aplicada
+  // A conversão não preserva o EXIF, então fotos HEIC chegam sem dados do dispositivo
+  let format: Exclude<ImageFormat, 'heic'>;
+  if (detected === 'heic') {
+    try {
+      buffer = Buffer.from(await heicConvert({ buffer, format: 'JPEG', quality: JPEG_QUALITY }));
+    } catch {
+      throw new InvalidImageError('Não foi possível converter a foto HEIC');
+    }
+    format = 'jpeg';
+  } else {
+    format = detected;
+  }
+
+  const image = await loadImage(buffer).catch(() => {
+    throw new InvalidImageError('Não foi possível decodificar a imagem');
+  });
+
+  return { buffer, format, exif: readExif(buffer), image };
+}
+
+// Orientações EXIF 5 a 8 giram a imagem em 90°, trocando largura e altura
+function swapsDimensions(orientation: number): boolean {
+  return orientation >= 5;
+}
+
+// Campos do dispositivo preservados; os ausentes no EXIF ficam de fora
+function captureDeviceFromExif(exif: ExifData): CaptureDevice {
+  const device: CaptureDevice = {};
+  if (exif.make) device.make = exif.make;
+  if (exif.model) device.model = exif.model;
+  if (exif.focalLength) device.focalLength = exif.focalLength;
+  if (exif.focalLength35mm) device.focalLength35mm = exif.focalLength35mm;
+  return device;
+}
+
+// Fator para trazer o maior lado da imagem à resolução de trabalho (1 se já couber)
+function workingScale(width: number, height: number): number {
+  return Math.min(1, WORKING_MAX_DIMENSION / Math.max(width, height));
+}
+
+// Desenhar a imagem na orientação indicada pela tag Orientation, na escala pedida
+function drawOriented(image: Image, orientation: number, scale = 1) {
+  const width = image.width;
+  const height = image.height;
+  const scaledWidth = Math.round(width * scale);
+  const scaledHeight = Math.round(height * scale);
+  const canvas = swapsDimensions(orientation)
+    ? createCanvas(scaledHeight, scaledWidth)
+    : createCanvas(scaledWidth, scaledHeight);
+  const ctx = canvas.getContext('2d');
+
+  ctx.scale(scale, scale);
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
+
+// Preparar uma foto recebida antes de qualquer análise ou armazenamento:
+// aplica a orientação EXIF, reduz à resolução de trabalho e remove localização
+// e demais metadados pessoais, preservando apenas os dados do dispositivo
+// usados na estimativa de distância
+export async function ingestImage(imageData: string | Buffer): Promise<IngestedImage> {
+  const { buffer: original, format, exif, image } = await decodeImage(imageData);
+  const scale = workingScale(image.width, image.height);
+
+  let buffer: Buffer;
+  let outputFormat: ImageMetadata['format'] = format;
+  let width = image.width;
+  let height = image.height;
+
+  if (exif.orientation !== 1 || scale < 1 || format === 'webp') {
+    // Redesenhar na orientação e resolução corretas; a recodificação não carrega nenhum metadado
+    const canvas = drawOriented(image, exif.orientation, scale);
+    outputFormat = format === 'png' ? 'png' : 'jpeg';
+    buffer = outputFormat === 'png'
+      ? canvas.toBuffer('image/png')
+      : canvas.toBuffer('image/jpeg', { quality: JPEG_QUALITY });
+    width = canvas.width;
+    height = canvas.height;
+  } else {
+    // Sem rotação, os metadados são removidos sem recomprimir a foto
+    buffer = format === 'png' ? stripPngMetadata(original) : stripJpegMetadata(original);
+  }
+
+  const contentType = `image/${outputFormat}`;
+
+  return {
+    buffer,
+    contentType,
+    dataUrl: `data:${contentType};base64,${buffer.toString('base64')}`,
+    metadata: {
+      width,
+      height,
+      format: outputFormat,
+      size: buffer.length,
+      orientation: exif.orientation,
+      device: captureDeviceFromExif(exif)
+    }
+  };
+}
+
+// Extrair metadados da imagem a partir do conteúdo e do EXIF
+// As dimensões já consideram a orientação, como a imagem será exibida
+export async function extractImageMetadata(imageData: string | Buffer): Promise<ImageMetadata> {
+  const { buffer, format, exif, image } = await decodeImage(imageData);
+  const swapped = swapsDimensions(exif.orientation);
 
   return {
-    width: image.width,
-    height: image.height,
-    format: imageData.split(';')[0].split('/')[1],
-    size
+    width: swapped ? image.height : image.width,
+    height: swapped ? image.width : image.height,
+    format,
+    size: buffer.length,
+    orientation: exif.orientation,
+    device: captureDeviceFromExif(exif)
   };
 } 
\ No newline at end of file
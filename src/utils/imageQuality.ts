@@ -0,0 +1,114 @@
+import { ImageRegion, QualityThresholds } from '../types/measurements';
+import { calculateDistance } from './geometry';
+
+// Limites padrão das métricas de qualidade, ajustáveis por ambiente e por franquia
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minResolution: parseInt(process.env.QUALITY_MIN_RESOLUTION || String(640 * 480)),
+  minSharpness: parseFloat(process.env.QUALITY_MIN_SHARPNESS || '40'),
+  minExposure: parseFloat(process.env.QUALITY_MIN_EXPOSURE || '0.3'),
+  maxExposure: parseFloat(process.env.QUALITY_MAX_EXPOSURE || '0.85'),
+  maxClipping: parseFloat(process.env.QUALITY_MAX_CLIPPING || '0.05'),
+  maxGlare: parseFloat(process.env.QUALITY_MAX_GLARE || '0.04'),
+  minEyeOpenness: parseFloat(process.env.QUALITY_MIN_EYE_OPENNESS || '0.2')
+};
+
+// Luminância até a qual o pixel conta como preto; a partir do complemento, como estourado
+const CLIPPING_LEVEL = 5 / 255;
+
+// Reflexo especular: pixel quase branco e sem cor (lente dos óculos, flash)
+const GLARE_MIN_LUMINANCE = 0.94;
+const GLARE_MAX_CHROMA = 0.12;
+
+// Variância do Laplaciano (foco): bordas nítidas produzem respostas fortes e
+// dispersas, enquanto o desfoque achata a resposta em torno de zero
+// A escala é a de 8 bits (0-255), como na literatura
+export function laplacianVariance(gray: Float64Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        (4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - width] - gray[i + width]) * 255;
+
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+// Luminância média e frações de pixels no preto e estourados
+export function exposureStats(gray: Float64Array): {
+  mean: number;
+  darkClipping: number;
+  brightClipping: number;
+} {
+  if (gray.length === 0) {
+    return { mean: 0, darkClipping: 0, brightClipping: 0 };
+  }
+
+  let sum = 0;
+  let dark = 0;
+  let bright = 0;
+
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i];
+    if (gray[i] <= CLIPPING_LEVEL) dark++;
+    else if (gray[i] >= 1 - CLIPPING_LEVEL) bright++;
+  }
+
+  return {
+    mean: sum / gray.length,
+    darkClipping: dark / gray.length,
+    brightClipping: bright / gray.length
+  };
+}
+
+// Fração de pixels com reflexo especular em um bloco RGBA
+export function glareFraction(data: Uint8ClampedArray): number {
+  const pixels = data.length / 4;
+  if (pixels === 0) return 0;
+
+  let glare = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const luminance = (r * 0.299 + g * 0.587 + b * 0.114) / 255;
+    const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+
+    if (luminance >= GLARE_MIN_LUMINANCE && chroma <= GLARE_MAX_CHROMA) glare++;
+  }
+
+  return glare / pixels;
+}
+
+// Razão de aspecto do olho (EAR) sobre os 6 pontos do contorno do face-api
+// (canto externo, 2 pontos superiores, canto interno, 2 pontos inferiores):
+// ~0,3 com o olho aberto, perto de zero com o olho fechado
+export function eyeAspectRatio(points: { x: number; y: number }[]): number {
+  if (points.length !== 6) return 0;
+
+  const width = calculateDistance(points[0], points[3]);
+  if (width === 0) return 0;
+
+  return (calculateDistance(points[1], points[5]) + calculateDistance(points[2], points[4])) / (2 * width);
+}
+
+// Ampliar uma região em torno do centro, na fração pedida de cada dimensão
+export function expandRegion(region: ImageRegion, margin: number): ImageRegion {
+  return {
+    x: region.x - region.width * margin,
+    y: region.y - region.height * margin,
+    width: region.width * (1 + 2 * margin),
+    height: region.height * (1 + 2 * margin)
+  };
+}
@@ -1,17 +1,23 @@
 import { calculateDistance, calculateAngle } from './geometry';
+import { NearPd } from '../types/measurements';
 
-// Fator de calibração (mm por pixel)
-const CALIBRATION_FACTOR = 0.264583333; // 1 pixel = 0.264583333 mm a 30cm de distância
+// Profundidade média do dorso nasal à frente do plano das pupilas, em mm
+const NOSE_DEPTH_MM = 15;
+
+// Geometria padrão para a DP de perto, em mm
+export const DEFAULT_WORKING_DISTANCE_MM = parseFloat(process.env.NEAR_WORKING_DISTANCE_MM || '400');
+const DEFAULT_VERTEX_DISTANCE_MM = 12;
+const ROTATION_CENTER_DEPTH_MM = 13.5; // Do ápice da córnea ao centro de rotação do olho
 
 // Calcular medições a partir dos landmarks
+// mmPerPixel deve vir de uma referência real na imagem (ver utils/calibration)
 export function calculateMeasurements(
   landmarks: {
     leftEye: { x: number; y: number };
     rightEye: { x: number; y: number };
     nose: { x: number; y: number };
   },
-  imageWidth: number,
-  imageHeight: number
+  mmPerPixel: number
 ): {
   dp: number;
   dpnLeft: number;
@@ -20,11 +26,11 @@ export function calculateMeasurements(
   apRight: number;
 } {
   // Calcular distância pupilar total (DP)
-  const dp = calculateDistance(landmarks.leftEye, landmarks.rightEye) * CALIBRATION_FACTOR;
+  const dp = calculateDistance(landmarks.leftEye, landmarks.rightEye) * mmPerPixel;
 
   // Calcular distância pupilar nasal (DPN)
-  const dpnLeft = calculateDistance(landmarks.leftEye, landmarks.nose) * CALIBRATION_FACTOR;
-  const dpnRight = calculateDistance(landmarks.rightEye, landmarks.nose) * CALIBRATION_FACTOR;
+  const dpnLeft = calculateDistance(landmarks.leftEye, landmarks.nose) * mmPerPixel;
+  const dpnRight = calculateDistance(landmarks.rightEye, landmarks.nose) * mmPerPixel;
 
   // Calcular altura pupilar (AP)
   // Assumindo que a linha horizontal dos olhos é a referência
@@ -32,39 +38,68 @@ export function calculateMeasurements(
   const apLeft = Math.abs(
     (landmarks.leftEye.y - landmarks.nose.y) * Math.cos(eyeLineAngle) -
     (landmarks.leftEye.x - landmarks.nose.x) * Math.sin(eyeLineAngle)
-  ) * CALIBRATION_FACTOR;
+  ) * mmPerPixel;
 
   const apRight = Math.abs(
     (landmarks.rightEye.y - landmarks.nose.y) * Math.cos(eyeLineAngle) -
     (landmarks.rightEye.x - landmarks.nose.x) * Math.sin(eyeLineAngle)
-  ) * CALIBRATION_FACTOR;
+  ) * mmPerPixel;
 
-  // Aplicar correções baseadas na distância da câmera
-  const distanceCorrection = calculateDistanceCorrection(imageWidth, imageHeight);
-  
   return {
-    dp: dp * distanceCorrection,
-    dpnLeft: dpnLeft * distanceCorrection,
-    dpnRight: dpnRight * distanceCorrection,
-    apLeft: apLeft * distanceCorrection,
-    apRight: apRight * distanceCorrection
+    dp,
+    dpnLeft,
+    dpnRight,
+    apLeft,
+    apRight
   };
 }
 
-// Calcular fator de correção baseado na distância da câmera
-function calculateDistanceCorrection(imageWidth: number, imageHeight: number): number {
-  // Assumindo que o rosto deve ocupar aproximadamente 60% da largura da imagem
-  // quando a distância está correta (30cm)
-  const expectedFaceWidth = imageWidth * 0.6;
-  const actualFaceWidth = Math.abs(
-    landmarks.rightEye.x - landmarks.leftEye.x
-  ) * 3; // Aproximadamente 3x a distância entre os olhos
+// Compensar pequenas rotações laterais (yaw) da cabeça
+// Com o rosto virado, a DP aparece encurtada pelo cosseno do ângulo e o nariz,
+// por estar à frente das pupilas, desloca-se lateralmente em relação a elas
+export function compensateYaw<T extends {
+  dp: number;
+  dpnLeft: number;
+  dpnRight: number;
+}>(measurements: T, yawDegrees: number): T {
+  const yaw = (yawDegrees * Math.PI) / 180;
+  const cos = Math.cos(yaw);
+  const noseShift = NOSE_DEPTH_MM * Math.sin(yaw);
+
+  // Yaw positivo leva o nariz para a direita da imagem, afastando-o do olho esquerdo
+  return {
+    ...measurements,
+    dp: measurements.dp / cos,
+    dpnLeft: (measurements.dpnLeft - noseShift) / cos,
+    dpnRight: (measurements.dpnRight + noseShift) / cos
+  };
+}
 
-  // Calcular fator de correção
-  const correctionFactor = expectedFaceWidth / actualFaceWidth;
+// Calcular a DP de perto a partir da DP de longe
+// Os olhos convergem girando em torno do centro de rotação; o eixo visual
+// cruza o plano dos óculos a uma fração W / (W + s) da DPN de longe, onde W é
+// a distância de leitura e s a distância do plano dos óculos ao centro de rotação
+export function calculateNearPd(
+  far: {
+    dp: number;
+    dpnLeft: number;
+    dpnRight: number;
+  },
+  options: {
+    workingDistance?: number;
+    vertexDistance?: number;
+  } = {}
+): NearPd {
+  const workingDistance = options.workingDistance || DEFAULT_WORKING_DISTANCE_MM;
+  const vertexDistance = options.vertexDistance || DEFAULT_VERTEX_DISTANCE_MM;
+  const ratio = workingDistance / (workingDistance + vertexDistance + ROTATION_CENTER_DEPTH_MM);
 
-  // Limitar o fator de correção para evitar valores extremos
-  return Math.max(0.5, Math.min(2.0, correctionFactor));
+  return {
+    dp: far.dp * ratio,
+    dpnLeft: far.dpnLeft * ratio,
+    dpnRight: far.dpnRight * ratio,
+    workingDistance
+  };
 }
 
 // Calcular distância entre dois pontos
@@ -91,7 +126,8 @@ export function calculatePupilDeviation(
     leftEye: { x: number; y: number };
     rightEye: { x: number; y: number };
     nose: { x: number; y: number };
-  }
+  },
+  mmPerPixel: number
 ): {
   horizontalDeviation: number;
   verticalDeviation: number;
@@ -103,13 +139,13 @@ export function calculatePupilDeviation(
   const horizontalDeviation = Math.abs(
     (landmarks.nose.x - landmarks.leftEye.x) * Math.cos(eyeLineAngle) +
     (landmarks.nose.y - landmarks.leftEye.y) * Math.sin(eyeLineAngle)
-  ) * CALIBRATION_FACTOR;
+  ) * mmPerPixel;
 
   // Calcular desvio vertical
   const verticalDeviation = Math.abs(
     (landmarks.nose.y - landmarks.leftEye.y) * Math.cos(eyeLineAngle) -
     (landmarks.nose.x - landmarks.leftEye.x) * Math.sin(eyeLineAngle)
-  ) * CALIBRATION_FACTOR;
+  ) * mmPerPixel;
 
   return {
     horizontalDeviation,
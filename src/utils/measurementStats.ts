@@ -0,0 +1,101 @@
+import { ApReference, MeasurementStats, MeasurementValues } from '../types/measurements';
+import { mean, median, standardDeviation } from './statistics';
+
+type MeasurementField = keyof MeasurementValues;
+
+const FIELDS: MeasurementField[] = ['dp', 'dpnLeft', 'dpnRight', 'apLeft', 'apRight'];
+
+// Alturas pupilares medidas a partir do nariz e do aro não são comparáveis entre si
+const AP_FIELDS: MeasurementField[] = ['apLeft', 'apRight'];
+
+// Limiares (mm) para considerar uma variação significativa entre medições
+export interface SignificantChangeThresholds {
+  dp: number;
+  dpn: number;
+  ap: number;
+}
+
+export const DEFAULT_SIGNIFICANT_CHANGE_THRESHOLDS: SignificantChangeThresholds = {
+  dp: parseFloat(process.env.STATS_DP_THRESHOLD_MM || '1.0'),
+  dpn: parseFloat(process.env.STATS_DPN_THRESHOLD_MM || '0.5'),
+  ap: parseFloat(process.env.STATS_AP_THRESHOLD_MM || '1.0')
+};
+
+// Medição do histórico com a data usada na ordenação
+export type StatsMeasurement = MeasurementValues & { createdAt: Date | string; apReference?: ApReference };
+
+function thresholdFor(field: MeasurementField, thresholds: SignificantChangeThresholds): number {
+  if (field === 'dp') return thresholds.dp;
+  return field.startsWith('dpn') ? thresholds.dpn : thresholds.ap;
+}
+
+// Inclinação da reta de mínimos quadrados dos valores pela ordem das medições
+function slope(values: number[]): number {
+  const n = values.length;
+  if (n < 2) return 0;
+
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+
+  values.forEach((value, x) => {
+    numerator += (x - xMean) * (value - yMean);
+    denominator += (x - xMean) ** 2;
+  });
+
+  return numerator / denominator;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Calcular estatísticas do histórico de medições de um cliente
+// Tendência: variação ajustada ao longo do histórico comparada ao limiar
+// Mudança significativa: última medição distante da mediana das anteriores,
+// o que costuma indicar captura ruim antes de indicar mudança real
+// As alturas pupilares usam só as medições com a mesma referência da mais recente
+export function calculateMeasurementStats(
+  history: StatsMeasurement[],
+  thresholds: SignificantChangeThresholds = DEFAULT_SIGNIFICANT_CHANGE_THRESHOLDS
+): MeasurementStats | null {
+  if (history.length === 0) return null;
+
+  const ordered = [...history].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+  const apReference = ordered[ordered.length - 1].apReference ?? 'nose';
+  const sameApReference = ordered.filter(measurement => (measurement.apReference ?? 'nose') === apReference);
+
+  const stats = {
+    apReference,
+    average: {},
+    min: {},
+    max: {},
+    standardDeviation: {},
+    trends: {},
+    significantChanges: {}
+  } as MeasurementStats;
+
+  for (const field of FIELDS) {
+    const series = AP_FIELDS.includes(field) ? sameApReference : ordered;
+    const values = series.map(measurement => Number(measurement[field]));
+    const threshold = thresholdFor(field, thresholds);
+    const fittedChange = slope(values) * (values.length - 1);
+    const previous = values.slice(0, -1);
+    const latest = values[values.length - 1];
+
+    stats.average[field] = round(mean(values));
+    stats.min[field] = round(Math.min(...values));
+    stats.max[field] = round(Math.max(...values));
+    stats.standardDeviation[field] = round(standardDeviation(values));
+    stats.trends[field] = Math.abs(fittedChange) < threshold
+      ? 'stable'
+      : fittedChange > 0 ? 'increasing' : 'decreasing';
+    stats.significantChanges[field] = previous.length > 0 && Math.abs(latest - median(previous)) > threshold;
+  }
+
+  return stats;
+}
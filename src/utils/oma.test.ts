@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OmaParseError,
+  parseOmaJob,
+  parseOmaRecords,
+  prismBaseAngle,
+  serializeOmaJob,
+  serializeOmaRecords
+} from './oma';
+import { OmaEye, OmaJob } from '../types/oma';
+
+function eye(values: Partial<OmaEye> = {}): OmaEye {
+  return {
+    sphere: -2,
+    cylinder: -0.75,
+    axis: 90,
+    add: null,
+    prism: null,
+    prismAngle: null,
+    ipd: 31.5,
+    npd: null,
+    segmentHeight: 22,
+    hbox: 52,
+    vbox: 40,
+    fed: 56,
+    ...values
+  };
+}
+
+function job(values: Partial<OmaJob> = {}): OmaJob {
+  return {
+    jobNumber: 'LJ-000123',
+    client: 'Maria Silva',
+    right: eye(),
+    left: eye({ sphere: -1.5, axis: 85, ipd: 32 }),
+    dbl: 18,
+    edgeType: 1,
+    ...values
+  };
+}
+
+describe('serializeOmaJob', () => {
+  it('escreve um registro por linha, terminado em CR LF', () => {
+    const text = serializeOmaJob(job());
+
+    expect(text.startsWith('JOB=LJ-000123\r\nCLIENT=Maria Silva\r\nDO=B\r\n')).toBe(true);
+    expect(text).toContain('SPH=-2.00;-1.50\r\n');
+    expect(text).toContain('IPD=31.50;32.00\r\n');
+    expect(text.endsWith('DBL=18.00\r\nETYP=1\r\n')).toBe(true);
+  });
+
+  it('omite rótulos sem valor nos dois olhos e deixa vazio o olho sem valor', () => {
+    const text = serializeOmaJob(job({ right: eye({ add: 2 }), dbl: null, edgeType: null }));
+
+    expect(text).toContain('ADD=2.00;\r\n');
+    expect(text).not.toContain('PRVM=');
+    expect(text).not.toContain('DBL=');
+    expect(text).not.toContain('ETYP=');
+  });
+
+  it('troca os separadores do formato dentro do nome do cliente', () => {
+    expect(serializeOmaJob(job({ client: 'Ana;Paula=Souza' }))).toContain('CLIENT=Ana Paula Souza\r\n');
+  });
+});
+
+describe('round trip', () => {
+  it('lê de volta o mesmo pedido', () => {
+    const original = job({ right: eye({ add: 2, prism: 1, prismAngle: 90, npd: 29.5 }) });
+    const text = serializeOmaJob(original);
+
+    expect(parseOmaJob(text)).toEqual(original);
+    expect(serializeOmaJob(parseOmaJob(text))).toBe(text);
+  });
+
+  it('nome cortado em um espaço no 30º caractere continua igual após a releitura', () => {
+    const text = serializeOmaJob(job({ client: 'Joao Pedro Albuquerque Ribeir Santos' }));
+
+    expect(text).toContain('CLIENT=Joao Pedro Albuquerque Ribeir\r\n');
+    expect(serializeOmaJob(parseOmaJob(text))).toBe(text);
+  });
+
+  it('nome terminado em espaço no limite do campo', () => {
+    const text = serializeOmaJob(job({ client: 'Joao Pedro Albuquerque Ribeir ' }));
+
+    expect(parseOmaJob(text).client).toBe('Joao Pedro Albuquerque Ribeir');
+    expect(serializeOmaJob(parseOmaJob(text))).toBe(text);
+  });
+
+  it('cliente só com separadores não gera registro vazio', () => {
+    const text = serializeOmaJob(job({ client: ';;' }));
+
+    expect(text).not.toContain('CLIENT=');
+    expect(serializeOmaJob(parseOmaJob(text))).toBe(text);
+  });
+});
+
+describe('parseOmaRecords', () => {
+  it('mantém rótulos repetidos na ordem do arquivo', () => {
+    const records = parseOmaRecords('R=1;2\nR=3;4\n\nJOB=1\r\n');
+
+    expect(records).toEqual([
+      { label: 'R', values: ['1', '2'] },
+      { label: 'R', values: ['3', '4'] },
+      { label: 'JOB', values: ['1'] }
+    ]);
+    expect(serializeOmaRecords(records)).toBe('R=1;2\r\nR=3;4\r\nJOB=1\r\n');
+  });
+
+  it('recusa linhas fora do formato ROTULO=valor', () => {
+    expect(() => parseOmaRecords('JOB=1\nsem rótulo\n')).toThrow(OmaParseError);
+  });
+});
+
+describe('parseOmaJob', () => {
+  it('lista os rótulos obrigatórios ausentes e os valores inválidos', () => {
+    const error = (() => {
+      try {
+        parseOmaJob('SPH=-2.00;abc\r\nCYL=0.00;0.00\r\nDO=L\r\n');
+      } catch (error) {
+        return error as OmaParseError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(OmaParseError);
+    expect(error!.errors).toEqual(
+      expect.arrayContaining([
+        'JOB ausente',
+        'SPH do olho esquerdo não é numérico: "abc"',
+        'IPD ausente no olho direito',
+        'SEGHT ausente no olho esquerdo',
+        'DO=L não suportado; apenas pedidos dos dois olhos (B)'
+      ])
+    );
+  });
+});
+
+describe('prismBaseAngle', () => {
+  it('usa 0° para o lado nasal do olho direito', () => {
+    expect(prismBaseAngle('in', 'right')).toBe(0);
+    expect(prismBaseAngle('in', 'left')).toBe(180);
+    expect(prismBaseAngle('out', 'right')).toBe(180);
+    expect(prismBaseAngle('up', 'left')).toBe(90);
+    expect(prismBaseAngle('down', 'right')).toBe(270);
+  });
+});
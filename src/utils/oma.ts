@@ -0,0 +1,209 @@
+import { OmaEdgeType, OmaEye, OmaJob, OmaRecord } from '../types/oma';
+import { PrismBase } from '../types/prescriptions';
+
+// Leitura e escrita de arquivos no padrão OMA/DCS (Vision Council Data Communication Standard)
+// Cada linha é um registro ROTULO=valor;valor, terminada em CR LF
+
+const LINE_END = '\r\n';
+
+// Rótulo DCS: letras maiúsculas, dígitos e sublinhado, começando por letra
+const RECORD_PATTERN = /^([A-Z][A-Z0-9_]*)=(.*)$/;
+
+// Tamanho máximo do nome do cliente aceito pelos laboratórios
+const MAX_CLIENT_LENGTH = 30;
+
+const EDGE_TYPES: OmaEdgeType[] = [1, 2, 3];
+
+// Erro de leitura de um arquivo OMA, com a lista de problemas encontrados
+export class OmaParseError extends Error {
+  constructor(public errors: string[]) {
+    super(`Arquivo OMA inválido: ${errors.join('; ')}`);
+    this.name = 'OmaParseError';
+    Object.setPrototypeOf(this, OmaParseError.prototype);
+  }
+}
+
+// Ler os registros de um arquivo OMA, na ordem do arquivo
+// Rótulos repetidos são mantidos (o traçado da armação, por exemplo, ocupa várias linhas R=)
+export function parseOmaRecords(text: string): OmaRecord[] {
+  const records: OmaRecord[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    const match = RECORD_PATTERN.exec(line.trim());
+    if (!match) {
+      errors.push(`linha ${index + 1}: registro fora do formato ROTULO=valor`);
+      return;
+    }
+
+    records.push({ label: match[1], values: match[2].split(';') });
+  });
+
+  if (errors.length > 0) {
+    throw new OmaParseError(errors);
+  }
+
+  return records;
+}
+
+// Escrever registros no formato OMA
+export function serializeOmaRecords(records: OmaRecord[]): string {
+  return records.map(record => `${record.label}=${record.values.join(';')}${LINE_END}`).join('');
+}
+
+// Ordem dos rótulos por olho no arquivo, com a formatação de cada valor
+const EYE_FIELDS: { label: string; key: keyof OmaEye; format: (value: number) => string }[] = [
+  { label: 'SPH', key: 'sphere', format: diopter },
+  { label: 'CYL', key: 'cylinder', format: diopter },
+  { label: 'AX', key: 'axis', format: integer },
+  { label: 'ADD', key: 'add', format: diopter },
+  { label: 'PRVM', key: 'prism', format: diopter },
+  { label: 'PRVA', key: 'prismAngle', format: integer },
+  { label: 'IPD', key: 'ipd', format: millimeters },
+  { label: 'NPD', key: 'npd', format: millimeters },
+  { label: 'SEGHT', key: 'segmentHeight', format: millimeters },
+  { label: 'HBOX', key: 'hbox', format: millimeters },
+  { label: 'VBOX', key: 'vbox', format: millimeters },
+  { label: 'FED', key: 'fed', format: millimeters }
+];
+
+// Rótulos sem os quais o laboratório não consegue surfaçar e montar as lentes
+const REQUIRED_EYE_FIELDS: (keyof OmaEye)[] = ['sphere', 'cylinder', 'ipd', 'segmentHeight'];
+
+// Converter um pedido em registros OMA; rótulos sem valor nos dois olhos são omitidos
+export function omaJobToRecords(job: OmaJob): OmaRecord[] {
+  const records: OmaRecord[] = [{ label: 'JOB', values: [sanitize(job.jobNumber)] }];
+
+  // O corte pode terminar em espaço, que a releitura descartaria
+  const client = job.client ? sanitize(job.client).slice(0, MAX_CLIENT_LENGTH).trim() : '';
+  if (client) {
+    records.push({ label: 'CLIENT', values: [client] });
+  }
+
+  // DO=B: pedido para os dois olhos
+  records.push({ label: 'DO', values: ['B'] });
+
+  for (const field of EYE_FIELDS) {
+    const right = job.right[field.key];
+    const left = job.left[field.key];
+    if (right === null && left === null) continue;
+
+    records.push({
+      label: field.label,
+      values: [right === null ? '' : field.format(right), left === null ? '' : field.format(left)]
+    });
+  }
+
+  if (job.dbl !== null) records.push({ label: 'DBL', values: [millimeters(job.dbl)] });
+  if (job.edgeType !== null) records.push({ label: 'ETYP', values: [String(job.edgeType)] });
+
+  return records;
+}
+
+// Gerar o arquivo OMA de um pedido
+export function serializeOmaJob(job: OmaJob): string {
+  return serializeOmaRecords(omaJobToRecords(job));
+}
+
+// Montar um pedido a partir de registros OMA, validando rótulos obrigatórios e valores
+export function recordsToOmaJob(records: OmaRecord[]): OmaJob {
+  const errors: string[] = [];
+  const find = (label: string) => records.find(record => record.label === label);
+
+  const jobNumber = find('JOB')?.values[0]?.trim();
+  if (!jobNumber) errors.push('JOB ausente');
+
+  const eye = (side: 0 | 1): OmaEye => {
+    const values = {} as Record<keyof OmaEye, number | null>;
+
+    for (const field of EYE_FIELDS) {
+      const raw = find(field.label)?.values[side]?.trim() ?? '';
+      if (raw === '') {
+        values[field.key] = null;
+        continue;
+      }
+
+      const value = Number(raw);
+      if (!Number.isFinite(value)) {
+        errors.push(`${field.label} do olho ${side === 0 ? 'direito' : 'esquerdo'} não é numérico: "${raw}"`);
+      }
+      values[field.key] = value;
+    }
+
+    for (const key of REQUIRED_EYE_FIELDS) {
+      if (values[key] === null) {
+        const label = EYE_FIELDS.find(field => field.key === key)!.label;
+        errors.push(`${label} ausente no olho ${side === 0 ? 'direito' : 'esquerdo'}`);
+      }
+    }
+
+    return values as OmaEye;
+  };
+
+  const right = eye(0);
+  const left = eye(1);
+
+  const dblRaw = find('DBL')?.values[0]?.trim() ?? '';
+  const dbl = dblRaw === '' ? null : Number(dblRaw);
+  if (dbl !== null && !Number.isFinite(dbl)) errors.push(`DBL não é numérico: "${dblRaw}"`);
+
+  const edgeRaw = find('ETYP')?.values[0]?.trim() ?? '';
+  const edgeType = edgeRaw === '' ? null : Number(edgeRaw);
+  if (edgeType !== null && !EDGE_TYPES.includes(edgeType as OmaEdgeType)) {
+    errors.push(`ETYP não suportado: "${edgeRaw}"`);
+  }
+
+  const doRecord = find('DO')?.values[0]?.trim();
+  if (doRecord && doRecord !== 'B') errors.push(`DO=${doRecord} não suportado; apenas pedidos dos dois olhos (B)`);
+
+  if (errors.length > 0) {
+    throw new OmaParseError(errors);
+  }
+
+  return {
+    jobNumber: jobNumber!,
+    client: find('CLIENT')?.values[0]?.trim() || null,
+    right,
+    left,
+    dbl,
+    edgeType: edgeType as OmaEdgeType | null
+  };
+}
+
+// Ler um pedido de um arquivo OMA
+export function parseOmaJob(text: string): OmaJob {
+  return recordsToOmaJob(parseOmaRecords(text));
+}
+
+// Direção da base do prisma em graus, na convenção OMA (0° para o lado nasal do olho direito)
+export function prismBaseAngle(base: PrismBase, side: 'right' | 'left'): number {
+  switch (base) {
+    case 'up':
+      return 90;
+    case 'down':
+      return 270;
+    case 'in':
+      return side === 'right' ? 0 : 180;
+    case 'out':
+      return side === 'right' ? 180 : 0;
+  }
+}
+
+// Separadores do formato não podem aparecer dentro de um valor
+function sanitize(value: string): string {
+  return value.replace(/[;=\r\n]/g, ' ').trim();
+}
+
+function diopter(value: number): string {
+  return value.toFixed(2);
+}
+
+function millimeters(value: number): string {
+  return value.toFixed(2);
+}
+
+function integer(value: number): string {
+  return String(Math.round(value));
+}
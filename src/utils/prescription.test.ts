@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCylinderForm,
+  isMultipleOf,
+  isPrescriptionExpired,
+  normalizeAxis,
+  roundedSphericalEquivalent,
+  sphericalEquivalent,
+  transposeEye,
+  transposePrescription
+} from './prescription';
+import { EyeRefraction } from '../types/prescriptions';
+
+function eye(values: Partial<EyeRefraction>): EyeRefraction {
+  return { sphere: 0, cylinder: 0, axis: null, add: null, prism: null, prismBase: null, ...values };
+}
+
+describe('isMultipleOf', () => {
+  it('aceita múltiplos do incremento com resíduo de ponto flutuante', () => {
+    expect(isMultipleOf(0.1 + 0.2 + 0.45, 0.25)).toBe(true);
+    expect(isMultipleOf(-2.75, 0.25)).toBe(true);
+  });
+
+  it('recusa valores fora do incremento', () => {
+    expect(isMultipleOf(1.1, 0.25)).toBe(false);
+  });
+});
+
+describe('normalizeAxis', () => {
+  it('mantém o eixo no intervalo de 1 a 180', () => {
+    expect(normalizeAxis(0)).toBe(180);
+    expect(normalizeAxis(180)).toBe(180);
+    expect(normalizeAxis(270)).toBe(90);
+    expect(normalizeAxis(-10)).toBe(170);
+  });
+});
+
+describe('transposeEye', () => {
+  it('transpõe cilindro positivo para negativo', () => {
+    const transposed = transposeEye(eye({ sphere: -1, cylinder: 0.5, axis: 30 }), 'minus');
+
+    expect(transposed).toMatchObject({ sphere: -0.5, cylinder: -0.5, axis: 120 });
+    expect(getCylinderForm(transposed)).toBe('minus');
+  });
+
+  it('transpõe cilindro negativo para positivo com eixo acima de 90', () => {
+    const transposed = transposeEye(eye({ sphere: 2, cylinder: -1.25, axis: 170 }), 'plus');
+
+    expect(transposed).toMatchObject({ sphere: 0.75, cylinder: 1.25, axis: 80 });
+  });
+
+  it('não altera olhos sem cilindro ou já na convenção pedida', () => {
+    const spherical = eye({ sphere: -3 });
+    const minus = eye({ sphere: -3, cylinder: -1, axis: 90 });
+
+    expect(transposeEye(spherical, 'plus')).toEqual(spherical);
+    expect(transposeEye(minus, 'minus')).toEqual(minus);
+  });
+
+  it('transpor duas vezes volta à receita original', () => {
+    const original = eye({ sphere: 1.75, cylinder: -0.75, axis: 45, add: 2 });
+
+    expect(transposeEye(transposeEye(original, 'plus'), 'minus')).toEqual(original);
+  });
+
+  it('transpõe os dois olhos da receita', () => {
+    const prescription = transposePrescription(
+      {
+        rightEye: eye({ sphere: -1, cylinder: 1, axis: 10 }),
+        leftEye: eye({ sphere: -2, cylinder: -1, axis: 100 })
+      },
+      'minus'
+    );
+
+    expect(prescription.rightEye).toMatchObject({ sphere: 0, cylinder: -1, axis: 100 });
+    expect(prescription.leftEye).toMatchObject({ sphere: -2, cylinder: -1, axis: 100 });
+  });
+});
+
+describe('sphericalEquivalent', () => {
+  it('soma metade do cilindro à esfera', () => {
+    expect(sphericalEquivalent({ sphere: -2, cylinder: -0.75 })).toBe(-2.375);
+  });
+
+  it('arredonda para o incremento de 0,25D', () => {
+    expect(roundedSphericalEquivalent({ sphere: -2, cylinder: -0.75 })).toBe(-2.25);
+    expect(roundedSphericalEquivalent({ sphere: 1, cylinder: 1.25 })).toBe(1.75);
+  });
+});
+
+describe('isPrescriptionExpired', () => {
+  it('considera válido o último dia da validade', () => {
+    const expiryDate = new Date(2026, 9, 18);
+
+    expect(isPrescriptionExpired({ expiryDate }, new Date(2026, 9, 18, 0, 0, 1))).toBe(false);
+    expect(isPrescriptionExpired({ expiryDate }, new Date(2026, 9, 18, 23, 59, 59))).toBe(false);
+  });
+
+  it('vence no dia seguinte à validade', () => {
+    expect(isPrescriptionExpired({ expiryDate: new Date(2026, 9, 18) }, new Date(2026, 9, 19))).toBe(true);
+  });
+
+  it('aceita a data de validade sem horário', () => {
+    const expiryDate = '2026-10-18' as unknown as Date;
+
+    expect(isPrescriptionExpired({ expiryDate }, new Date(2026, 9, 18, 22))).toBe(false);
+    expect(isPrescriptionExpired({ expiryDate }, new Date(2026, 9, 19, 1))).toBe(true);
+  });
+});
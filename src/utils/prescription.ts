@@ -0,0 +1,86 @@
+import { CylinderForm, EyeRefraction, Prescription } from '../types/prescriptions';
+
+// Incremento padrão de esfera, cilindro e adição, em dioptrias
+export const DIOPTER_STEP = 0.25;
+
+// Verificar se um valor é múltiplo do incremento (tolerando erro de ponto flutuante)
+export function isMultipleOf(value: number, step: number): boolean {
+  const steps = value / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-6;
+}
+
+// Normalizar eixo para o intervalo 1-180
+export function normalizeAxis(axis: number): number {
+  const normalized = ((Math.round(axis) % 180) + 180) % 180;
+  return normalized === 0 ? 180 : normalized;
+}
+
+// Identificar a convenção do cilindro de um olho
+export function getCylinderForm(eye: EyeRefraction): CylinderForm | null {
+  if (eye.cylinder === 0) return null;
+  return eye.cylinder < 0 ? 'minus' : 'plus';
+}
+
+// Transpor o cilindro para a convenção desejada
+// esfera' = esfera + cilindro, cilindro' = -cilindro, eixo' = eixo ± 90
+export function transposeEye(eye: EyeRefraction, form: CylinderForm): EyeRefraction {
+  const current = getCylinderForm(eye);
+
+  if (current === null || current === form || eye.axis === null) {
+    return { ...eye };
+  }
+
+  return {
+    ...eye,
+    sphere: round(eye.sphere + eye.cylinder),
+    cylinder: round(-eye.cylinder),
+    axis: normalizeAxis(eye.axis + 90)
+  };
+}
+
+// Transpor os dois olhos de uma receita
+export function transposePrescription<T extends Pick<Prescription, 'rightEye' | 'leftEye'>>(
+  prescription: T,
+  form: CylinderForm
+): T {
+  return {
+    ...prescription,
+    rightEye: transposeEye(prescription.rightEye, form),
+    leftEye: transposeEye(prescription.leftEye, form)
+  };
+}
+
+// Calcular o equivalente esférico (esfera + cilindro / 2)
+export function sphericalEquivalent(eye: Pick<EyeRefraction, 'sphere' | 'cylinder'>): number {
+  return round(eye.sphere + eye.cylinder / 2);
+}
+
+// Equivalente esférico arredondado para o incremento de 0,25D mais próximo
+export function roundedSphericalEquivalent(eye: Pick<EyeRefraction, 'sphere' | 'cylinder'>): number {
+  return round(Math.round(sphericalEquivalent(eye) / DIOPTER_STEP) * DIOPTER_STEP);
+}
+
+// Verificar se a receita está vencida em uma data
+// O dia da validade ainda conta: a comparação é entre datas do calendário, sem horário
+export function isPrescriptionExpired(
+  prescription: Pick<Prescription, 'expiryDate'>,
+  at: Date = new Date()
+): boolean {
+  return calendarDay(at) > calendarDay(prescription.expiryDate);
+}
+
+// Data do calendário no formato AAAA-MM-DD, comparável como texto
+// Datas sem horário chegam como texto; as colunas DATE do pg, como meia-noite no fuso local
+function calendarDay(value: Date | string): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Arredondar para evitar resíduos de ponto flutuante (ex.: 0.30000000000000004)
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
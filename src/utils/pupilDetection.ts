@@ -0,0 +1,175 @@
+import { clampRegion, toGrayscale } from './calibration';
+import { EyeRegion, PupilCenter } from '../types/measurements';
+
+// Número de iterações de refinamento em torno da estimativa anterior
+const REFINEMENT_ITERATIONS = 2;
+
+// Raio de busca da pupila em relação à largura do olho
+const SEARCH_RADIUS_RATIO = 0.22;
+
+// Localizar o centro da pupila com precisão subpixel dentro da região do olho
+export function refinePupilCenter(
+  ctx: CanvasRenderingContext2D,
+  region: EyeRegion,
+  imageWidth: number,
+  imageHeight: number
+): PupilCenter | null {
+  // A pupila pode ficar parcialmente coberta pela pálpebra,
+  // então a busca se estende um pouco acima e abaixo do contorno
+  const search = clampRegion(
+    {
+      x: Math.floor(region.x),
+      y: Math.floor(region.y - region.height * 0.3),
+      width: Math.ceil(region.width),
+      height: Math.ceil(region.height * 1.6)
+    },
+    imageWidth,
+    imageHeight
+  );
+
+  if (search.width < 6 || search.height < 4) {
+    return null;
+  }
+
+  const pixels = ctx.getImageData(search.x, search.y, search.width, search.height);
+  const gray = smoothImage(
+    toGrayscale(pixels.data, search.width, search.height),
+    search.width,
+    search.height
+  );
+
+  const background = median(gray);
+  const radius = region.width * SEARCH_RADIUS_RATIO;
+
+  // Primeira estimativa: centro do contorno do olho
+  let center = { x: search.width / 2, y: search.height / 2 };
+  let blob: { x: number; y: number; mean: number; area: number } | null = null;
+
+  for (let i = 0; i <= REFINEMENT_ITERATIONS; i++) {
+    // Na primeira passada, toda a região; depois, apenas o círculo em torno da estimativa
+    const limit = i === 0 ? Infinity : radius;
+    const next = findDarkBlob(gray, search.width, search.height, center, limit, background);
+
+    if (!next) break;
+
+    blob = next;
+    center = { x: next.x, y: next.y };
+  }
+
+  if (!blob) {
+    return null;
+  }
+
+  // Contraste entre a pupila e o restante do olho
+  const contrast = Math.min(1, Math.max(0, (background - blob.mean) / 0.3));
+
+  // Pupila muito próxima da borda da busca sugere sombra ou sobrancelha
+  const offset = Math.hypot(
+    center.x - search.width / 2,
+    (center.y - search.height / 2) * 2
+  ) / search.width;
+  const centrality = Math.max(0, 1 - offset * 2);
+
+  // Área esperada: a pupila ocupa aproximadamente 5 a 20% da largura do olho
+  const expectedArea = Math.PI * (region.width * 0.1) ** 2;
+  const areaRatio = blob.area / expectedArea;
+  const areaScore = areaRatio > 0.1 && areaRatio < 4 ? 1 : 0.5;
+
+  return {
+    x: search.x + center.x,
+    y: search.y + center.y,
+    confidence: contrast * centrality * areaScore
+  };
+}
+
+// Centroide ponderado dos pixels mais escuros, limitado a um raio em torno de um ponto
+function findDarkBlob(
+  gray: Float64Array,
+  width: number,
+  height: number,
+  center: { x: number; y: number },
+  radius: number,
+  background: number
+): { x: number; y: number; mean: number; area: number } | null {
+  let darkest = Infinity;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (Math.hypot(x - center.x, y - center.y) > radius) continue;
+      darkest = Math.min(darkest, gray[y * width + x]);
+    }
+  }
+
+  if (!isFinite(darkest) || darkest >= background) {
+    return null;
+  }
+
+  // Limiar entre o ponto mais escuro e o fundo do olho
+  const threshold = darkest + (background - darkest) * 0.3;
+
+  let sumWeight = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumValue = 0;
+  let area = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (Math.hypot(x - center.x, y - center.y) > radius) continue;
+
+      const value = gray[y * width + x];
+      if (value > threshold) continue;
+
+      // Pixels mais escuros pesam mais, o que dá precisão subpixel ao centroide
+      const weight = threshold - value;
+      sumWeight += weight;
+      sumX += (x + 0.5) * weight;
+      sumY += (y + 0.5) * weight;
+      sumValue += value;
+      area++;
+    }
+  }
+
+  if (sumWeight === 0) {
+    return null;
+  }
+
+  return {
+    x: sumX / sumWeight,
+    y: sumY / sumWeight,
+    mean: sumValue / area,
+    area
+  };
+}
+
+// Suavizar imagem em tons de cinza com filtro de caixa 3x3
+function smoothImage(gray: Float64Array, width: number, height: number): Float64Array {
+  const smoothed = new Float64Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          sum += gray[ny * width + nx];
+          count++;
+        }
+      }
+
+      smoothed[y * width + x] = sum / count;
+    }
+  }
+
+  return smoothed;
+}
+
+// Mediana dos valores de intensidade
+function median(values: Float64Array): number {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
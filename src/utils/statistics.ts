@@ -0,0 +1,39 @@
+// Fator que torna o MAD um estimador consistente do desvio padrão (dados normais)
+const MAD_SCALE = 1.4826;
+
+// Calcular média
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Calcular mediana
+export function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+// Calcular desvio padrão amostral
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+
+  return Math.sqrt(variance);
+}
+
+// Calcular desvio robusto pela mediana dos desvios absolutos (MAD),
+// escalado para ser comparável ao desvio padrão
+export function robustSpread(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const center = median(values);
+  return median(values.map(value => Math.abs(value - center))) * MAD_SCALE;
+}
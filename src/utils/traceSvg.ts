@@ -0,0 +1,150 @@
+import { measureTrace, radiusAt, tracePoints, TraceMeasures } from './frameTrace';
+import { FrameTrace } from '../types/frames';
+
+// Desenho do contorno traçado da armação em SVG, em escala real (1 unidade = 1 mm)
+// Vista frontal: o olho direito do cliente fica à esquerda do desenho
+
+const COLORS = {
+  outline: '#212121',
+  box: '#9e9e9e',
+  boxCenter: '#9e9e9e',
+  pupil: '#00838f',
+  outside: '#d32f2f',
+  text: '#212121'
+};
+
+// Margem em volta do desenho, em mm
+const MARGIN = 12;
+
+// Posição das pupilas medidas em relação à armação
+export interface TracePupils {
+  dpnRight: number;
+  dpnLeft: number;
+  apRight: number; // Altura da pupila acima da base da caixa da lente
+  apLeft: number;
+}
+
+interface PlacedLens {
+  side: 'right' | 'left';
+  radii: number[];
+  measures: TraceMeasures;
+  centerX: number; // Centro da caixa no desenho, em mm a partir do centro da ponte
+}
+
+// Gerar o SVG do traçado, com as pupilas e a descentração de cada olho quando informadas
+export function renderFrameTraceSvg(
+  trace: Pick<FrameTrace, 'right' | 'left' | 'dimensions'>,
+  pupils?: TracePupils | null
+): string {
+  const { a, b, dbl, ed } = trace.dimensions;
+  const lenses: PlacedLens[] = (['right', 'left'] as const).map(side => {
+    const radii = trace[side];
+    const measures = measureTrace(radii);
+    const offset = dbl / 2 + measures.a / 2;
+    return { side, radii, measures, centerX: side === 'right' ? -offset : offset };
+  });
+
+  const halfWidth = Math.max(...lenses.map(lens => Math.abs(lens.centerX) + lens.measures.a / 2));
+  const halfHeight = Math.max(...lenses.map(lens => lens.measures.b / 2));
+  const width = 2 * (halfWidth + MARGIN);
+  const height = 2 * (halfHeight + MARGIN);
+
+  const elements: string[] = [];
+
+  for (const lens of lenses) {
+    const { measures, centerX } = lens;
+
+    // Contorno: pontos do traçado levados para o centro da caixa, com y do SVG para baixo
+    const path = tracePoints(lens.radii)
+      .map((point, index) => {
+        const x = centerX + point.x - measures.boxCenter.x;
+        const y = -(point.y - measures.boxCenter.y);
+        return `${index === 0 ? 'M' : 'L'}${format(x)} ${format(y)}`;
+      })
+      .join(' ');
+    elements.push(`<path d="${path} Z" fill="none" stroke="${COLORS.outline}" stroke-width="0.4"/>`);
+
+    // Caixa (boxing) e centro geométrico
+    elements.push(
+      `<rect x="${format(centerX - measures.a / 2)}" y="${format(-measures.b / 2)}" ` +
+        `width="${format(measures.a)}" height="${format(measures.b)}" fill="none" ` +
+        `stroke="${COLORS.box}" stroke-width="0.2" stroke-dasharray="1 1"/>`
+    );
+    elements.push(crosshair(centerX, 0, 1.5, COLORS.boxCenter));
+
+    if (!pupils) continue;
+
+    const dpn = lens.side === 'right' ? pupils.dpnRight : pupils.dpnLeft;
+    const ap = lens.side === 'right' ? pupils.apRight : pupils.apLeft;
+    const pupilX = lens.side === 'right' ? -dpn : dpn;
+    const pupilY = measures.b / 2 - ap;
+
+    // Pupila fora do contorno: a lente não cobre o centro óptico
+    const inside = isInsideOutline(lens, pupilX, pupilY);
+    const color = inside ? COLORS.pupil : COLORS.outside;
+
+    // Descentração: positiva quando o centro óptico vai para o nariz
+    const decentration = Math.abs(centerX) - dpn;
+
+    elements.push(crosshair(pupilX, pupilY, 2, color));
+    elements.push(
+      `<line x1="${format(pupilX)}" y1="${format(measures.b / 2)}" x2="${format(pupilX)}" y2="${format(pupilY)}" ` +
+        `stroke="${color}" stroke-width="0.25"/>`
+    );
+    elements.push(
+      text(
+        centerX,
+        measures.b / 2 + 5,
+        `DPN ${dpn.toFixed(1)}  AP ${ap.toFixed(1)}  Desc. ${decentration.toFixed(1)}${inside ? '' : '  FORA DO ARO'}`,
+        inside ? COLORS.text : COLORS.outside
+      )
+    );
+  }
+
+  elements.push(
+    text(
+      0,
+      -halfHeight - MARGIN / 2,
+      `A ${a.toFixed(1)}  B ${b.toFixed(1)}  DBL ${dbl.toFixed(1)}  ED ${ed.toFixed(1)}`,
+      COLORS.text
+    )
+  );
+
+  const minX = -width / 2;
+  const minY = -(halfHeight + MARGIN);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${format(width)}mm" height="${format(height)}mm" ` +
+      `viewBox="${format(minX)} ${format(minY)} ${format(width)} ${format(height)}">`,
+    ...elements,
+    '</svg>'
+  ].join('\n');
+}
+
+// Verificar se um ponto do desenho está dentro do contorno da lente
+function isInsideOutline(lens: PlacedLens, x: number, y: number): boolean {
+  // Voltar às coordenadas do traçado (origem do traçado, y para cima)
+  const traceX = x - lens.centerX + lens.measures.boxCenter.x;
+  const traceY = -y + lens.measures.boxCenter.y;
+  const angle = (Math.atan2(traceY, traceX) * 180) / Math.PI;
+
+  return Math.hypot(traceX, traceY) <= radiusAt(lens.radii, angle);
+}
+
+function crosshair(x: number, y: number, size: number, color: string): string {
+  return (
+    `<path d="M${format(x - size)} ${format(y)} L${format(x + size)} ${format(y)} ` +
+    `M${format(x)} ${format(y - size)} L${format(x)} ${format(y + size)}" stroke="${color}" stroke-width="0.3"/>`
+  );
+}
+
+function text(x: number, y: number, content: string, color: string): string {
+  return (
+    `<text x="${format(x)}" y="${format(y)}" font-family="sans-serif" font-size="3" ` +
+    `text-anchor="middle" fill="${color}">${content}</text>`
+  );
+}
+
+function format(value: number): string {
+  return value.toFixed(2);
+}